@@ -0,0 +1,111 @@
+// Fixture catalog and scripted answers for the mock backend (mock/server.mjs).
+// The books are public-domain classics so the quotes can be shown as is.
+
+export const books = [
+  {
+    id: 'meditations', title: 'Meditations', author: 'Marcus Aurelius', theme: 'Philosophy',
+    color: 'from-amber-400/30 to-rose-500/20', tagline: 'Private notes on living well from a Roman emperor',
+    chapters: ['Debts and lessons', 'On the river Gran', 'In Carnuntum', 'The inner citadel', 'At dawn', 'Change is nature', 'Endurance', 'What is in your power', 'Justice', 'Nature’s order', 'The rational soul', 'Death and time'],
+    suggestedQuestions: ['How do I stay calm when others are rude?', 'What does Marcus mean by the inner citadel?', 'Give me a morning routine based on Book 5'],
+    quotes: [
+      { chapter: 'Book 5', location: '5.1', quote: 'At dawn, when you have trouble getting out of bed, tell yourself: I have to go to work as a human being.' },
+      { chapter: 'Book 4', location: '4.3', quote: 'Nowhere can man find a quieter or more untroubled retreat than in his own soul.' },
+    ],
+  },
+  {
+    id: 'art-of-war', title: 'The Art of War', author: 'Sun Tzu', theme: 'Strategy',
+    color: 'from-rose-500/30 to-orange-500/20', tagline: 'Thirteen short chapters on winning without fighting',
+    chapters: ['Laying plans', 'Waging war', 'Attack by stratagem', 'Tactical dispositions', 'Energy', 'Weak points and strong', 'Manoeuvring', 'Variation in tactics', 'The army on the march', 'Terrain', 'The nine situations', 'The attack by fire', 'The use of spies'],
+    suggestedQuestions: ['How do I apply "know yourself" at work?', 'What is the best way to win an argument?'],
+    quotes: [
+      { chapter: 'Attack by stratagem', location: 'III.18', quote: 'If you know the enemy and know yourself, you need not fear the result of a hundred battles.' },
+      { chapter: 'Laying plans', location: 'I.18', quote: 'All warfare is based on deception.' },
+    ],
+  },
+  {
+    id: 'walden', title: 'Walden', author: 'Henry David Thoreau', theme: 'Simplicity',
+    color: 'from-emerald-500/30 to-teal-500/20', tagline: 'Two years in a cabin, and what they taught about enough',
+    chapters: ['Economy', 'Where I lived, and what I lived for', 'Reading', 'Sounds', 'Solitude', 'Visitors', 'The bean-field', 'The village', 'The ponds', 'Conclusion'],
+    suggestedQuestions: ['What would Thoreau cut from my week?', 'Why did he go to the woods?'],
+    quotes: [
+      { chapter: 'Where I lived, and what I lived for', location: 'p. 90', quote: 'I went to the woods because I wished to live deliberately, to front only the essential facts of life.' },
+      { chapter: 'Economy', location: 'p. 8', quote: 'The mass of men lead lives of quiet desperation.' },
+    ],
+  },
+  {
+    id: 'shortness-of-life', title: 'On the Shortness of Life', author: 'Seneca', theme: 'Productivity',
+    color: 'from-sky-500/30 to-indigo-500/20', tagline: 'Life is long enough, if you know how to use it',
+    chapters: ['Life is long if you know how to use it', 'The preoccupied', 'Time given away', 'Postponing life', 'The leisure of the wise'],
+    suggestedQuestions: ['How do I stop wasting time?', 'What does Seneca say about being busy?'],
+    quotes: [
+      { chapter: 'Chapter 1', location: '1.3', quote: 'It is not that we have a short time to live, but that we waste a lot of it.' },
+      { chapter: 'Chapter 9', location: '9.1', quote: 'The greatest obstacle to living is expectancy, which hangs upon tomorrow and loses today.' },
+    ],
+  },
+  {
+    id: 'franklin', title: 'The Autobiography of Benjamin Franklin', author: 'Benjamin Franklin', theme: 'Habits',
+    color: 'from-violet-500/30 to-fuchsia-500/20', tagline: 'Thirteen virtues, tracked one week at a time',
+    chapters: ['Boyhood in Boston', 'Printer in Philadelphia', 'The Junto', 'The thirteen virtues', 'Public life'],
+    suggestedQuestions: ['How did Franklin track his virtues?', 'Turn the thirteen virtues into a weekly plan'],
+    quotes: [
+      { chapter: 'The thirteen virtues', location: 'Part II', quote: 'I made a little book, in which I allotted a page for each of the virtues.' },
+      { chapter: 'The thirteen virtues', location: 'Part II', quote: 'Lose no time; be always employ’d in something useful; cut off all unnecessary actions.' },
+    ],
+  },
+  {
+    id: 'as-a-man-thinketh', title: 'As a Man Thinketh', author: 'James Allen', theme: 'Mindset',
+    color: 'from-lime-500/30 to-emerald-500/20', tagline: 'A short essay on thought as the root of character',
+    chapters: ['Thought and character', 'Effect of thought on circumstances', 'Effect of thought on health and the body', 'Thought and purpose', 'The thought-factor in achievement', 'Visions and ideals', 'Serenity'],
+    suggestedQuestions: ['How do my thoughts shape my habits?', 'What is the link between purpose and calm?'],
+    quotes: [
+      { chapter: 'Thought and character', location: 'p. 3', quote: 'A man is literally what he thinks, his character being the complete sum of all his thoughts.' },
+      { chapter: 'Serenity', location: 'p. 54', quote: 'Calmness of mind is one of the beautiful jewels of wisdom.' },
+    ],
+  },
+];
+
+/** The record served by GET /books/:id */
+export const detail = (b) => ({
+  id: b.id, title: b.title, author: b.author, theme: b.theme, color: b.color, tagline: b.tagline,
+  chapters: b.chapters.map((title, i) => ({ id: `${b.id}-ch${i + 1}`, title, number: i + 1 })),
+  suggestedQuestions: b.suggestedQuestions,
+});
+
+/** The list entry served by GET /books (no chapters, like a real catalog page) */
+export const summary = (b) => ({ id: b.id, title: b.title, author: b.author, theme: b.theme, color: b.color, tagline: b.tagline });
+
+/** A markdown answer with [n] markers for the book's quotes */
+export function answer(b, question) {
+  const [q1, q2] = b.quotes;
+  return [
+    `Here is how **${b.title}** speaks to “${question.trim()}”.`,
+    '',
+    `${b.author} keeps coming back to one idea: ${q1.quote.charAt(0).toLowerCase()}${q1.quote.slice(1)} [1]`,
+    '',
+    '- **Start small.** Pick one situation this week where the idea applies and act on it deliberately.',
+    '- **Write it down.** A line in the evening about what happened makes the lesson stick.',
+    `- **Notice the pattern.** ${q2.quote} [2]`,
+    '',
+    'Try it for a few days and ask me again about what you noticed.',
+  ].join('\n');
+}
+
+/** A "Day 1 … Day 7" answer the app offers to save as a checklist */
+export function plan(b) {
+  const days = ['Read one short section', 'Pick one idea to test', 'Try it once before noon', 'Note what changed', 'Repeat with a harder case', 'Teach it to someone', 'Review the week'];
+  return [`**7-day plan: ${b.title}**`, '', ...days.flatMap((d, i) => [`Day ${i + 1}: ${d}`, `- ${d} (15 minutes)`, `- Journal one sentence about it`, ''])].join('\n');
+}
+
+export const citations = (b) => b.quotes.map((q, i) => ({ n: i + 1, chapter: q.chapter, location: q.location, quote: q.quote }));
+
+export function quiz(b, count) {
+  const chapters = detail(b).chapters;
+  const questions = [
+    { prompt: `Who wrote ${b.title}?`, options: [b.author, 'Epictetus', 'Ralph Waldo Emerson', 'Lao Tzu'], answer: 0, topic: 'The author' },
+    { prompt: `Complete the line: “${b.quotes[0].quote.split(' ').slice(0, 6).join(' ')} …”`, answer: b.quotes[0].quote, topic: b.quotes[0].chapter },
+    { prompt: `Which of these is a chapter of ${b.title}?`, options: [chapters[1].title, 'The Lean Startup', 'Getting Things Done', 'Deep Work'], answer: 0, topic: 'Structure' },
+    { prompt: `In one sentence, what is the main theme of ${b.title}?`, answer: b.tagline, keywords: b.theme.toLowerCase().split(' '), topic: b.theme },
+    { prompt: `Which quote comes from ${b.title}?`, options: ['Stay hungry, stay foolish.', b.quotes[1].quote, 'Move fast and break things.'], answer: 1, explanation: `From ${b.quotes[1].chapter}.`, topic: b.quotes[1].chapter },
+  ];
+  return { id: `quiz-${b.id}-${Date.now()}`, questions: questions.slice(0, count) };
+}
@@ -0,0 +1,10 @@
+// Types for the parts of the mock backend that tests import (src/lib/sync.test.ts)
+
+/** One user's server-side copy; opaque to callers */
+export type SyncStore = { readonly seq: number };
+
+/** The store for `userId`, created empty on first use */
+export function storeFor(userId: string): SyncStore;
+
+/** Handle a `POST /sync` body against `store`, returning the response body */
+export function applySync(store: SyncStore, body: unknown): unknown;
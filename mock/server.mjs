@@ -0,0 +1,236 @@
+// Mock backend for local development: `npm run mock`, then `npm run dev` in another terminal.
+// Serves the whole API the app uses (see README → "Mock backend") from fixtures in memory, with
+// no dependencies beyond Node. Answers stream as scripted SSE; put a #tag in the question to
+// pick a script:
+//   #plan     a "Day 1 … Day 7" answer (Save as checklist)
+//   #slow     the default answer, one word every 400ms
+//   #drop     the connection drops halfway; the app resumes with Last-Event-ID
+//   #stall    stops sending after the first sentence (the app times out)
+//   #error    an `error` event with a message for the reader
+//   #500      the request fails with HTTP 500
+// Environment: PORT (default 3001), MOCK_LATENCY (ms added to every response),
+// MOCK_BOOKS=array (old bare-array /books) or MOCK_BOOKS=invalid (a malformed catalog).
+
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { books, detail, summary, answer, plan, citations, quiz } from './data.mjs';
+
+const PORT = Number(process.env.PORT) || 3001;
+const LATENCY = Number(process.env.MOCK_LATENCY) || 0;
+const BOOKS_MODE = process.env.MOCK_BOOKS ?? 'paged';
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept, Last-Event-ID',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const json = (res, status, body) => {
+  res.writeHead(status, { ...cors, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (c) => (raw += c));
+    req.on('end', () => { try { resolve(JSON.parse(raw || '{}')); } catch { resolve({}); } });
+  });
+
+// --- Auth: any email signs in, except with the password "wrong". Tokens encode the email,
+// so they survive restarts of the mock.
+const tokenFor = (email) => `mock.${Buffer.from(email).toString('base64url')}`;
+const userFor = (req) => {
+  const m = /^Bearer mock\.(.+)$/.exec(req.headers.authorization ?? '');
+  if (!m) return null;
+  const email = Buffer.from(m[1], 'base64url').toString();
+  return { id: `user-${Buffer.from(email).toString('hex').slice(0, 16)}`, email, name: email.split('@')[0] };
+};
+
+// --- Books
+function listBooks(url) {
+  if (BOOKS_MODE === 'invalid') return [{ id: 'broken', author: 42 }];
+  if (BOOKS_MODE === 'array') return books.map(summary);
+  const q = (url.searchParams.get('q') ?? '').toLowerCase();
+  const theme = url.searchParams.get('theme');
+  const author = url.searchParams.get('author');
+  const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+  const pageSize = Math.max(1, Number(url.searchParams.get('pageSize')) || 12);
+  const list = books
+    .filter((b) => !q || [b.title, b.author, b.theme, b.tagline].some((s) => s.toLowerCase().includes(q)))
+    .filter((b) => (!theme || b.theme === theme) && (!author || b.author === author))
+    .sort((a, b) => a.title.localeCompare(b.title));
+  const start = (page - 1) * pageSize;
+  return {
+    items: list.slice(start, start + pageSize).map(summary),
+    total: list.length,
+    hasMore: start + pageSize < list.length,
+    facets: { themes: [...new Set(books.map((b) => b.theme))].sort(), authors: [...new Set(books.map((b) => b.author))].sort() },
+  };
+}
+
+// --- Scripted SSE. A script is a list of events; each gets an id so dropped streams can resume.
+function script(question, b, language) {
+  const tag = /#(\w+)/.exec(question)?.[1] ?? process.env.MOCK_SCENARIO ?? '';
+  const text = tag === 'plan' ? plan(b) : answer(b, question.replace(/#\w+/g, ''));
+  const words = text.split(/(?<=\s)/);
+  const events = [{ event: 'meta', data: { bookId: b.id, model: 'mock', ...(language ? { language } : {}) } }];
+  for (let i = 0; i < words.length; i += 3) events.push({ event: 'chunk', data: words.slice(i, i + 3).join('') });
+  if (tag !== 'plan') events.push({ event: 'citations', data: citations(b) });
+  events.push({ event: 'done', data: { ok: true } });
+  return { tag, events };
+}
+
+// The mock always writes English; `language` is echoed in meta so clients can see it arrived
+async function streamAnswer(req, res, question, b, language) {
+  const { tag, events } = script(question, b, language);
+  if (tag === '500') return json(res, 500, { error: 'Scripted failure' });
+  const resumeFrom = Number(req.headers['last-event-id'] ?? -1);
+  res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.write('retry: 500\n\n');
+  let closed = false;
+  req.on('close', () => (closed = true));
+  const delay = tag === 'slow' ? 400 : 40;
+  for (let i = resumeFrom + 1; i < events.length && !closed; i++) {
+    const e = events[i];
+    if (tag === 'error' && e.event === 'chunk' && i > 6) {
+      res.write(`event: error\ndata: ${JSON.stringify({ message: 'The book lost its place. Please try again.' })}\n\n`);
+      return res.end();
+    }
+    // Drop once, halfway, on the first connection only
+    if (tag === 'drop' && resumeFrom < 0 && i === Math.floor(events.length / 2)) return res.destroy();
+    if (tag === 'stall' && e.event === 'chunk' && i > 8) return; // keep the connection open, send nothing
+    res.write(`id: ${i}\nevent: ${e.event}\ndata: ${typeof e.data === 'string' ? e.data.split('\n').join('\ndata: ') : JSON.stringify(e.data)}\n\n`);
+    await sleep(delay);
+  }
+  res.end();
+}
+
+async function streamCompare(req, res, body) {
+  const titles = (body.bookIds ?? []).map((id) => books.find((b) => b.id === id)?.title ?? id);
+  const text = `**Where they agree:** ${titles.join(' and ')} both point to small, deliberate daily practice.\n\n**Where they differ:** ${titles[0]} focuses on the inner attitude, ${titles[1] ?? 'the other'} on outward action.\n\n**Try:** pick one idea from each and test them on alternate days.`;
+  res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for (const w of text.split(/(?<=\s)/)) { res.write(`event: chunk\ndata: ${w}\n\n`); await sleep(30); }
+  res.write('event: done\ndata: {}\n\n');
+  res.end();
+}
+
+// --- Sync: one store per user. Every stored record remembers the sequence number of its last
+// change; the cursor is the highest sequence number the client has seen. Conflicts are resolved
+// with the same rules as src/lib/sync.ts, whose tests run against `applySync`.
+const stores = new Map();
+export const storeFor = (userId) => {
+  if (!stores.has(userId)) stores.set(userId, { seq: 0, journal: new Map(), threads: new Map(), deleted: { journal: new Map(), threads: new Map() }, activity: null, reading: null });
+  return stores.get(userId);
+};
+
+const version = (e) => e.updatedAt ?? e.ts;
+const settled = (m) => m.role === 'user' || (m.status !== 'queued' && m.status !== 'streaming');
+
+function mergeThread(a, b) {
+  const newer = b.updatedAt > a.updatedAt ? b : a;
+  const older = newer === b ? a : b;
+  const byId = new Map(older.messages.map((m) => [m.id, m]));
+  for (const m of newer.messages) { const o = byId.get(m.id); if (!o || settled(m) || !settled(o)) byId.set(m.id, m); }
+  return { ...newer, createdAt: Math.min(a.createdAt, b.createdAt), messages: [...byId.values()].sort((x, y) => x.ts - y.ts) };
+}
+
+function mergeActivity(a, b) {
+  const newer = (b.updatedAt ?? 0) > (a.updatedAt ?? 0) ? b : a;
+  const days = { ...a.days };
+  for (const [k, devices] of Object.entries(b.days)) {
+    const merged = { ...days[k] };
+    for (const [id, d] of Object.entries(devices)) merged[id] = merged[id] ? { questions: Math.max(merged[id].questions, d.questions), reviews: Math.max(merged[id].reviews, d.reviews) } : d;
+    days[k] = merged;
+  }
+  return { days, goal: newer.goal, freezes: newer.freezes, frozen: [...new Set([...a.frozen, ...b.frozen])].sort(), longest: Math.max(a.longest, b.longest), ...(newer.updatedAt !== undefined ? { updatedAt: newer.updatedAt } : {}) };
+}
+
+export function applySync(s, body) {
+  const since = Number(body.cursor ?? 0) || 0;
+  for (const e of body.journal ?? []) {
+    const mine = s.journal.get(e.id)?.value;
+    if ((s.deleted.journal.get(e.id)?.value.ts ?? -Infinity) >= version(e)) continue;
+    if (!mine || version(e) >= version(mine)) { s.journal.set(e.id, { seq: ++s.seq, value: e }); s.deleted.journal.delete(e.id); }
+  }
+  for (const t of body.threads ?? []) {
+    if ((s.deleted.threads.get(t.id)?.value.ts ?? -Infinity) >= t.updatedAt) continue;
+    const mine = s.threads.get(t.id)?.value;
+    s.threads.set(t.id, { seq: ++s.seq, value: mine ? mergeThread(mine, t) : t });
+    s.deleted.threads.delete(t.id);
+  }
+  for (const kind of ['journal', 'threads']) {
+    for (const d of body.deleted?.[kind] ?? []) {
+      const mine = s[kind].get(d.id)?.value;
+      if (mine && d.ts < (kind === 'journal' ? version(mine) : mine.updatedAt)) continue;
+      s[kind].delete(d.id);
+      s.deleted[kind].set(d.id, { seq: ++s.seq, value: d });
+    }
+  }
+  if (body.activity) s.activity = { seq: ++s.seq, value: s.activity ? mergeActivity(s.activity.value, body.activity) : body.activity };
+  if (body.reading && (body.reading.updatedAt ?? 0) > (s.reading?.value.updatedAt ?? -1)) s.reading = { seq: ++s.seq, value: body.reading };
+  const changed = (m) => [...m.values()].filter((r) => r.seq > since).map((r) => r.value);
+  return {
+    cursor: String(s.seq),
+    journal: changed(s.journal),
+    threads: changed(s.threads),
+    ...(s.activity && s.activity.seq > since ? { activity: s.activity.value } : {}),
+    ...(s.reading && s.reading.seq > since ? { reading: s.reading.value } : {}),
+    deleted: { journal: changed(s.deleted.journal), threads: changed(s.deleted.threads) },
+  };
+}
+
+// --- Routing
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (req.method === 'OPTIONS') { res.writeHead(204, cors); return res.end(); }
+  if (LATENCY) await sleep(LATENCY);
+  console.log(req.method, url.pathname + url.search);
+
+  // A token the mock didn't issue is rejected, like an expired one
+  if (req.headers.authorization && !userFor(req)) return json(res, 401, { error: 'Invalid token' });
+
+  if (req.method === 'GET' && url.pathname === '/books') return json(res, 200, listBooks(url));
+
+  const bookMatch = /^\/books\/([^/]+)$/.exec(url.pathname);
+  if (req.method === 'GET' && bookMatch) {
+    const b = books.find((x) => x.id === decodeURIComponent(bookMatch[1]));
+    return b ? json(res, 200, detail(b)) : json(res, 404, { error: 'Book not found' });
+  }
+
+  if (req.method !== 'POST') return json(res, 404, { error: 'Not found' });
+  const body = await readBody(req);
+
+  switch (url.pathname) {
+    case '/ask': {
+      const b = books.find((x) => x.id === body.bookId);
+      if (!b || typeof body.question !== 'string') return json(res, 400, { error: 'bookId and question are required' });
+      return streamAnswer(req, res, body.question, b, typeof body.language === 'string' ? body.language : undefined);
+    }
+    case '/compare':
+      return streamCompare(req, res, body);
+    case '/quiz': {
+      const b = books.find((x) => x.id === body.bookId);
+      return b ? json(res, 200, quiz(b, Number(body.count) || 5)) : json(res, 404, { error: 'Book not found' });
+    }
+    case '/auth/login': {
+      const email = String(body.email ?? '').trim();
+      if (!email || !body.password || body.password === 'wrong') return json(res, 401, { error: 'Wrong email or password' });
+      return json(res, 200, { token: tokenFor(email), user: userFor({ headers: { authorization: `Bearer ${tokenFor(email)}` } }) });
+    }
+    case '/sync': {
+      const user = userFor(req);
+      if (!user) return json(res, 401, { error: 'Sign in to sync' });
+      return json(res, 200, applySync(storeFor(user.id), body));
+    }
+    default:
+      return json(res, 404, { error: 'Not found' });
+  }
+});
+
+// Listen only when run as `npm run mock`, not when tests import the sync logic
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  server.listen(PORT, () => console.log(`Mock backend on http://localhost:${PORT} (books: ${BOOKS_MODE})`));
+}
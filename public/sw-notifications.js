@@ -0,0 +1,14 @@
+// Imported into the generated service worker (see `workbox.importScripts` in vite.config.ts).
+// Clicking a plan reminder focuses an open tab on the plan, or opens one.
+self.addEventListener('notificationclick', (event) => {
+  const url = event.notification.data && event.notification.data.url;
+  event.notification.close();
+  if (!url) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) return client.focus().then((c) => c && 'navigate' in c ? c.navigate(url) : undefined);
+      return self.clients.openWindow(url);
+    })
+  );
+});
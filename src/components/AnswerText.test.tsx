@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { AnswerText } from './AnswerText';
+
+const plan = [
+  'Here is the **plan** [1].',
+  '',
+  '- [ ] Block two hours each morning',
+  '- [x] Turn off notifications',
+  '- [ ] Read [chapter 2](https://example.com)',
+  '',
+  'Stick with it for a week.',
+].join('\n');
+
+const citations = [{ n: 1, quote: 'Deep work is valuable.' }];
+
+describe('AnswerText', () => {
+  it('links citation markers to their footnotes', () => {
+    const { container } = render(<AnswerText text={plan} scope="a1" citations={citations}/>);
+    expect(container.querySelector('a[href="#cite-a1-1"]')?.textContent).toBe('1');
+    expect(container.querySelectorAll('li.task-list-item')).toHaveLength(3);
+  });
+
+  it('renders share cards without links or markers, keeping whole list items that fit', () => {
+    const { container } = render(<AnswerText text={plan} scope="share" citations={citations} interactive={false} maxLength={75}/>);
+    expect(container.querySelector('a')).toBeNull();
+    expect(container.querySelector('strong')?.textContent).toBe('plan');
+    expect(container.textContent).not.toContain('[1]');
+    expect(Array.from(container.querySelectorAll('li'), (li) => li.textContent?.trim())).toEqual([
+      'Block two hours each morning',
+      'Turn off notifications',
+    ]);
+    expect(container.querySelectorAll('input[type="checkbox"]')).toHaveLength(2);
+    expect(container.textContent).not.toContain('Stick with it');
+  });
+
+  it('keeps the first sentences when the first block alone is too long', () => {
+    const text = 'Deep work is rare. It is also valuable. Few people practise it every day.\n\n- one\n- two';
+    const { container } = render(<AnswerText text={text} scope="share" interactive={false} maxLength={45}/>);
+    expect(container.textContent?.trim()).toBe('Deep work is rare. It is also valuable.');
+  });
+});
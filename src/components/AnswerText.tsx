@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import type { Citation } from '../types';
+import { citationLabel, linkCitationMarkers } from '../lib/citations';
+import { closePartialMarkdown, remarkMaxLength } from '../lib/markdown';
+import { scrollBehavior } from '../lib/a11y';
+
+// --- Answer renderer: sanitized GFM markdown with inline [n] markers linked to the footnotes below it
+// Shared by the chat, the journal drawer and the share card so answers look the same everywhere.
+// Share cards render it without links (`interactive={false}`) and cut to `maxLength` characters of text.
+const citeId = (scope: string, n: number) => `cite-${scope}-${n}`;
+const openCitation = (id: string) => {
+  const el = document.getElementById(id) as HTMLDetailsElement | null;
+  if (!el) return;
+  el.open = true;
+  el.scrollIntoView({ behavior: scrollBehavior(), block: 'nearest' });
+};
+export const AnswerText = ({ text, scope, citations = [], className = "", interactive = true, maxLength }: {
+  text: string; scope: string; citations?: Citation[]; className?: string; interactive?: boolean; maxLength?: number;
+}) => {
+  const source = useMemo(
+    () => interactive
+      ? linkCitationMarkers(closePartialMarkdown(text), citations, (n) => `#${citeId(scope, n)}`)
+      : closePartialMarkdown(text).replace(/ ?\[\d+\]/g, ''),
+    [text, citations, scope, interactive]
+  );
+  const remarkPlugins = useMemo(() => (maxLength ? [remarkGfm, remarkMaxLength(maxLength)] : [remarkGfm]), [maxLength]);
+  // dir="auto": an answer in another language than the interface keeps its own text direction
+  return (
+    <div dir="auto" className={`markdown ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={[rehypeSanitize]}
+        components={{
+          a: ({ href = '', children }) => !interactive ? <span className="underline">{children}</span> : href.startsWith('#cite-') ? (
+            <a href={href} onClick={(e) => { e.preventDefault(); openCitation(href.slice(1)); }}
+              className="align-super text-[10px] px-1 rounded bg-sky-500/20 text-sky-200 hover:bg-sky-500/30 no-underline">{children}</a>
+          ) : (
+            <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+          ),
+        }}
+      >{source}</ReactMarkdown>
+    </div>
+  );
+};
+export const CitationList = ({ scope, citations }: { scope: string; citations?: Citation[] }) => (
+  citations?.length ? (
+    <div className="mt-2 flex flex-col gap-1">
+      {citations.map((c) => (
+        <details key={c.n} id={citeId(scope, c.n)} className="group rounded-xl border border-white/10 bg-white/5 text-xs">
+          <summary className="cursor-pointer list-none px-3 py-1 flex items-center gap-2">
+            <span className="rounded bg-sky-500/20 text-sky-200 px-1">{c.n}</span>
+            <span className="opacity-80 truncate">{citationLabel(c)}</span>
+          </summary>
+          <blockquote className="px-3 pb-2 pt-1 italic opacity-90 whitespace-pre-wrap border-t border-white/10">“{c.quote}”</blockquote>
+        </details>
+      ))}
+    </div>
+  ) : null
+);
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { axe } from 'vitest-axe';
+import { Dialog } from './Dialog';
+import { ShortcutsDialog } from './ShortcutsDialog';
+
+describe('Dialog', () => {
+  it('is a labelled modal with no axe violations', async () => {
+    const { container } = render(
+      <Dialog open onClose={vi.fn()} label="Settings">
+        <h2>Settings</h2>
+        <button>Close</button>
+      </Dialog>,
+    );
+    expect(screen.getByRole('dialog', { name: 'Settings' }).getAttribute('aria-modal')).toBe('true');
+    expect(await axe(container)).toHaveNoViolations();
+  });
+
+  it('renders the shortcuts reference without axe violations', async () => {
+    const { container } = render(<ShortcutsDialog open onClose={vi.fn()}/>);
+    expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeTruthy();
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
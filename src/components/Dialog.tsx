@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react';
+import { useFocusTrap } from '../lib/useFocusTrap';
+
+// --- Centered modal: backdrop, dialog semantics and a focus trap (Escape or a backdrop click closes)
+export const Dialog = ({ open, onClose, label, className = '', children }: {
+  open: boolean;
+  onClose: () => void;
+  /** Accessible name announced when the dialog opens */
+  label: string;
+  className?: string;
+  children: ReactNode;
+}) => {
+  const trap = useFocusTrap<HTMLDivElement>(open, onClose);
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center p-4">
+      <div onClick={onClose} className="absolute inset-0 bg-black/60 backdrop-blur-sm"/>
+      <div {...trap} role="dialog" aria-modal="true" aria-label={label}
+        className={`relative w-full max-h-[90vh] overflow-y-auto rounded-3xl border border-white/10 bg-slate-950/95 p-5 outline-none ${className}`}>
+        {children}
+      </div>
+    </div>
+  );
+};
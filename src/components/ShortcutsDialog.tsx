@@ -0,0 +1,35 @@
+import { Keyboard, X } from 'lucide-react';
+import { Dialog } from './Dialog';
+import { useI18n, type MessageKey } from '../lib/i18n';
+
+// --- Keyboard shortcuts reference (opened with ?); the keys themselves are bound in App
+const SHORTCUTS: [keys: string[], action: MessageKey][] = [
+  [['/'], 'shortcuts.focus'],
+  [['⌘/Ctrl', 'Enter'], 'shortcuts.send'],
+  [['Esc'], 'shortcuts.stop'],
+  [['j'], 'shortcuts.journal'],
+  [['?'], 'shortcuts.help'],
+  [['Tab'], 'shortcuts.tab'],
+];
+
+export const ShortcutsDialog = ({ open, onClose }: { open: boolean; onClose: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <Dialog open={open} onClose={onClose} label={t('shortcuts.title')} className="max-w-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold flex items-center gap-2"><Keyboard className="h-4 w-4"/> {t('shortcuts.title')}</h2>
+        <button aria-label={t('common.close')} onClick={onClose} className="opacity-70 hover:opacity-100"><X className="h-4 w-4"/></button>
+      </div>
+      <dl className="space-y-2 text-sm">
+        {SHORTCUTS.map(([keys, action]) => (
+          <div key={action} className="flex items-center justify-between gap-4">
+            <dt className="flex gap-1 shrink-0">
+              {keys.map((k) => <kbd key={k} className="rounded-lg border border-white/15 bg-white/10 px-2 py-0.5 text-xs font-mono">{k}</kbd>)}
+            </dt>
+            <dd className="opacity-80 text-end">{t(action)}</dd>
+          </div>
+        ))}
+      </dl>
+    </Dialog>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { forwardRef } from 'react';
+
+// --- Minimal shadcn-inspired primitives
+// Thin wrappers over the native elements: every prop the element takes is passed through, and
+// `className` is appended to the base styles.
+
+type DivProps = React.HTMLAttributes<HTMLDivElement>;
+
+export const Card = ({ className = '', children, ...props }: DivProps) => (
+  <div className={`rounded-2xl shadow-sm border border-white/10 bg-white/5 backdrop-blur ${className}`} {...props}>{children}</div>
+);
+
+export const CardHeader = ({ className = '', children, ...props }: DivProps) => (
+  <div className={`p-4 border-b border-white/10 ${className}`} {...props}>{children}</div>
+);
+
+export const CardContent = ({ className = '', children, ...props }: DivProps) => (
+  <div className={`p-4 ${className}`} {...props}>{children}</div>
+);
+
+export const Button = forwardRef<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement>>(
+  ({ className = '', children, type = 'button', ...props }, ref) => (
+    <button
+      ref={ref}
+      type={type}
+      className={`inline-flex items-center gap-2 rounded-2xl px-4 py-2 font-medium border border-white/10 bg-white/10 hover:bg-white/20 active:bg-white/25 transition ${className}`}
+      {...props}
+    >
+      {children}
+    </button>
+  )
+);
+Button.displayName = 'Button';
+
+export const Input = forwardRef<HTMLInputElement, React.InputHTMLAttributes<HTMLInputElement>>(
+  ({ className = '', ...props }, ref) => (
+    <input
+      ref={ref}
+      className={`w-full rounded-2xl px-4 py-3 bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30 ${className}`}
+      {...props}
+    />
+  )
+);
+Input.displayName = 'Input';
+
+export const Textarea = forwardRef<HTMLTextAreaElement, React.TextareaHTMLAttributes<HTMLTextAreaElement>>(
+  ({ className = '', ...props }, ref) => (
+    <textarea
+      ref={ref}
+      className={`w-full min-h-[110px] rounded-2xl px-4 py-3 bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30 ${className}`}
+      {...props}
+    />
+  )
+);
+Textarea.displayName = 'Textarea';
+
+export const Badge = ({ className = '', children, ...props }: React.HTMLAttributes<HTMLSpanElement>) => (
+  <span className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs border border-white/10 bg-white/10 ${className}`} {...props}>{children}</span>
+);
@@ -0,0 +1,29 @@
+import { afterEach, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { language } from '../lib/i18n';
+import { MicButton } from './voice';
+
+afterEach(() => {
+  act(() => language.set({ locale: 'en', answerLanguage: 'auto' }));
+  vi.unstubAllGlobals();
+});
+
+it('dictates in the interface language, with the browser region when it matches', () => {
+  const started: string[] = [];
+  vi.stubGlobal('SpeechRecognition', class {
+    lang = '';
+    onend: (() => void) | null = null;
+    start() { started.push(this.lang); }
+    stop() { this.onend?.(); }
+    abort() {}
+  });
+  render(<MicButton value="" onChange={vi.fn()}/>);
+  const mic = () => screen.getByRole('button');
+
+  // jsdom's navigator.language is en-US
+  fireEvent.click(mic());
+  fireEvent.click(mic());
+  act(() => language.set({ locale: 'de', answerLanguage: 'en' }));
+  fireEvent.click(mic());
+  expect(started).toEqual(['en-US', 'de']);
+});
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Mic, MicOff, SlidersHorizontal, Square, Volume2 } from 'lucide-react';
+import type { ChatMsg } from '../types';
+import { speaker, speechSettings, ttsSupported, useDictation, useSpeaking, useSpeechSettings, useVoices } from '../lib/speech';
+import { useI18n } from '../lib/i18n';
+
+// --- Voice: dictation into a composer, and read-aloud on book answers (hidden when unsupported)
+export const MicButton = ({ value, onChange, className = "" }: { value: string; onChange: (text: string) => void; className?: string }) => {
+  const { t, locale } = useI18n();
+  // Readers dictate in the language they chose for the interface, not the browser's
+  const dictation = useDictation(value, onChange, locale);
+  if (!dictation.supported) return null;
+  return (
+    <button type="button" onClick={dictation.toggle} aria-pressed={dictation.listening}
+      aria-label={dictation.listening ? t('voice.mic.stop') : t('voice.mic')}
+      title={dictation.error ?? (dictation.listening ? t('voice.mic.listening') : t('voice.mic'))}
+      className={`inline-flex items-center justify-center rounded-2xl px-3 py-2 border transition ${dictation.listening ? 'bg-rose-500/20 border-rose-400/30 animate-pulse' : dictation.error ? 'bg-white/10 border-rose-400/30' : 'bg-white/10 border-white/10 hover:bg-white/20'} ${className}`}>
+      {dictation.listening ? <MicOff className="h-4 w-4"/> : <Mic className="h-4 w-4"/>}
+    </button>
+  );
+};
+
+const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export const ListenControl = ({ msg }: { msg: ChatMsg }) => {
+  const { t, formatNumber } = useI18n();
+  const playing = useSpeaking() === msg.id;
+  const { rate, voiceURI } = useSpeechSettings();
+  const voices = useVoices();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  if (!ttsSupported()) return null;
+  const field = "rounded-xl px-2 py-1 text-[11px] bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
+      <button onClick={()=> playing ? speaker.stop() : speaker.start(msg.id, msg.content, msg.status !== 'streaming')} aria-pressed={playing}
+        className={`inline-flex items-center gap-1 rounded-full px-3 py-1 border transition ${playing ? 'bg-sky-500/20 border-sky-400/30' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+        {playing ? <><Square className="h-3 w-3"/> {t('voice.stop')}</> : <><Volume2 className="h-3 w-3"/> {t('voice.listen')}</>}
+      </button>
+      <button onClick={()=>setSettingsOpen((o)=>!o)} aria-expanded={settingsOpen} aria-label={t('voice.settings')} className="rounded-full p-1 opacity-70 hover:opacity-100">
+        <SlidersHorizontal className="h-3 w-3"/>
+      </button>
+      {settingsOpen && (
+        <>
+          <select aria-label={t('voice.rate')} className={field} value={rate} onChange={(e)=>speechSettings.set({ rate: Number(e.target.value) })}>
+            {SPEECH_RATES.map((r) => <option key={r} value={r}>{formatNumber(r)}×</option>)}
+          </select>
+          <select aria-label={t('voice.voice')} className={`${field} max-w-[180px]`} value={voiceURI ?? ''} onChange={(e)=>speechSettings.set({ voiceURI: e.target.value || undefined })}>
+            <option value="">{t('voice.default')}</option>
+            {voices.map((v) => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+          </select>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { LogOut, RefreshCw, UserRound } from 'lucide-react';
+import posthog from 'posthog-js';
+import { Button, Card, CardContent } from '../../components/ui';
+import { api, ApiError } from '../../lib/api';
+import { auth, useAuth } from '../../lib/auth';
+import { useSyncStatus } from '../../lib/sync';
+import { useI18n } from '../../lib/i18n';
+
+// --- Account: sign in, sync status, sign out
+export const AccountPage = ({ onSync }: { onSync: () => void }) => {
+  const { t, formatDateTime } = useI18n();
+  const session = useAuth();
+  const status = useSyncStatus();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fieldClass = "w-full rounded-xl px-3 py-2 text-sm bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    setBusy(true); setError(null);
+    try {
+      auth.signIn(await api.login(email, password));
+      setPassword('');
+      posthog.capture('sign_in');
+      onSync();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t('account.signIn.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signOut = () => {
+    auth.signOut();
+    posthog.capture('sign_out');
+  };
+
+  const lastSynced = status.lastSyncedAt && formatDateTime(status.lastSyncedAt);
+
+  return (
+    <section className="mx-auto max-w-md px-4 py-10 space-y-4">
+      <h1 className="text-2xl font-semibold">{t('account.title')}</h1>
+      {session ? (
+        <Card>
+          <CardContent className="pt-4 space-y-4 text-sm">
+            <div>
+              <div className="opacity-70 text-xs">{t('account.signedInAs')}</div>
+              <div className="font-medium">{session.user.name ? `${session.user.name} · ` : ''}{session.user.email}</div>
+            </div>
+            <div className="rounded-2xl border border-white/10 bg-white/5 p-3 space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <RefreshCw className={`h-4 w-4 ${status.state === 'syncing' ? 'animate-spin' : ''}`}/>
+                {status.state === 'syncing' ? t('account.syncing') : status.state === 'error' ? t('sync.failed') : lastSynced ? t('account.synced', { date: lastSynced }) : t('account.notSynced')}
+              </div>
+              {status.state === 'error' && <div className="text-rose-300/90 text-xs">{status.error}</div>}
+              <div className="text-xs opacity-70">{t('account.sync.hint')}</div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={()=>{ onSync(); posthog.capture('sync_now'); }} disabled={status.state === 'syncing'}><RefreshCw className="h-4 w-4"/> {t('account.syncNow')}</Button>
+              <Button onClick={signOut}><LogOut className="h-4 w-4 rtl:-scale-x-100"/> {t('account.signOut')}</Button>
+            </div>
+            <div className="text-xs opacity-60">{t('account.signOut.hint')}</div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-4">
+            <form onSubmit={signIn} className="space-y-3 text-sm">
+              <p className="opacity-80">{t('account.signIn.hint')}</p>
+              <label className="block space-y-1">
+                <span className="text-xs opacity-70">{t('account.email')}</span>
+                <input type="email" autoComplete="email" required className={fieldClass} value={email} onChange={(e)=>setEmail(e.target.value)}/>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs opacity-70">{t('account.password')}</span>
+                <input type="password" autoComplete="current-password" required className={fieldClass} value={password} onChange={(e)=>setPassword(e.target.value)}/>
+              </label>
+              {error && <div role="alert" className="text-rose-300/90 text-xs">{error}</div>}
+              <Button type="submit" className="bg-white/20" disabled={busy}><UserRound className="h-4 w-4"/> {busy ? t('account.signingIn') : t('nav.signIn')}</Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </section>
+  );
+};
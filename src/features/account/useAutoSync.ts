@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useAuth } from '../../lib/auth';
+import { sync, type ThreadStore } from '../../lib/sync';
+import { isOnline } from '../../lib/useOnline';
+
+/**
+ * While signed in, sync a few seconds after local changes settle (`changes` lists what to
+ * watch), and pick up other devices' changes when the tab comes back into view or every few
+ * minutes. Returns "sync now" for the account page.
+ */
+export function useAutoSync({ store, ready, online, changes }: { store: ThreadStore; ready: boolean; online: boolean; changes: unknown[] }) {
+  const session = useAuth();
+  const syncNow = () => { sync.run(store); };
+
+  useEffect(() => {
+    if (!session || !online || !ready) return;
+    const timer = setTimeout(syncNow, 3000);
+    return () => clearTimeout(timer);
+  }, [session?.token, online, ready, ...changes]);
+
+  useEffect(() => {
+    if (!session) return;
+    const onVisible = () => { if (document.visibilityState === 'visible' && isOnline()) syncNow(); };
+    const interval = setInterval(() => isOnline() && syncNow(), 5 * 60000);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => { clearInterval(interval); document.removeEventListener('visibilitychange', onVisible); };
+  }, [session?.token]);
+
+  return syncNow;
+}
@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader } from '../../components/ui';
+import { activity, useActivity, summarize, heatmap, parseDayKey, MAX_FREEZES, type ActivitySummary } from '../../lib/activity';
+import { t, tn, useI18n } from '../../lib/i18n';
+
+// --- Today's goal progress, shared by the streak banner and /activity
+export const goalProgress = ({ today, goal, goalMet }: ActivitySummary) =>
+  goalMet ? t('activity.goal.done') : tn('activity.goal.today', goal.reviews, { questions: today.questions, goalQuestions: goal.questions, reviews: today.reviews });
+
+const heatClass = (c: { count: number; met: boolean; frozen: boolean; future: boolean }) =>
+  c.future ? 'bg-transparent' :
+  c.frozen ? 'bg-sky-400/40' :
+  c.met ? (c.count >= 6 ? 'bg-orange-400' : 'bg-orange-400/70') :
+  c.count ? 'bg-orange-400/30' : 'bg-white/5';
+
+// --- /activity: streaks, daily goal and a calendar heatmap (local days)
+export const ActivityPage = () => {
+  const { t, tn, formatDate } = useI18n();
+  const state = useActivity();
+  const summary = useMemo(() => summarize(state), [state]);
+  const weeks = useMemo(() => heatmap(state), [state]);
+  const selectClass = "rounded-xl px-2 py-1 text-sm bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+  const dayLabel = (key: string) => formatDate(parseDayKey(key), { weekday: 'short', month: 'short', day: 'numeric' });
+
+  return (
+    <section className="mx-auto max-w-3xl px-4 py-10 space-y-4">
+      <h1 className="text-2xl font-semibold">{t('activity.title')}</h1>
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: t('activity.current'), value: t('activity.stat', { icon: '🔥', n: summary.current }) },
+          { label: t('activity.longest'), value: t('activity.stat', { icon: '🏆', n: summary.longest }) },
+          { label: t('activity.freezes', { max: MAX_FREEZES }), value: t('activity.stat', { icon: '🧊', n: summary.freezes }) },
+        ].map((s) => (
+          <Card key={s.label}>
+            <CardContent className="pt-4">
+              <div className="text-2xl font-semibold">{s.value}</div>
+              <div className="text-xs opacity-70">{s.label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <Card>
+        <CardHeader className="font-semibold">{t('activity.goal')}</CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <select aria-label={t('activity.goal.questions.label')} className={selectClass} value={summary.goal.questions} onChange={(e)=>activity.setGoal({ questions: Number(e.target.value) })}>
+              {[1, 3, 5, 10].map((n) => <option key={n} value={n}>{tn('activity.goal.questions', n)}</option>)}
+            </select>
+            <span className="opacity-70">{t('activity.goal.or')}</span>
+            <select aria-label={t('activity.goal.reviews.label')} className={selectClass} value={summary.goal.reviews} onChange={(e)=>activity.setGoal({ reviews: Number(e.target.value) })}>
+              {[1, 2, 3].map((n) => <option key={n} value={n}>{tn('activity.goal.reviews', n)}</option>)}
+            </select>
+            <span className="opacity-70">{t('activity.goal.perDay')}</span>
+          </div>
+          <div className={summary.goalMet ? 'text-emerald-300' : 'opacity-80'}>{goalProgress(summary)}</div>
+          <div className="text-xs opacity-60">{t('activity.freeze.hint')}</div>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader className="font-semibold">{tn('activity.weeks', weeks.length)}</CardHeader>
+        <CardContent>
+          <div className="flex gap-1 overflow-x-auto">
+            {weeks.map((col) => (
+              <div key={col[0].key} className="flex flex-col gap-1">
+                {col.map((c) => (
+                  <div key={c.key} className={`h-3.5 w-3.5 rounded-sm ${heatClass(c)}`}
+                    title={c.future ? undefined : `${dayLabel(c.key)}: ${c.frozen ? t('activity.day.frozen') : tn(c.met ? 'activity.day.met' : 'activity.day', c.count)}`}/>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-3 text-xs opacity-70">
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-orange-400/30"/> {t('activity.legend.active')}</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-orange-400/70"/> {t('activity.legend.met')}</span>
+            <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-sky-400/40"/> {t('activity.legend.freeze')}</span>
+          </div>
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
@@ -0,0 +1,10 @@
+import posthog from 'posthog-js';
+import { activity, type ActivityKind } from '../../lib/activity';
+
+/** Count a question or finished review toward today's goal (and the streak) */
+export const logActivity = (kind: ActivityKind) => {
+  const { before, after } = activity.record(kind);
+  if (after.goalMet && !before.goalMet) posthog.capture('daily_goal_met', { kind, streak: after.current });
+  if (after.current > before.current) posthog.capture('streak_incremented', { count: after.current });
+  if (after.freezes > before.freezes) posthog.capture('streak_freeze_earned', { freezes: after.freezes });
+};
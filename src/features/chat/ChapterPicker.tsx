@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ListTree } from 'lucide-react';
+import type { Chapter } from '../../types';
+import { chapterLabel } from '../../lib/library';
+import { useI18n } from '../../lib/i18n';
+
+// --- Chapter scope picker: empty selection means the whole book
+export const ChapterPicker = ({ chapters, value, onChange, loading }: { chapters: Chapter[]; value: string[]; onChange: (ids: string[]) => void; loading?: boolean }) => {
+  const { t, tn } = useI18n();
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement | null>(null);
+  const buttonRef = useRef<HTMLButtonElement | null>(null);
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => { if (!ref.current?.contains(e.target as Node)) setOpen(false); };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const picked = chapters.filter((c) => value.includes(c.id));
+  const label = !picked.length ? t('chapters.whole') : picked.length === 1 ? chapterLabel(picked[0], chapters.indexOf(picked[0])) : tn('chapters.count', picked.length);
+  const toggle = (id: string) => onChange(value.includes(id) ? value.filter((x) => x !== id) : [...value, id]);
+
+  return (
+    <div ref={ref} className="relative" onKeyDown={(e)=>{ if (e.key === 'Escape' && open) { e.stopPropagation(); setOpen(false); buttonRef.current?.focus(); } }}>
+      <button ref={buttonRef} onClick={()=>setOpen((o)=>!o)} disabled={!chapters.length} aria-haspopup="listbox" aria-expanded={open}
+        aria-label={t('chapters.scope', { label: chapters.length ? label : t('chapters.unavailable') })}
+        className={`text-xs rounded-full px-3 py-1 border transition inline-flex items-center gap-1 max-w-[260px] ${picked.length ? 'bg-sky-500/20 border-sky-400/30' : 'bg-white/5 border-white/10 hover:bg-white/10'} disabled:opacity-50`}>
+        <ListTree className="h-3 w-3 shrink-0"/>
+        <span className="truncate">{chapters.length ? label : loading ? t('chapters.loading') : t('chapters.none')}</span>
+        <ChevronDown className="h-3 w-3 shrink-0"/>
+      </button>
+      {open && (
+        <div role="listbox" aria-multiselectable="true" aria-label={t('chapters.title')} className="absolute z-20 mt-2 w-72 max-h-72 overflow-y-auto rounded-2xl border border-white/10 bg-slate-900/95 backdrop-blur p-2 shadow-lg">
+          <button onClick={()=>{ onChange([]); setOpen(false); }} className={`w-full text-start text-sm rounded-xl px-2 py-1 hover:bg-white/10 ${picked.length ? '' : 'bg-white/10'}`}>{t('chapters.whole')}</button>
+          {chapters.map((c, i) => (
+            <label key={c.id} className="flex items-center gap-2 text-sm rounded-xl px-2 py-1 hover:bg-white/10 cursor-pointer">
+              <input type="checkbox" checked={value.includes(c.id)} onChange={()=>toggle(c.id)} className="accent-sky-400"/>
+              <span className="truncate">{chapterLabel(c, i)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AnimatePresence } from 'framer-motion';
+import { BookOpen, Clock, CloudOff, Columns3, GraduationCap, History, ListTree, NotebookPen, Sparkles } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book, Citation, Thread } from '../../types';
+import { Button, Card, CardContent } from '../../components/ui';
+import { journal } from '../../lib/journal';
+import { useActivity, summarize } from '../../lib/activity';
+import { useQuizResults, weakTopics, weakTopicQuestion } from '../../lib/quiz';
+import type { DailyPrompt } from '../../lib/prompts';
+import { useOnline } from '../../lib/useOnline';
+import { useI18n } from '../../lib/i18n';
+import { goalProgress } from '../activity/ActivityPage';
+import { FeaturedBooks } from '../library/FeaturedBooks';
+import type { ShareDraft } from '../share/ShareComposer';
+import type { ReadingDraft } from '../reading/ReadingView';
+import { ChapterPicker } from './ChapterPicker';
+import { ComparisonCard } from './ComparisonCard';
+import { Composer } from './Composer';
+import { ThreadSidebar } from './ThreadSidebar';
+import { Transcript } from './Transcript';
+import type { Chat } from './useChat';
+
+// --- Daily prompt card icon per source
+const PROMPT_ICONS: Record<DailyPrompt['kind'], typeof Clock> = {
+  starter: Sparkles,
+  thread: History,
+  tag: NotebookPen,
+  chapter: ListTree,
+  generic: Clock,
+};
+
+const saveToJournal = (bookId: string, q: string, a: string, citations?: Citation[]) => {
+  journal.add({ bookId, q, a, citations });
+  posthog.capture('save_journal', { bookId });
+};
+
+// --- Home and /chat/:threadId: banners, prompts, the chat card, threads and the transcript
+export const ChatView = ({ chat, threads, books, shownBooks, booksError, onRetryBooks, prompts, onShare, onRead }: {
+  chat: Chat;
+  threads: Thread[];
+  books: Book[];
+  /** The catalog narrowed by the top search bar */
+  shownBooks: Book[];
+  booksError: string | null;
+  onRetryBooks: () => void;
+  prompts: DailyPrompt[];
+  onShare: (draft: ShareDraft) => void;
+  onRead: (draft: ReadingDraft) => void;
+}) => {
+  const { activeBook, activeThread, messages, compare, streaming } = chat;
+  const online = useOnline();
+  const { t, tn } = useI18n();
+  const activitySummary = summarize(useActivity());
+  const streak = activitySummary.current;
+  const quizList = useQuizResults();
+  const weakSpots = useMemo(() => weakTopics(quizList).map((t) => ({ ...t, book: books.find((b) => b.id === t.bookId) })).filter((t) => t.book), [quizList, books]);
+
+  // The composer docks to the bottom of the screen once the chat card scrolls out of view
+  const composerRef = useRef<HTMLTextAreaElement | null>(null);
+  const [docked, setDocked] = useState(false);
+  useEffect(() => {
+    const el = composerRef.current;
+    if (!el || typeof IntersectionObserver === 'undefined') return;
+    const io = new IntersectionObserver(([entry]) => setDocked(!entry.isIntersecting));
+    io.observe(el);
+    return () => io.disconnect();
+  }, []);
+
+  const askPrompt = (p: DailyPrompt) => {
+    const book = books.find((b) => b.id === p.bookId) ?? chat.bookDetails[p.bookId];
+    posthog.capture('daily_prompt_clicked', { kind: p.kind, bookId: p.bookId });
+    chat.send(p.text, book, p.chapterIds);
+  };
+
+  const composer = (className: string, placeholder: string, ref?: React.Ref<HTMLTextAreaElement>) => (
+    <Composer ref={ref} value={chat.query} onChange={chat.setQuery} onSend={()=>chat.send()} onStop={chat.stop}
+      streaming={streaming} placeholder={placeholder} className={className}/>
+  );
+
+  return (
+    <>
+      {/* Offline banner */}
+      {(!online || chat.queuedCount > 0) && (
+        <div className="mx-auto max-w-5xl px-4 mt-3">
+          <div className="rounded-2xl border border-amber-400/20 bg-amber-500/10 px-4 py-2 text-sm flex items-center gap-2">
+            <CloudOff className="h-4 w-4 shrink-0"/>
+            {online
+              ? <span>{tn('chat.offline.sending', chat.queuedCount)}</span>
+              : <span>{t('chat.offline.notice')}{chat.queuedCount ? ` ${tn('chat.offline.queued', chat.queuedCount)}` : ''}</span>}
+          </div>
+        </div>
+      )}
+
+      {/* Streak banner */}
+      {streak > 0 && (
+        <div className="mx-auto max-w-5xl px-4 mt-3">
+          <Link to="/activity" className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm hover:bg-white/10">
+            <span>🔥 {t('chat.streak', { day: streak })}</span>
+            <span className={activitySummary.goalMet ? 'text-emerald-300' : 'opacity-70'}>{goalProgress(activitySummary)}</span>
+          </Link>
+        </div>
+      )}
+
+      {/* HERO / Landing */}
+      <section className="mx-auto max-w-6xl px-4 py-10">
+        <div className="text-center max-w-3xl mx-auto">
+          <h1 className="text-3xl md:text-5xl font-semibold tracking-tight">{t('hero.title')}</h1>
+          <p className="mt-3 text-slate-300/90">{t('hero.subtitle')}</p>
+        </div>
+
+        {/* Resume the last session */}
+        {chat.resumeSession && (
+          <div className="mt-6 grid place-items-center">
+            <div className="w-full max-w-3xl">
+              <Card className="overflow-hidden">
+                <CardContent className="p-0">
+                  <div className="flex items-stretch">
+                    <div className="hidden sm:block w-32 shrink-0 bg-gradient-to-br from-sky-400/20 to-sky-600/10 border-e border-white/10 grid place-items-center">
+                      <BookOpen className="h-10 w-10 opacity-80"/>
+                    </div>
+                    <div className="p-4 flex-1">
+                      <div className="text-xs opacity-70 mb-1">{t('resume.label')}</div>
+                      <div className="text-base font-semibold">{chat.resumeSession.bookTitle ?? t('resume.book')}</div>
+                      <div className="text-sm mt-1 opacity-90 line-clamp-2">{chat.resumeSession.question}</div>
+                    </div>
+                    <div className="p-4">
+                      <Button onClick={chat.resume} className="bg-white/20">{t('resume.button')}</Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+
+        {/* Starter prompt cards */}
+        <div className="mt-6 grid gap-3 sm:grid-cols-3">
+          {prompts.map((p)=> {
+            const Icon = PROMPT_ICONS[p.kind];
+            return (
+              <button key={p.text} onClick={()=>askPrompt(p)} className="text-start group rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 transition p-4 flex items-start gap-3">
+                <div className="h-9 w-9 shrink-0 rounded-xl bg-white/10 grid place-items-center">
+                  <Icon className="h-5 w-5 opacity-80"/>
+                </div>
+                <div>
+                  <div className="font-medium">{p.text}</div>
+                  <div className="text-xs opacity-70">{p.reason}</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Weak topics from recent quizzes */}
+        {weakSpots.length > 0 && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-xs opacity-70 flex items-center gap-1"><GraduationCap className="h-3 w-3"/> {t('weak.label')}</span>
+            {weakSpots.map((w) => (
+              <button key={`${w.bookId}:${w.topic}`} onClick={()=>chat.send(weakTopicQuestion(w.topic), w.book)} aria-label={t('weak.aria', { topic: w.topic, book: w.book!.title })}
+                className="text-xs rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10" title={tn('weak.missed', w.misses, { book: w.book!.title })}>
+                {w.topic} <span className="opacity-60">· {w.book!.title}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Chat box */}
+        <Card className="mt-8">
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="text-xs opacity-70">{compare.on ? t('chat.comparing') : t('chat.chattingWith')}</span>
+              <div className="flex flex-wrap gap-2" role="group" aria-label={compare.on ? t('chat.books.compare') : t('chat.books.chat')}>
+                {shownBooks.map((b) => {
+                  const on = compare.on ? compare.ids.includes(b.id) : chat.selected?.id===b.id;
+                  return (
+                    <button
+                      key={b.id}
+                      onClick={() => compare.on ? compare.toggleBook(b) : chat.selectBook(b)}
+                      aria-pressed={on}
+                      aria-label={compare.on ? t('chat.book.compare', { title: b.title }) : t('chat.book.chat', { title: b.title })}
+                      className={`text-xs rounded-full px-3 py-1 border transition ${on?"bg-white/20 border-white/20":"bg-white/5 border-white/10 hover:bg-white/10"}`}
+                    >{b.title}</button>
+                  );
+                })}
+              </div>
+              <button onClick={compare.toggle} aria-pressed={compare.on}
+                className={`text-xs rounded-full px-3 py-1 border transition inline-flex items-center gap-1 ${compare.on ? 'bg-sky-500/20 border-sky-400/30' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+                <Columns3 className="h-3 w-3"/> {t('chat.compare')}
+              </button>
+              {activeBook && !compare.on && (
+                <Link to={`/quiz/${encodeURIComponent(activeBook.id)}${chat.activeScope.length ? `?chapters=${chat.activeScope.map(encodeURIComponent).join(',')}` : ''}`}
+                  className="text-xs rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10 transition inline-flex items-center gap-1">
+                  <GraduationCap className="h-3 w-3"/> {chat.activeScope.length ? t('chat.quiz.chapters') : t('chat.quiz')}
+                </Link>
+              )}
+              {activeBook && !compare.on && (
+                <div className="flex items-center gap-2 ms-auto">
+                  <span className="text-xs opacity-70">{t('chat.chapter')}</span>
+                  <ChapterPicker
+                    chapters={chat.activeChapters}
+                    value={chat.activeScope}
+                    onChange={(ids)=>chat.setScope(activeBook.id, ids)}
+                    loading={!activeBook.chapters && !chat.bookDetails[activeBook.id]}
+                  />
+                </div>
+              )}
+            </div>
+            {compare.on && compare.ids.length < 2 && (
+              <div className="mb-2 text-xs opacity-70">{t('chat.compare.pick')}</div>
+            )}
+            {composer('', compare.on ? t('composer.placeholder.compare') : chat.selected ? t('composer.placeholder.book', { title: chat.selected.title }) : t('composer.placeholder'), composerRef)}
+            {/* Daily rotating starter prompts */}
+            <div className="mt-3 flex flex-wrap gap-2">
+              {prompts.map((p) => (
+                <button key={p.text} onClick={()=>askPrompt(p)} title={p.reason} aria-label={t('chat.prompt.aria', { text: p.text })} className="text-xs rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10">
+                  {p.text}
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 flex items-center justify-between text-xs opacity-70">
+              <div>{t('chat.tip.send')} · <kbd>?</kbd> {t('chat.tip.shortcuts')}</div>
+              <div>{t('chat.tip.scope')} <span className="italic">“{t('chat.tip.scope.reply')}”</span></div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className={`mt-6 ${threads.length ? 'grid gap-4 items-start lg:grid-cols-[260px_minmax(0,1fr)]' : ''}`}>
+        {/* Thread history sidebar */}
+        {threads.length > 0 && (
+          <ThreadSidebar threads={threads} books={books} activeBook={activeBook} activeThreadId={activeThread?.id}
+            onOpen={chat.openThread} onNew={chat.startNewThread} onRemove={chat.removeThread}/>
+        )}
+
+        <div className="min-w-0">
+        {/* Compare mode answers */}
+        {compare.on && compare.comparisons.length > 0 && (
+          <div className="space-y-4">
+            {compare.comparisons.map((c) => (
+              <ComparisonCard key={c.id} comparison={c} books={books} streaming={streaming}
+                onSave={(bookId, msg)=>saveToJournal(bookId, c.question, msg.content, msg.citations)}
+                onSynthesize={()=>compare.synthesize(c)}/>
+            ))}
+          </div>
+        )}
+
+        {/* Empty state before any chat */}
+        {(compare.on ? compare.comparisons.length===0 : messages.length===0) && (
+          <div>
+            <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm flex items-center justify-between">
+              <div className="opacity-90">{streak > 0 ? t('chat.empty.streak', { day: streak }) : t('chat.empty')}</div>
+              <div className="hidden sm:block opacity-70 text-xs">{t('chat.empty.tip')}</div>
+            </div>
+          </div>
+        )}
+
+        {/* Live transcript */}
+        <AnimatePresence>
+          {!compare.on && messages.length > 0 && (
+            <Transcript messages={messages} book={activeBook} chapters={chat.activeChapters} streaming={streaming}
+              onRetry={chat.retry} onFollowUp={(f)=>chat.send(f)}
+              onSave={(q, m)=>{ if (activeBook) saveToJournal(activeBook.id, q, m.content, m.citations); }}
+              onShare={(question, m)=>{ if (activeBook) onShare({ book: { ...activeBook, ...chat.bookDetails[activeBook.id] }, question, text: m.content }); }}
+              onRead={(question, m)=>onRead({ bookTitle: activeBook?.title ?? t('book.fallback'), question, text: m.content, citations: m.citations, scope: `read-${m.id}`, msg: m })}/>
+          )}
+        </AnimatePresence>
+        </div>
+        </div>
+      </section>
+
+      <FeaturedBooks books={shownBooks} error={booksError} onRetry={onRetryBooks}/>
+
+      {/* Docked composer */}
+      {docked && (
+        <div className="fixed bottom-0 inset-x-0 z-40" role="region" aria-label={t('composer.label')}>
+          <div className="mx-auto max-w-5xl px-4 pb-4 pt-2">
+            <Card className="shadow-lg border-white/10 bg-slate-900/70 backdrop-blur">
+              <CardContent>
+                {composer('min-h-[72px]', chat.selected ? t('composer.placeholder.book.short', { title: chat.selected.title }) : t('composer.placeholder.short'))}
+                <div className="mt-2 text-xs opacity-70 flex justify-between">
+                  <div>{t('chat.tip.send')}</div>
+                  <div className="hidden sm:block">{t('chat.tip.live')}</div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
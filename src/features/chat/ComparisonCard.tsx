@@ -0,0 +1,65 @@
+import { AlertTriangle, BookOpen, Columns3, Wand2 } from 'lucide-react';
+import type { Book, ChatMsg, Comparison } from '../../types';
+import { Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { AnswerText, CitationList } from '../../components/AnswerText';
+import { answerAnnouncement } from '../../lib/a11y';
+import { useI18n } from '../../lib/i18n';
+
+// --- Compare mode: one column per book, plus the synthesized comparison once requested
+export const ComparisonCard = ({ comparison: c, books, streaming, onSave, onSynthesize }: {
+  comparison: Comparison;
+  books: Book[];
+  streaming: boolean;
+  onSave: (bookId: string, msg: ChatMsg) => void;
+  onSynthesize: () => void;
+}) => {
+  const { t, tn } = useI18n();
+  const titleOf = (id: string) => books.find((b) => b.id === id)?.title ?? t('book.fallback');
+  const pending = c.columns.some((col) => col.msg.status === 'streaming');
+  const answered = c.columns.filter((col) => col.msg.status === 'done' && col.msg.content.trim());
+  // One status line per comparison; each column's text is there to read once it has finished
+  const announcement = c.synthesis
+    ? answerAnnouncement(c.synthesis, t('compare.speaker'))
+    : pending ? tn('compare.asking', c.columns.length) : tn('compare.answered', c.columns.length, { answered: answered.length });
+  const bubble = (msg: ChatMsg) => (
+    <>
+      {msg.content ? <AnswerText text={msg.content} scope={msg.id} citations={msg.citations}/> : msg.status === 'streaming' ? <span className="opacity-60">{t('answer.thinking')}</span> : null}
+      <CitationList scope={msg.id} citations={msg.citations}/>
+      {msg.status === 'stopped' && <div className="mt-1 text-xs opacity-60">{t('answer.stopped')}</div>}
+      {msg.status === 'error' && <div className="mt-2 flex items-center gap-2 text-xs text-rose-300"><AlertTriangle className="h-3 w-3"/> {msg.error}</div>}
+    </>
+  );
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2"><Columns3 className="h-4 w-4"/> <span className="font-medium">{c.question}</span></div>
+      </CardHeader>
+      <CardContent>
+        <div role="status" className="sr-only">{announcement}</div>
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(auto-fit, minmax(240px, 1fr))` }}>
+          {c.columns.map(({ bookId, msg }) => (
+            <div key={bookId} aria-busy={msg.status === 'streaming' || undefined} className="reading rounded-2xl px-4 py-3 border bg-white/10 border-white/10 min-w-0">
+              <div className="opacity-70 text-xs mb-1 flex items-center gap-1"><BookOpen className="h-3 w-3"/> {titleOf(bookId)}</div>
+              {bubble(msg)}
+              {msg.status === 'done' && (
+                <div className="mt-2"><Button className="text-xs" onClick={()=>onSave(bookId, msg)}>⭐ {t('common.save')}</Button></div>
+              )}
+            </div>
+          ))}
+        </div>
+        {c.synthesis ? (
+          <div aria-busy={c.synthesis.status === 'streaming' || undefined} className="reading mt-3 rounded-2xl px-4 py-3 border bg-sky-500/10 border-sky-400/20">
+            <div className="opacity-70 text-xs mb-1 flex items-center gap-1"><Wand2 className="h-3 w-3"/> {t('compare.title')}</div>
+            {bubble(c.synthesis)}
+          </div>
+        ) : (
+          <div className="mt-3 flex justify-end">
+            <Button className="text-xs" onClick={onSynthesize} disabled={pending || streaming || answered.length < 2}>
+              <Wand2 className="h-3 w-3"/> {t('compare.synthesize')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,47 @@
+import { forwardRef } from 'react';
+import { Send, Square } from 'lucide-react';
+import { Button, Textarea } from '../../components/ui';
+import { MicButton } from '../../components/voice';
+import { useI18n } from '../../lib/i18n';
+
+// --- Chat composer: question box, dictation and Ask (Stop while an answer streams)
+// ⌘/Ctrl + Enter sends. Used in the chat card and, once that scrolls away, docked at the bottom.
+export const Composer = forwardRef<HTMLTextAreaElement, {
+  value: string;
+  onChange: (text: string) => void;
+  onSend: () => void;
+  onStop: () => void;
+  streaming: boolean;
+  placeholder: string;
+  className?: string;
+}>(({ value, onChange, onSend, onStop, streaming, placeholder, className = '' }, ref) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-start gap-2">
+      <Textarea
+        ref={ref}
+        data-composer
+        aria-label={t('composer.label')}
+        aria-keyshortcuts="/"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e)=>onChange(e.target.value)}
+        onKeyDown={(e)=>{ if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) onSend(); }}
+        className={`flex-1 ${className}`}
+      />
+      <MicButton value={value} onChange={onChange} className="self-end"/>
+      {streaming
+        ? <Button onClick={onStop} className="self-end" aria-keyshortcuts="Escape"><Square className="h-4 w-4"/> {t('composer.stop')}</Button>
+        : <Button onClick={onSend} className="self-end"><Send className="h-4 w-4"/> {t('composer.ask')}</Button>}
+    </div>
+  );
+});
+Composer.displayName = 'Composer';
+
+/** Focus the composer on screen (the docked one while it shows); false when no composer is rendered */
+export const focusComposer = () => {
+  const all = document.querySelectorAll<HTMLTextAreaElement>('textarea[data-composer]');
+  const el = all[all.length - 1];
+  el?.focus();
+  return !!el;
+};
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { History, Plus, Trash2 } from 'lucide-react';
+import type { Book, Thread } from '../../types';
+import { Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { useI18n } from '../../lib/i18n';
+import { UNTITLED } from '../../lib/threads';
+
+// --- Thread history: past chats grouped by book, the active book first
+export const ThreadSidebar = ({ threads, books, activeBook, activeThreadId, onOpen, onNew, onRemove }: {
+  threads: Thread[];
+  books: Book[];
+  activeBook: Book | null;
+  activeThreadId?: string;
+  onOpen: (t: Thread) => void;
+  onNew: () => void;
+  onRemove: (id: string) => void;
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const groups = useMemo(() => {
+    const byBook = new Map<string, Thread[]>();
+    for (const th of threads) byBook.set(th.bookId, [...(byBook.get(th.bookId) ?? []), th]);
+    return Array.from(byBook, ([bookId, items]) => ({
+      bookId,
+      title: books.find((b) => b.id === bookId)?.title ?? t('book.unknown'),
+      items,
+    })).sort((a, b) => (b.bookId === activeBook?.id ? 1 : 0) - (a.bookId === activeBook?.id ? 1 : 0));
+  }, [threads, books, activeBook?.id, t]);
+  const titleOf = (th: Thread) => (th.title === UNTITLED ? t('threads.untitled') : th.title);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2"><History className="h-4 w-4"/> {t('threads.title')}</div>
+          <Button className="text-xs px-3 py-1" onClick={onNew} disabled={!activeBook}><Plus className="h-3 w-3"/> {t('threads.new')}</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="max-h-[44vh] overflow-y-auto space-y-4">
+        {groups.map((g) => (
+          <div key={g.bookId}>
+            <h3 className="text-xs opacity-70 mb-1">{g.title}</h3>
+            <div className="space-y-1" role="list" aria-label={t('threads.group', { title: g.title })}>
+              {g.items.map((th) => (
+                <div key={th.id} role="listitem" className="group flex items-start gap-1">
+                  <button onClick={()=>onOpen(th)} aria-current={activeThreadId===th.id ? 'true' : undefined} className={`flex-1 min-w-0 text-start rounded-xl px-3 py-2 text-sm border transition ${activeThreadId===th.id ? 'bg-white/20 border-white/20' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+                    <div className="truncate">{titleOf(th)}</div>
+                    <div className="text-[11px] opacity-60">{formatDateTime(th.updatedAt)}</div>
+                  </button>
+                  <button aria-label={t('threads.delete', { title: titleOf(th) })} onClick={()=>onRemove(th.id)} className="p-2 rounded-xl opacity-0 group-hover:opacity-70 focus-visible:opacity-70 hover:bg-white/10 transition">
+                    <Trash2 className="h-3 w-3"/>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
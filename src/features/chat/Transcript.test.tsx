@@ -0,0 +1,29 @@
+import { expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { axe } from 'vitest-axe';
+import type { Book, ChatMsg } from '../../types';
+import { Transcript } from './Transcript';
+
+const book: Book = { id: 'deep-work', title: 'Deep Work', author: 'Cal Newport' };
+
+const messages: ChatMsg[] = [
+  { id: 'q1', role: 'user', content: 'What is deep work?', ts: 1, chapterIds: ['ch1'] },
+  { id: 'a1', role: 'book', content: '**Deep work** is focused work [1].\n\n- Block time\n- Quit social media', ts: 2, status: 'done',
+    citations: [{ n: 1, chapter: 'Chapter 1', quote: 'Deep work is valuable.' }] },
+  { id: 'q2', role: 'user', content: 'And shallow work?', ts: 3 },
+  { id: 'a2', role: 'book', content: '', ts: 4, status: 'error', error: 'The request was rejected (400).' },
+];
+
+it('renders questions, answers, citations and actions with no axe violations', async () => {
+  // jsdom has no layout, so there is nothing to scroll
+  Element.prototype.scrollIntoView = vi.fn();
+  const { container } = render(
+    <MemoryRouter>
+      <Transcript messages={messages} book={book} chapters={[{ id: 'ch1', title: 'Deep Work Is Valuable', number: 1 }]}
+        streaming={false} onRetry={vi.fn()} onFollowUp={vi.fn()} onSave={vi.fn()} onShare={vi.fn()} onRead={vi.fn()}/>
+    </MemoryRouter>,
+  );
+  expect(screen.getByRole('button', { name: 'Retry' })).toBeTruthy();
+  expect(await axe(container)).toHaveNoViolations();
+});
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, BookOpen, CloudOff, ListChecks, ListTree, Maximize2, MessageSquare, RotateCcw, Share2 } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book, Chapter, ChatMsg } from '../../types';
+import { Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { AnswerText, CitationList } from '../../components/AnswerText';
+import { ListenControl } from '../../components/voice';
+import { chapterLabel } from '../../lib/library';
+import { stripMarkdown } from '../../lib/markdown';
+import { answerAnnouncement, scrollBehavior } from '../../lib/a11y';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import { plans, usePlans, parsePlan, planFromMeta, type PlanDraft } from '../../lib/plans';
+
+const FOLLOW_UPS: MessageKey[] = ['followUp.examples', 'followUp.plan', 'followUp.summary'];
+
+const truncate = (s: string, n = 180) => (s.length > n ? s.slice(0, n - 1) + '…' : s);
+
+// --- Live transcript of the open thread, with per-answer actions
+export const Transcript = ({ messages, book, chapters, streaming, onRetry, onFollowUp, onSave, onShare, onRead }: {
+  messages: ChatMsg[];
+  book: Book | null;
+  chapters: Chapter[];
+  streaming: boolean;
+  onRetry: (msgId: string) => void;
+  onFollowUp: (text: string) => void;
+  onSave: (question: string, msg: ChatMsg) => void;
+  onShare: (question: string | undefined, msg: ChatMsg) => void;
+  onRead: (question: string | undefined, msg: ChatMsg) => void;
+}) => {
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const savedPlans = usePlans();
+  const endRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => { endRef.current?.scrollIntoView({ behavior: scrollBehavior() }); }, [messages]);
+
+  // Screen readers hear the latest answer's status, then the whole answer once it has streamed in
+  const latest = messages[messages.length - 1];
+  const announcement = answerAnnouncement(latest, book?.title ?? t('book.fallback'));
+
+  const questionBefore = (idx: number) => messages.slice(0, idx).reverse().find((x) => x.role === 'user')?.content;
+
+  // A plan answer becomes a checklist, saved next to the journal
+  const savePlan = (b: Book, draft: PlanDraft, msgId: string) => {
+    const plan = plans.add(draft, b.id, t('plans.title', { days: draft.days.length, title: b.title }), msgId);
+    posthog.capture('plan_saved', { bookId: b.id, days: plan.days.length });
+    navigate(`/plans/${plan.id}`);
+  };
+
+  const quickShare = async (m: ChatMsg) => {
+    try {
+      const text = `${book?.title || t('book.fallback')} — ${truncate(stripMarkdown(m.content), 180)}`;
+      if ((navigator as any).share) {
+        await (navigator as any).share({ text, title: t('share.title') });
+      } else {
+        await navigator.clipboard.writeText(text);
+      }
+    } catch {}
+  };
+
+  return (
+    <motion.div initial={{opacity:0,y:8}} animate={{opacity:1,y:0}}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2"><MessageSquare className="h-4 w-4"/> {t('transcript.title')}</div>
+        </CardHeader>
+        <CardContent>
+          <div role="status" className="sr-only">{announcement}</div>
+          <div className="max-h-[44vh] overflow-y-auto pe-1 space-y-4">
+            {messages.map((m, idx)=> (
+              <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`flex items-start gap-2 max-w-[85%]`}>
+                  {/* Avatar */}
+                  {m.role==='book' && (
+                    <div className="h-8 w-8 rounded-full bg-white/10 grid place-items-center shrink-0">
+                      <BookOpen className="h-4 w-4 opacity-80"/>
+                    </div>
+                  )}
+                  <div aria-busy={m.status==='streaming' || undefined} className={`reading rounded-2xl px-4 py-3 border ${m.role==='user' ? 'bg-sky-500/15 border-sky-400/20' : 'bg-white/10 border-white/10'}`}>
+                    <div className="opacity-70 text-xs mb-1">{m.role==='user' ? t('transcript.you') : (book?.title ?? t('book.fallback'))}</div>
+                    {m.role==='user'
+                      ? <>
+                          <div style={{ whiteSpace: 'pre-wrap' }}>{m.content}</div>
+                          {m.chapterIds?.length ? (
+                            <div className="mt-1 text-[11px] opacity-70 flex items-center gap-1">
+                              <ListTree className="h-3 w-3"/>
+                              {m.chapterIds.map((cid) => {
+                                const i = chapters.findIndex((c) => c.id === cid);
+                                return i >= 0 ? chapterLabel(chapters[i], i) : cid;
+                              }).join(', ')}
+                            </div>
+                          ) : null}
+                        </>
+                      : m.content ? <AnswerText text={m.content} scope={m.id} citations={m.citations}/> : m.status==='streaming' ? <span className="opacity-60">{t('answer.thinking')}</span>
+                      : m.status==='queued' ? <span className="opacity-60 flex items-center gap-1"><CloudOff className="h-3 w-3"/> {t('answer.queued')}</span>
+                      : null}
+                    {m.role==='book' && <CitationList scope={m.id} citations={m.citations}/>}
+                    {m.role==='book' && m.content && m.status!=='error' && <ListenControl msg={m}/>}
+                    {m.role==='book' && m.status==='stopped' && (
+                      <div className="mt-1 text-xs opacity-60">{t('answer.stopped')}</div>
+                    )}
+                    {m.role==='book' && m.status==='error' && (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-rose-300">
+                        <AlertTriangle className="h-3 w-3"/> {m.error}
+                      </div>
+                    )}
+                    {m.role==='book' && (m.status==='error' || m.status==='stopped') && (
+                      <div className="mt-2">
+                        <Button className="text-xs" onClick={()=>onRetry(m.id)} disabled={streaming}><RotateCcw className="h-3 w-3"/> {t('common.retry')}</Button>
+                      </div>
+                    )}
+                    {m.role==='book' && m.status!=='error' && m.status!=='streaming' && m.status!=='queued' && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {/* Journal star */}
+                        <Button className="text-xs" onClick={()=>onSave(questionBefore(idx) || t('transcript.previousQuestion'), m)}>⭐ {t('common.save')}</Button>
+                        {/* Focused reading view */}
+                        <Button className="text-xs" onClick={()=>onRead(questionBefore(idx), m)} aria-label={t('reading.focus.answer')}><Maximize2 className="h-3 w-3"/> {t('reading.focus')}</Button>
+                        {/* Plan answers become checklists */}
+                        {(() => {
+                          if (m.status !== 'done' || !book) return null;
+                          const saved = savedPlans.find((p) => p.sourceMsgId === m.id);
+                          if (saved) return <Link to={`/plans/${saved.id}`} className="inline-flex items-center gap-1 text-xs rounded-2xl px-3 py-2 border border-emerald-400/20 bg-emerald-500/10 hover:bg-emerald-500/20"><ListChecks className="h-3 w-3"/> {t('transcript.openChecklist')}</Link>;
+                          const draft = planFromMeta(m.meta) ?? parsePlan(m.content);
+                          return draft && <Button className="text-xs" onClick={()=>savePlan(book, draft, m.id)}><ListChecks className="h-3 w-3"/> {t('transcript.saveChecklist')}</Button>;
+                        })()}
+                        {/* Follow-up chips */}
+                        {FOLLOW_UPS.map(f => (
+                          <button key={f} onClick={()=>onFollowUp(t(f))} aria-label={t('transcript.followUp', { text: t(f) })} className="text-[11px] rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10">{t(f)}</button>
+                        ))}
+                        {/* Share card composer */}
+                        <Button className="text-xs" onClick={()=>onShare(questionBefore(idx), m)}><Share2 className="h-4 w-4"/> {t('transcript.shareCard')}</Button>
+                        {/* Web share if supported */}
+                        <button onClick={()=>quickShare(m)} aria-label={t('transcript.quickShare.aria')} className="text-[11px] rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10">{t('transcript.quickShare')}</button>
+                      </div>
+                    )}
+                  </div>
+                  {/* User avatar on right */}
+                  {m.role==='user' && (
+                    <div className="h-8 w-8 rounded-full bg-sky-500/20 grid place-items-center shrink-0">
+                      <span className="text-[10px] opacity-80">{t('transcript.you')}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div ref={endRef}/>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useRef, useState } from 'react';
+import * as Sentry from '@sentry/react';
+import type { ChatMsg, MsgStatus } from '../../types';
+import { StreamError, type StreamHandlers } from '../../lib/sse';
+import { ApiError } from '../../lib/api';
+import { t } from '../../lib/i18n';
+import { mergeCitations, normalizeCitations } from '../../lib/citations';
+
+export type Patch = (p: (msg: ChatMsg) => Partial<ChatMsg>) => void;
+
+/** Stream an SSE answer into one message through `patch`; resolves with how it ended */
+export async function runStream(send: (handlers: StreamHandlers, signal: AbortSignal) => Promise<void>, patch: Patch, signal: AbortSignal): Promise<MsgStatus> {
+  try {
+    await send({
+      onChunk: (delta) => patch((msg) => ({ content: msg.content + delta })),
+      onCitations: (payload) => patch((msg) => ({ citations: mergeCitations(msg.citations, normalizeCitations(payload)) })),
+      onMeta: (meta) => patch((msg) => ({ meta: { ...msg.meta, ...(meta && typeof meta === 'object' ? meta : { value: meta }) } })),
+    }, signal);
+    patch(() => ({ status: 'done' }));
+    return 'done';
+  } catch (e) {
+    if (signal.aborted) {
+      patch(() => ({ status: 'stopped' }));
+      return 'stopped';
+    }
+    console.error('SSE stream failed', e);
+    Sentry.captureException(e);
+    // Server-sent `error` events and API errors carry a message meant for the reader; anything else gets the generic one
+    const error = e instanceof StreamError || e instanceof ApiError ? e.message : t('error.answer');
+    patch(() => ({ status: 'error', error }));
+    return 'error';
+  }
+}
+
+/**
+ * Every stream in flight, so Stop ends them all and `streaming` stays true until the last one
+ * finishes. A chat answer is exclusive (starting one aborts the previous); compare columns run
+ * side by side.
+ */
+export function useStreams() {
+  const [streaming, setStreaming] = useState(false);
+  const live = useRef<Set<AbortController>>(new Set());
+  const answer = useRef<AbortController | null>(null);
+
+  const run = async <T>(fn: (signal: AbortSignal) => Promise<T>, { exclusive = false } = {}): Promise<T> => {
+    if (exclusive) answer.current?.abort();
+    const controller = new AbortController();
+    if (exclusive) answer.current = controller;
+    live.current.add(controller);
+    setStreaming(true);
+    try {
+      return await fn(controller.signal);
+    } finally {
+      live.current.delete(controller);
+      if (answer.current === controller) answer.current = null;
+      if (!live.current.size) setStreaming(false);
+    }
+  };
+
+  const stop = () => live.current.forEach((c) => c.abort());
+
+  return { streaming, run, stop };
+}
+
+export type Streams = ReturnType<typeof useStreams>;
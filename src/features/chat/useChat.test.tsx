@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import type { Book, Thread } from '../../types';
+import { lastSession } from '../../lib/lastSession';
+import { activity, summarize } from '../../lib/activity';
+import { useThreads } from './useThreads';
+import { useChat } from './useChat';
+
+// Threads are stored in IndexedDB, which jsdom lacks; keep them in a Map instead
+const db = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('../../lib/db', () => ({
+  STORES: { threads: 'threads' },
+  getAll: async () => Array.from(db.values()),
+  getOne: async (_: string, key: string) => db.get(key),
+  put: async (_: string, value: { id: string }) => { db.set(value.id, value); },
+  remove: async (_: string, key: string) => { db.delete(key); },
+}));
+
+const books: Book[] = [
+  { id: 'deep-work', title: 'Deep Work', author: 'Cal Newport', chapters: [] },
+  { id: 'atomic-habits', title: 'Atomic Habits', author: 'James Clear', chapters: [] },
+];
+
+const enc = new TextEncoder();
+const sse = (events: string[]) =>
+  new Response(new ReadableStream<Uint8Array>({
+    start(c) { events.forEach((e) => c.enqueue(enc.encode(e))); c.close(); },
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+
+const answer = (text: string) => () => sse([
+  ...text.split(/(?<= )/).map((w, i) => `id: ${i}\nevent: chunk\ndata: ${w}\n\n`),
+  'id: 99\nevent: done\ndata: {}\n\n',
+]);
+
+/** Responds to each /ask with the next scripted response; returns the request bodies */
+const stubAsk = (...responses: (() => Response)[]) => {
+  const bodies: any[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    return responses.shift()!();
+  }));
+  return bodies;
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+const renderChat = async () => {
+  const hook = renderHook(() => {
+    const threads = useThreads();
+    return { threads, chat: useChat({ books, threads }) };
+  }, { wrapper });
+  await waitFor(() => expect(hook.result.current.threads.ready).toBe(true));
+  return hook;
+};
+
+beforeEach(() => {
+  db.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  activity.replace({ days: {}, goal: { questions: 3, reviews: 1 }, freezes: 0, frozen: [], longest: 0 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('useChat', () => {
+  it('sends a question and streams the answer into a new thread', async () => {
+    const bodies = stubAsk(answer('Work without distraction.'));
+    const { result } = await renderChat();
+
+    act(() => result.current.chat.setQuery('What is deep work?'));
+    await act(() => result.current.chat.send());
+
+    const { activeThread, messages, query, streaming } = result.current.chat;
+    expect(query).toBe('');
+    expect(streaming).toBe(false);
+    expect(activeThread?.bookId).toBe('deep-work');
+    expect(activeThread?.title).toBe('What is deep work?');
+    expect(messages.map((m) => [m.role, m.content, m.status])).toEqual([
+      ['user', 'What is deep work?', undefined],
+      ['book', 'Work without distraction.', 'done'],
+    ]);
+    expect(bodies).toEqual([{ bookId: 'deep-work', question: 'What is deep work?', history: [], language: 'en' }]);
+    // The question counts toward today's goal and becomes the resume pointer
+    expect(summarize(activity.get()).today.questions).toBe(1);
+    expect(lastSession.get()).toMatchObject({ bookId: 'deep-work', question: 'What is deep work?', threadId: activeThread?.id });
+  });
+
+  it('sends earlier turns of the open thread as history', async () => {
+    const bodies = stubAsk(answer('First answer.'), answer('Second answer.'));
+    const { result } = await renderChat();
+    await act(() => result.current.chat.send('First question'));
+    await act(() => result.current.chat.send('Second question'));
+    expect(bodies[1].history).toEqual([
+      { role: 'user', content: 'First question' },
+      { role: 'assistant', content: 'First answer.' },
+    ]);
+    expect(result.current.chat.messages).toHaveLength(4);
+  });
+
+  it('shows an error on the answer and Retry streams it again into the same message', async () => {
+    const bodies = stubAsk(() => new Response('bad request', { status: 400 }), answer('Second time lucky.'));
+    const { result } = await renderChat();
+    await act(() => result.current.chat.send('Why focus?'));
+
+    const failed = result.current.chat.messages[1];
+    expect(failed.status).toBe('error');
+    expect(failed.error).toBe('The request was rejected (400).');
+
+    await act(async () => { result.current.chat.retry(failed.id); });
+    await waitFor(() => expect(result.current.chat.messages[1].status).toBe('done'));
+    expect(result.current.chat.messages).toHaveLength(2);
+    expect(result.current.chat.messages[1]).toMatchObject({ id: failed.id, content: 'Second time lucky.', error: undefined });
+    expect(bodies[1]).toEqual(bodies[0]);
+  });
+
+  it('resumes the last session by reopening its thread', async () => {
+    const thread: Thread = {
+      id: 't1', bookId: 'atomic-habits', title: 'Habit stacking?', createdAt: 1, updatedAt: 2,
+      messages: [
+        { id: 'm1', role: 'user', content: 'Habit stacking?', ts: 1, chapterIds: ['ch2'] },
+        { id: 'm2', role: 'book', content: 'Pair a new habit with an old one.', ts: 2, status: 'done' },
+      ],
+    };
+    db.set(thread.id, thread);
+    lastSession.set({ bookId: 'atomic-habits', question: 'Habit stacking?', threadId: 't1' });
+    const { result } = await renderChat();
+
+    expect(result.current.chat.resumeSession?.threadId).toBe('t1');
+    act(() => result.current.chat.resume());
+    expect(result.current.chat.activeBook?.id).toBe('atomic-habits');
+    expect(result.current.chat.activeThread?.id).toBe('t1');
+    expect(result.current.chat.messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+    // The chapter scope of the thread's last question comes back too
+    expect(result.current.chat.activeScope).toEqual(['ch2']);
+  });
+
+  it('refills the question when the resume pointer has no thread', async () => {
+    lastSession.set({ bookId: 'atomic-habits', question: 'How do I start?' });
+    const { result } = await renderChat();
+    act(() => result.current.chat.resume());
+    expect(result.current.chat.activeBook?.id).toBe('atomic-habits');
+    expect(result.current.chat.activeThread).toBeNull();
+    expect(result.current.chat.query).toBe('How do I start?');
+  });
+});
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useMatch, useNavigate } from 'react-router-dom';
+import posthog from 'posthog-js';
+import type { Book, ChatMsg, Thread } from '../../types';
+import { buildHistory, type HistoryTurn } from '../../lib/conversation';
+import { api } from '../../lib/api';
+import { fetchBookDetail } from '../../lib/library';
+import { newThread, queuedAnswers } from '../../lib/threads';
+import { lastSession, useLastSession } from '../../lib/lastSession';
+import { speaker, useSpeaking } from '../../lib/speech';
+import { isOnline, useOnline } from '../../lib/useOnline';
+import { answerLanguage } from '../../lib/i18n';
+import { logActivity } from '../activity/logActivity';
+import { runStream, useStreams, type Patch } from './streaming';
+import { useCompare } from './useCompare';
+import type { Threads } from './useThreads';
+
+/**
+ * The chat: which book and thread are open, the composer text, chapter scope, sending and
+ * streaming answers (with Retry and the offline queue), compare mode and resuming the last
+ * session. The open thread follows the `/chat/:threadId` route.
+ */
+export function useChat({ books, threads }: { books: Book[]; threads: Threads }) {
+  const navigate = useNavigate();
+  const routeThreadId = useMatch('/chat/:threadId')?.params.threadId;
+  const online = useOnline();
+  const [selected, setSelected] = useState<Book | null>(null);
+  const [query, setQuery] = useState('');
+  // The thread currently open for each book
+  const [openThreadIds, setOpenThreadIds] = useState<Record<string, string>>({});
+  // Full book records (with chapters) fetched on demand, and the chapter scope chosen per book
+  const [bookDetails, setBookDetails] = useState<Record<string, Book>>({});
+  const [chapterScope, setChapterScope] = useState<Record<string, string[]>>({});
+  const flushing = useRef(false);
+  const streams = useStreams();
+  const resumeSession = useLastSession();
+
+  const activeBook = selected ?? books[0] ?? null;
+  const activeThread = activeBook ? threads.threads.find((t) => t.id === openThreadIds[activeBook.id]) ?? null : null;
+  const messages = activeThread?.messages ?? [];
+  const activeChapters = (activeBook && (bookDetails[activeBook.id]?.chapters ?? activeBook.chapters)) || [];
+  const activeScope = activeBook ? chapterScope[activeBook.id] ?? [] : [];
+  const compare = useCompare({ books, activeBook, chapterScope, streams });
+
+  // Chapters for the chat picker come from GET /books/:id when the list entry has none
+  useEffect(() => {
+    if (!activeBook || activeBook.chapters || bookDetails[activeBook.id]) return;
+    const id = activeBook.id;
+    const ctrl = new AbortController();
+    fetchBookDetail(id, ctrl.signal)
+      .then((b) => setBookDetails((d) => ({ ...d, [id]: b })))
+      .catch((err) => {
+        if (ctrl.signal.aborted) return;
+        console.warn('Failed to load chapters', err);
+        setBookDetails((d) => ({ ...d, [id]: { ...activeBook, chapters: [] } }));
+      });
+    return () => ctrl.abort();
+  }, [activeBook?.id]);
+
+  // A reopened thread continues with the chapter scope of its last question
+  const restoreScope = (t: Thread) => {
+    const last = [...t.messages].reverse().find((m) => m.role === 'user');
+    setChapterScope((s) => ({ ...s, [t.bookId]: last?.chapterIds ?? [] }));
+  };
+
+  // /chat/:threadId opens that thread once threads and books have loaded (deep links, refresh)
+  useEffect(() => {
+    const t = routeThreadId ? threads.threads.find((x) => x.id === routeThreadId) : undefined;
+    if (!t) return;
+    const b = books.find((x) => x.id === t.bookId);
+    if (b) setSelected(b);
+    setOpenThreadIds((o) => (o[t.bookId] === t.id ? o : { ...o, [t.bookId]: t.id }));
+    restoreScope(t);
+  }, [routeThreadId, threads.threads.length, books]);
+
+  const openThread = (t: Thread) => {
+    const b = books.find((x) => x.id === t.bookId);
+    if (b) setSelected(b);
+    setOpenThreadIds((o) => ({ ...o, [t.bookId]: t.id }));
+    restoreScope(t);
+    if (routeThreadId !== t.id) navigate(`/chat/${t.id}`);
+  };
+
+  // Switching books keeps the URL pointing at what is on screen
+  const selectBook = (b: Book) => {
+    setSelected(b);
+    if (routeThreadId) navigate(openThreadIds[b.id] ? `/chat/${openThreadIds[b.id]}` : '/');
+  };
+
+  // "Chat with this book" from other pages
+  const chatWithBook = (b: Book) => {
+    setSelected(b);
+    navigate(openThreadIds[b.id] ? `/chat/${openThreadIds[b.id]}` : '/');
+  };
+
+  const startNewThread = () => {
+    if (!activeBook) return;
+    setOpenThreadIds(({ [activeBook.id]: _, ...rest }) => rest);
+    if (routeThreadId) navigate('/');
+  };
+
+  const removeThread = (id: string) => {
+    threads.remove(id);
+    if (routeThreadId === id) navigate('/');
+  };
+
+  // Reopen the full transcript of the last session; older pointers without a thread just refill the question
+  const resume = () => {
+    if (!resumeSession) return;
+    const t = resumeSession.threadId ? threads.threads.find((x) => x.id === resumeSession.threadId) : undefined;
+    if (t) return openThread(t);
+    const b = books.find((x) => x.id === resumeSession.bookId) || books[0];
+    if (b) setSelected(b);
+    setQuery(resumeSession.question);
+  };
+
+  const setScope = (bookId: string, ids: string[]) => setChapterScope((s) => ({ ...s, [bookId]: ids }));
+
+  // Stream one answer into an existing book message (used by send and by Retry)
+  const streamAnswer = (tid: string, msgId: string, bookId: string, question: string, history: HistoryTurn[], chapterIds: string[] = []) => {
+    const patch: Patch = (p) => threads.update(tid, (m) => m.map((msg) => msg.id === msgId ? { ...msg, ...p(msg) } : msg));
+    return streams.run(async (signal) => {
+      const status = await runStream((h, s) => api.ask({ bookId, question, history, language: answerLanguage(), ...(chapterIds.length ? { chapterIds } : {}) }, h, s), patch, signal);
+      if (status === 'done') posthog.capture('ask_success', { bookId });
+      if (status === 'stopped') posthog.capture('ask_stopped', { bookId });
+      // The connection dropped mid-answer: queue it again instead of showing an error
+      if (status === 'error' && !isOnline()) patch(() => ({ content: '', status: 'queued', error: undefined, citations: undefined }));
+    }, { exclusive: true });
+  };
+
+  // `target` lets other pages (e.g. book detail) ask a specific book before `selected` has updated;
+  // `chapterIds` replaces that book's chapter scope, otherwise the picker's selection is used
+  const send = async (overrideText?: string, target?: Book, chapterIds?: string[]) => {
+    const q = (overrideText ?? query).trim();
+    if (!q) return;
+    if (compare.on && !target) {
+      if (compare.ask(q)) setQuery('');
+      return;
+    }
+    const which = target ?? activeBook;
+    if (!which) return;
+    if (target) setSelected(target);
+    const scope = chapterIds ?? chapterScope[which.id] ?? [];
+    if (chapterIds) setScope(which.id, chapterIds);
+    const thread = threads.threads.find((t) => t.id === openThreadIds[which.id]);
+    // Prior turns of this book's open thread, trimmed to the history budget
+    const history = buildHistory(thread?.messages ?? []);
+    let threadId = thread?.id;
+    if (!threadId) {
+      const t = newThread(which.id);
+      threadId = t.id;
+      threads.add(t);
+      setOpenThreadIds((o) => ({ ...o, [which.id]: t.id }));
+    }
+    const tid = threadId;
+    if (routeThreadId !== tid) navigate(`/chat/${tid}`);
+    const userMsg: ChatMsg = { id: crypto.randomUUID(), role: 'user', content: q, ts: Date.now(), ...(scope.length ? { chapterIds: scope } : {}) };
+    threads.update(tid, (m) => [...m, userMsg]);
+    setQuery('');
+    posthog.capture('ask_sent', { bookId: which.id, q, historyTurns: history.length, chapters: scope.length });
+    logActivity('question');
+    lastSession.set({ bookId: which.id, question: q, bookTitle: which.title, threadId: tid });
+
+    const bookMsgId = crypto.randomUUID();
+    // Offline: keep the question in the thread and send it when the connection is back
+    const queued = !isOnline();
+    const initBookMsg: ChatMsg = { id: bookMsgId, role: 'book', content: '', ts: Date.now(), status: queued ? 'queued' : 'streaming' };
+    threads.update(tid, (m) => [...m, initBookMsg]);
+    if (queued) return posthog.capture('ask_queued', { bookId: which.id });
+    await streamAnswer(tid, bookMsgId, which.id, q, history, scope);
+  };
+
+  // Re-ask the question before `msgId` into that same book message (Retry and the offline queue)
+  const resendAnswer = (thread: Thread, msgId: string) => {
+    const msgs = thread.messages;
+    const idx = msgs.findIndex((m) => m.id === msgId);
+    let userIdx = idx - 1;
+    while (userIdx >= 0 && msgs[userIdx].role !== 'user') userIdx--;
+    if (idx < 0 || userIdx < 0) return;
+    const history = buildHistory(msgs.slice(0, userIdx));
+    threads.update(thread.id, (m) => m.map((msg) => msg.id === msgId ? { ...msg, content: '', status: 'streaming', error: undefined, citations: undefined, ts: Date.now() } : msg));
+    return streamAnswer(thread.id, msgId, thread.bookId, msgs[userIdx].content, history, msgs[userIdx].chapterIds);
+  };
+
+  const retry = (msgId: string) => {
+    if (!activeThread) return;
+    posthog.capture('ask_retry', { bookId: activeThread.bookId });
+    resendAnswer(activeThread, msgId);
+  };
+
+  // Send questions queued offline, oldest first and one at a time, once threads are loaded and we're back online
+  useEffect(() => {
+    if (!online || !threads.ready || flushing.current || !queuedAnswers(threads.threads).length) return;
+    flushing.current = true;
+    (async () => {
+      for (const { thread, msg } of queuedAnswers(threads.threads)) {
+        if (!isOnline()) break;
+        // Use the latest copy so earlier answers in the same thread count as history
+        const latest = threads.latest().find((t) => t.id === thread.id);
+        if (!latest?.messages.some((m) => m.id === msg.id && m.status === 'queued')) continue;
+        posthog.capture('ask_dequeued', { bookId: latest.bookId });
+        await resendAnswer(latest, msg.id);
+      }
+    })().finally(() => { flushing.current = false; });
+  }, [online, threads.ready]);
+
+  // Keep reading aloud as the answer streams in; leaving the thread stops playback
+  const speakingId = useSpeaking();
+  useEffect(() => {
+    if (!speakingId) return;
+    const m = messages.find((x) => x.id === speakingId);
+    if (!m) return speaker.stop();
+    speaker.feed(m.id, m.content, m.status !== 'streaming');
+  }, [speakingId, messages]);
+
+  const queuedCount = useMemo(() => queuedAnswers(threads.threads).length, [threads.threads]);
+
+  return {
+    selected, activeBook, activeThread, messages, activeChapters, activeScope,
+    query, setQuery, bookDetails, addBookDetails: (list: Record<string, Book>) => setBookDetails((d) => ({ ...d, ...list })),
+    setScope, streaming: streams.streaming, stop: streams.stop, compare,
+    send, retry, openThread, selectBook, chatWithBook, startNewThread, removeThread,
+    resumeSession, resume, queuedCount,
+  };
+}
+
+export type Chat = ReturnType<typeof useChat>;
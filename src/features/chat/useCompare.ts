@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import posthog from 'posthog-js';
+import type { Book, ChatMsg, Comparison } from '../../types';
+import { api } from '../../lib/api';
+import { answerLanguage } from '../../lib/i18n';
+import { logActivity } from '../activity/logActivity';
+import { runStream, type Patch, type Streams } from './streaming';
+
+/**
+ * Compare mode: the books picked from the chip row and this session's comparisons (newest
+ * last). Comparisons aren't persisted; each column is saved to the journal on its own.
+ */
+export function useCompare({ books, activeBook, chapterScope, streams }: {
+  books: Book[];
+  activeBook: Book | null;
+  chapterScope: Record<string, string[]>;
+  streams: Streams;
+}) {
+  const [on, setOn] = useState(false);
+  const [ids, setIds] = useState<string[]>([]);
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+
+  const patchComparison = (id: string, fn: (c: Comparison) => Comparison) =>
+    setComparisons((cs) => cs.map((c) => (c.id === id ? fn(c) : c)));
+
+  /** Ask every picked book the same question in parallel, one column each; false when fewer than two are picked */
+  const ask = (q: string) => {
+    const picked = ids.map((id) => books.find((b) => b.id === id)).filter((b): b is Book => !!b);
+    if (picked.length < 2) return false;
+    const comparison: Comparison = {
+      id: crypto.randomUUID(),
+      question: q,
+      ts: Date.now(),
+      columns: picked.map((b) => ({ bookId: b.id, msg: { id: crypto.randomUUID(), role: 'book', content: '', ts: Date.now(), status: 'streaming' } })),
+    };
+    setComparisons((cs) => [...cs, comparison]);
+    logActivity('question');
+    posthog.capture('compare_sent', { bookIds: picked.map((b) => b.id), q });
+    comparison.columns.forEach(({ bookId, msg }) => streams.run((signal) => {
+      const patch: Patch = (p) => patchComparison(comparison.id, (c) => ({
+        ...c,
+        columns: c.columns.map((col) => (col.msg.id === msg.id ? { ...col, msg: { ...col.msg, ...p(col.msg) } } : col)),
+      }));
+      return runStream((h, s) => api.ask({ bookId, question: q, history: [], language: answerLanguage(), ...(chapterScope[bookId]?.length ? { chapterIds: chapterScope[bookId] } : {}) }, h, s), patch, signal);
+    }));
+    return true;
+  };
+
+  // POST /compare streams a synthesis of the finished columns
+  const synthesize = (c: Comparison) => {
+    const answers = c.columns.filter((col) => col.msg.status === 'done' && col.msg.content.trim()).map((col) => ({ bookId: col.bookId, answer: col.msg.content }));
+    if (answers.length < 2) return;
+    const msg: ChatMsg = { id: crypto.randomUUID(), role: 'book', content: '', ts: Date.now(), status: 'streaming' };
+    patchComparison(c.id, (x) => ({ ...x, synthesis: msg }));
+    posthog.capture('compare_synthesized', { bookIds: answers.map((a) => a.bookId) });
+    streams.run((signal) => runStream((h, s) => api.compare({ question: c.question, bookIds: answers.map((a) => a.bookId), answers, language: answerLanguage() }, h, s), (p) => patchComparison(c.id, (x) => (
+      x.synthesis ? { ...x, synthesis: { ...x.synthesis, ...p(x.synthesis) } } : x
+    )), signal));
+  };
+
+  const toggle = () => {
+    setOn((was) => {
+      if (!was && !ids.length && activeBook) setIds([activeBook.id]);
+      return !was;
+    });
+  };
+
+  const toggleBook = (b: Book) =>
+    setIds((cur) => (cur.includes(b.id) ? cur.filter((x) => x !== b.id) : [...cur, b.id]));
+
+  return { on, ids, comparisons, ask, synthesize, toggle, toggleBook };
+}
+
+export type Compare = ReturnType<typeof useCompare>;
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import type { Book, Thread } from '../../types';
+import type { JournalEntry } from '../../lib/journal';
+import { dayKey } from '../../lib/activity';
+import { useLanguage } from '../../lib/i18n';
+import { fetchBookDetail } from '../../lib/library';
+import { dailyPrompts as pickDailyPrompts, focusBooks, type DailyPrompt } from '../../lib/prompts';
+
+/**
+ * Daily prompts, picked once the catalog and threads are in. Chapters and suggested questions
+ * of the reader's current books come from GET /books/:id. Not recomputed on every message, so
+ * the cards don't reshuffle mid-session; the same day and data always give the same prompts.
+ * A language change re-picks them so the generic and follow-up wording is translated.
+ */
+export function useDailyPrompts({ books, threads, threadsReady, journal, bookDetails, addBookDetails }: {
+  books: Book[];
+  threads: Thread[];
+  threadsReady: boolean;
+  journal: JournalEntry[];
+  bookDetails: Record<string, Book>;
+  addBookDetails: (list: Record<string, Book>) => void;
+}) {
+  const [prompts, setPrompts] = useState<DailyPrompt[]>([]);
+  const { locale } = useLanguage();
+
+  useEffect(() => {
+    if (!threadsReady || !books.length) return;
+    const ctrl = new AbortController();
+    const src = { books, threads, journal, day: dayKey(Date.now()) };
+    const missing = focusBooks(src).filter((b) => !b.chapters && !bookDetails[b.id]);
+    Promise.all(missing.map((b) => fetchBookDetail(b.id, ctrl.signal).catch(() => ({ ...b, chapters: [] }))))
+      .then((list) => {
+        if (ctrl.signal.aborted) return;
+        const fetched = Object.fromEntries(list.map((b) => [b.id, b]));
+        if (list.length) addBookDetails(fetched);
+        setPrompts(pickDailyPrompts({ ...src, details: { ...bookDetails, ...fetched } }));
+      });
+    return () => ctrl.abort();
+  }, [threadsReady, books, locale]);
+
+  return prompts;
+}
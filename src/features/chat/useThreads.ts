@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react';
+import * as Sentry from '@sentry/react';
+import type { ChatMsg, Thread } from '../../types';
+import { loadThreads, saveThread, deleteThread, threadTitle } from '../../lib/threads';
+import { mergeThread, type ThreadStore } from '../../lib/sync';
+
+/**
+ * All persisted threads, newest first. Loaded from IndexedDB on mount; changed threads are
+ * written back once streaming settles, instead of on every chunk.
+ */
+export function useThreads() {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [ready, setReady] = useState(false);
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  // Thread ids changed since the last IndexedDB write
+  const dirty = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    loadThreads()
+      .then((list) => setThreads((prev) => [...prev, ...list.filter((t) => !prev.some((p) => p.id === t.id))]))
+      .catch((err) => { console.warn('Failed to load threads', err); Sentry.captureException(err); })
+      .finally(() => setReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (!dirty.current.size) return;
+    const timer = setTimeout(() => {
+      const ids = dirty.current;
+      dirty.current = new Set();
+      threads.filter((t) => ids.has(t.id)).forEach((t) => {
+        saveThread(t).catch((err) => { console.warn('thread save failed', err); Sentry.captureException(err); });
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [threads]);
+
+  const add = (t: Thread) => setThreads((ts) => [t, ...ts]);
+
+  const update = (threadId: string, fn: (msgs: ChatMsg[]) => ChatMsg[]) => {
+    dirty.current.add(threadId);
+    setThreads((ts) => ts.map((t) => {
+      if (t.id !== threadId) return t;
+      const next = fn(t.messages);
+      return { ...t, messages: next, title: threadTitle(next), updatedAt: Date.now() };
+    }));
+  };
+
+  const remove = (id: string) => {
+    setThreads((ts) => ts.filter((t) => t.id !== id));
+    deleteThread(id).catch((err) => console.warn('thread delete failed', err));
+  };
+
+  // Sync goes through component state so the open chat picks up remote changes
+  const store: ThreadStore = {
+    get: () => threadsRef.current,
+    apply(changed, removed) {
+      const gone = new Set(removed);
+      // Merge again: a streaming answer may have moved on since the sync read the threads.
+      // State and IndexedDB both get these merged copies, so they can't disagree.
+      const merged = changed.map((t) => { const mine = threadsRef.current.find((m) => m.id === t.id); return mine ? mergeThread(mine, t) : t; });
+      setThreads((ts) => {
+        const byId = new Map(ts.filter((t) => !gone.has(t.id)).map((t) => [t.id, t]));
+        merged.forEach((t) => byId.set(t.id, t));
+        return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+      });
+      merged.forEach((t) => saveThread(t).catch((err) => console.warn('thread save failed', err)));
+      removed.forEach((id) => deleteThread(id, { remote: true }).catch((err) => console.warn('thread delete failed', err)));
+    },
+  };
+
+  return { threads, ready, latest: () => threadsRef.current, add, update, remove, store };
+}
+
+export type Threads = ReturnType<typeof useThreads>;
@@ -0,0 +1,35 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { axe } from 'vitest-axe';
+import type { Book } from '../../types';
+import { journal } from '../../lib/journal';
+import { plans } from '../../lib/plans';
+import { JournalDrawer } from './JournalDrawer';
+
+const books: Book[] = [
+  { id: 'deep-work', title: 'Deep Work', author: 'Cal Newport' },
+  { id: 'atomic-habits', title: 'Atomic Habits', author: 'James Clear' },
+];
+
+beforeEach(() => {
+  journal.replaceAll([]);
+  const e = journal.add({
+    bookId: 'deep-work', q: 'What is deep work?', a: 'Focused work without distraction [1].',
+    citations: [{ n: 1, chapter: 'Chapter 1', quote: 'Deep work is valuable.' }],
+  });
+  journal.update(e.id, { tags: ['focus'], note: 'Block mornings' });
+  journal.add({ bookId: 'atomic-habits', q: 'Habit stacking?', a: 'Stack a new habit on an old one.' });
+  plans.add({ days: [{ tasks: ['Block two hours'] }] }, 'deep-work', '7-day plan');
+});
+
+it('renders entries, filters and plans with no axe violations', async () => {
+  const { container } = render(
+    <MemoryRouter>
+      <JournalDrawer open onClose={vi.fn()} books={books} onRead={vi.fn()}/>
+    </MemoryRouter>,
+  );
+  expect(screen.getByRole('dialog', { name: 'Journal' })).toBeTruthy();
+  expect(screen.getByText(/What is deep work\?/)).toBeTruthy();
+  expect(await axe(container)).toHaveNoViolations();
+});
@@ -0,0 +1,160 @@
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen, Download, ListChecks, NotebookPen, Search, Upload, X } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book } from '../../types';
+import { Button, Input } from '../../components/ui';
+import { journal, useJournal, filterJournal, groupByBook, allTags, type JournalFilter } from '../../lib/journal';
+import { usePlans } from '../../lib/plans';
+import { useFocusTrap } from '../../lib/useFocusTrap';
+import { useI18n } from '../../lib/i18n';
+import { toMarkdown, toJsonBackup, toAnkiCsv, parseJsonBackup, downloadFile, exportStamp } from '../../lib/journalExport';
+import { PlanLink } from '../plans/PlanPage';
+import type { ReadingDraft } from '../reading/ReadingView';
+import { JournalEntryCard } from './JournalEntryCard';
+import { printJournal } from './printJournal';
+
+// --- Journal drawer: search and filters over the store, grouped by book
+export const JournalDrawer = ({ open, onClose, books, onRead }: { open: boolean; onClose: () => void; books: Book[]; onRead: (draft: ReadingDraft) => void }) => {
+  const { t, tn, formatNumber } = useI18n();
+  const entries = useJournal();
+  const savedPlans = usePlans();
+  const [filter, setFilter] = useState<JournalFilter>({});
+  const shown = useMemo(() => filterJournal(entries, filter), [entries, filter]);
+  const groups = useMemo(() => groupByBook(shown), [shown]);
+  const tags = useMemo(() => allTags(entries), [entries]);
+  const bookIds = useMemo(() => Array.from(new Set(entries.map((e) => e.bookId))), [entries]);
+  const titleOf = (id: string) => books.find((b) => b.id === id)?.title ?? t('book.unknown');
+  const filtering = !!(filter.text || filter.bookId || filter.tag || filter.from || filter.to);
+  const field = "rounded-xl px-2 py-1 text-xs bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  // Modal while open; when closed it stays mounted for the slide-out, so `inert` keeps it out of the tab order
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  useLayoutEffect(() => { rootRef.current?.toggleAttribute('inert', !open); }, [open]);
+  const trap = useFocusTrap<HTMLDivElement>(open, onClose);
+  const exportRef = useRef<HTMLButtonElement | null>(null);
+
+  // Exports cover what the filters show; the JSON backup always holds the whole journal
+  const runExport = async (kind: 'copy' | 'md' | 'json' | 'anki' | 'pdf') => {
+    setMenuOpen(false);
+    try {
+      if (kind === 'copy') await navigator.clipboard.writeText(toMarkdown(shown, titleOf));
+      if (kind === 'md') downloadFile(`journal-${exportStamp()}.md`, toMarkdown(shown, titleOf), 'text/markdown');
+      if (kind === 'json') downloadFile(`journal-backup-${exportStamp()}.json`, toJsonBackup(entries), 'application/json');
+      if (kind === 'anki') downloadFile(`journal-anki-${exportStamp()}.csv`, toAnkiCsv(shown, titleOf), 'text/csv');
+      if (kind === 'pdf') printJournal(shown, titleOf);
+      if (kind === 'copy') setNotice(t('journal.copied'));
+      posthog.capture('journal_export', { kind, count: kind === 'json' ? entries.length : shown.length });
+    } catch (e) {
+      console.warn('export failed', e);
+      setNotice(t('journal.export.failed'));
+    }
+  };
+
+  const importBackup = async (file: File) => {
+    try {
+      const { entries: incoming, invalid } = parseJsonBackup(await file.text());
+      const { added, updated, skipped } = journal.importEntries(incoming);
+      setNotice([
+        tn('journal.import.added', added),
+        updated && t('journal.import.updated', { count: updated }),
+        skipped && t('journal.import.skipped', { count: skipped }),
+        invalid && t('journal.import.invalid', { count: invalid }),
+      ].filter(Boolean).join(t('journal.import.separator')) + t('journal.import.end'));
+      posthog.capture('journal_import', { added, updated, skipped, invalid });
+    } catch (e) {
+      setNotice((e as Error).message || t('journal.import.failed'));
+    }
+  };
+
+  return (
+    <div ref={rootRef} className={`fixed inset-0 z-50 transition ${open? 'pointer-events-auto' : 'pointer-events-none'}`} aria-hidden={!open}>
+      <div onClick={onClose} className={`absolute inset-0 bg-black/50 backdrop-blur-sm transition-opacity ${open? 'opacity-100' : 'opacity-0'}`}/>
+      <div {...trap} role="dialog" aria-modal="true" aria-labelledby="journal-title"
+        className={`absolute end-0 top-0 h-full w-full sm:w-[520px] flex flex-col bg-slate-950/95 border-s border-white/10 outline-none transform transition-transform ${open? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'}`}>
+        <div className="p-4 border-b border-white/10 flex items-center justify-between">
+          <h2 id="journal-title" className="font-semibold flex items-center gap-2"><NotebookPen className="h-4 w-4"/> {t('nav.journal')}</h2>
+          <div className="flex items-center gap-2">
+            <div className="relative" onKeyDown={(e)=>{ if (e.key === 'Escape' && menuOpen) { e.stopPropagation(); setMenuOpen(false); exportRef.current?.focus(); } }}>
+              <Button ref={exportRef} className="text-xs" onClick={()=>setMenuOpen((o)=>!o)} aria-haspopup="menu" aria-expanded={menuOpen} disabled={!entries.length}>
+                <Download className="h-3 w-3"/> {t('journal.export')}
+              </Button>
+              {menuOpen && (
+                <div role="menu" className="absolute end-0 z-10 mt-2 w-52 rounded-2xl border border-white/10 bg-slate-900/95 p-1 shadow-lg text-sm">
+                  {([
+                    ['copy', 'journal.export.copy'],
+                    ['md', 'journal.export.md'],
+                    ['pdf', 'journal.export.pdf'],
+                    ['anki', 'journal.export.anki'],
+                    ['json', 'journal.export.json'],
+                  ] as const).map(([kind, label]) => (
+                    <button key={kind} role="menuitem" onClick={()=>runExport(kind)} className="w-full text-start rounded-xl px-3 py-2 hover:bg-white/10">{t(label)}</button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <Button className="text-xs" onClick={()=>fileRef.current?.click()}><Upload className="h-3 w-3"/> {t('journal.import')}</Button>
+            <input ref={fileRef} type="file" accept="application/json,.json" hidden
+              onChange={(e)=>{ const f = e.target.files?.[0]; if (f) importBackup(f); e.target.value = ''; }}/>
+            <Button className="text-xs" onClick={onClose}>{t('common.close')}</Button>
+          </div>
+        </div>
+        {notice && (
+          <div role="status" className="px-4 py-2 text-xs border-b border-white/10 bg-white/5 flex items-center justify-between gap-2">
+            <span>{notice}</span>
+            <button aria-label={t('common.dismiss')} onClick={()=>setNotice(null)} className="opacity-70 hover:opacity-100"><X className="h-3 w-3"/></button>
+          </div>
+        )}
+        <div className="p-4 border-b border-white/10 space-y-2">
+          <div className="relative">
+            <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 opacity-70"/>
+            <Input data-autofocus aria-label={t('journal.search.label')} placeholder={t('journal.search')} className="ps-9 py-2 text-sm" value={filter.text ?? ''} onChange={(e)=>setFilter({ ...filter, text: e.target.value })}/>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select aria-label={t('journal.filter.book')} className={field} value={filter.bookId ?? ''} onChange={(e)=>setFilter({ ...filter, bookId: e.target.value || undefined })}>
+              <option value="">{t('journal.filter.books.all')}</option>
+              {bookIds.map((id) => <option key={id} value={id}>{titleOf(id)}</option>)}
+            </select>
+            <select aria-label={t('journal.filter.tag')} className={field} value={filter.tag ?? ''} onChange={(e)=>setFilter({ ...filter, tag: e.target.value || undefined })}>
+              <option value="">{t('journal.filter.tags.all')}</option>
+              {tags.map((tag) => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+            <input type="date" aria-label={t('journal.filter.from')} className={field} value={filter.from ?? ''} onChange={(e)=>setFilter({ ...filter, from: e.target.value || undefined })}/>
+            <span className="text-xs opacity-60">{t('journal.filter.to.between')}</span>
+            <input type="date" aria-label={t('journal.filter.to')} className={field} value={filter.to ?? ''} onChange={(e)=>setFilter({ ...filter, to: e.target.value || undefined })}/>
+            {filtering && <button onClick={()=>setFilter({})} className="text-xs inline-flex items-center gap-1 opacity-70 hover:opacity-100"><X className="h-3 w-3"/> {t('common.clear')}</button>}
+          </div>
+        </div>
+        <div className="p-4 space-y-5 overflow-y-auto flex-1">
+          {savedPlans.length > 0 && !filtering && (
+            <section>
+              <h3 className="text-sm font-semibold mb-2 flex items-center gap-2"><ListChecks className="h-4 w-4 opacity-80"/> {t('plans.heading')}</h3>
+              <div className="space-y-2">
+                {[...savedPlans].reverse().map((p) => <PlanLink key={p.id} plan={p} bookTitle={titleOf(p.bookId)}/>)}
+              </div>
+            </section>
+          )}
+          {!entries.length && <div className="opacity-70 text-sm">{t('journal.empty')}</div>}
+          {entries.length > 0 && !shown.length && <div className="opacity-70 text-sm">{t('journal.empty.filtered')}</div>}
+          {groups.map((g) => (
+            <section key={g.bookId}>
+              <h3 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                <BookOpen className="h-4 w-4 opacity-80"/> {titleOf(g.bookId)}
+                <span className="text-xs font-normal opacity-60">{formatNumber(g.entries.length)}</span>
+              </h3>
+              <div className="space-y-3">
+                {g.entries.map((e) => (
+                  <JournalEntryCard key={e.id} entry={e} onTag={(tag)=>setFilter({ ...filter, tag })}
+                    onRead={(x)=>onRead({ bookTitle: titleOf(x.bookId), question: x.q, text: x.a, citations: x.citations, scope: `read-${x.id}` })}/>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
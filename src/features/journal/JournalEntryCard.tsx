@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Maximize2, Pencil } from 'lucide-react';
+import posthog from 'posthog-js';
+import { Button, Card, CardContent, Input, Textarea } from '../../components/ui';
+import { AnswerText, CitationList } from '../../components/AnswerText';
+import { journal, type JournalEntry } from '../../lib/journal';
+import { useI18n } from '../../lib/i18n';
+
+// --- Journal entry: read view with tags and note, or inline editor
+export const JournalEntryCard = ({ entry: e, onTag, onRead }: { entry: JournalEntry; onTag: (tag: string) => void; onRead: (entry: JournalEntry) => void }) => {
+  const { t, formatDateTime } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ q: e.q, a: e.a, note: e.note ?? '', tags: (e.tags ?? []).join(', ') });
+  const startEdit = () => { setDraft({ q: e.q, a: e.a, note: e.note ?? '', tags: (e.tags ?? []).join(', ') }); setEditing(true); };
+  const save = () => {
+    journal.update(e.id, { q: draft.q.trim() || e.q, a: draft.a, note: draft.note.trim() || undefined, tags: draft.tags.split(',') });
+    posthog.capture('journal_edit', { bookId: e.bookId });
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <Card>
+        <CardContent className="space-y-2">
+          <label className="block text-xs opacity-70">{t('journal.question')}</label>
+          <Input value={draft.q} onChange={(ev)=>setDraft({ ...draft, q: ev.target.value })} className="py-2 text-sm"/>
+          <label className="block text-xs opacity-70">{t('journal.answer')}</label>
+          <Textarea value={draft.a} onChange={(ev)=>setDraft({ ...draft, a: ev.target.value })} className="text-sm"/>
+          <label className="block text-xs opacity-70">{t('journal.note')}</label>
+          <Textarea value={draft.note} onChange={(ev)=>setDraft({ ...draft, note: ev.target.value })} placeholder={t('journal.note.placeholder')} className="min-h-[72px] text-sm"/>
+          <label className="block text-xs opacity-70">{t('journal.tags')}</label>
+          <Input value={draft.tags} onChange={(ev)=>setDraft({ ...draft, tags: ev.target.value })} placeholder={t('journal.tags.placeholder')} className="py-2 text-sm"/>
+          <div className="flex justify-end gap-2 pt-1">
+            <Button className="text-xs" onClick={()=>setEditing(false)}>{t('common.cancel')}</Button>
+            <Button className="text-xs bg-white/20" onClick={save}>{t('common.save')}</Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="text-xs opacity-70 mb-1">{formatDateTime(e.ts)}{e.updatedAt ? ` · ${t('journal.edited')}` : ''}</div>
+        <div className="text-sm font-medium mb-1">{t('journal.q', { q: e.q })}</div>
+        <AnswerText text={e.a} scope={e.id} citations={e.citations} className="reading"/>
+        <CitationList scope={e.id} citations={e.citations}/>
+        {e.note && (
+          <div className="mt-2 rounded-xl border border-amber-300/20 bg-amber-400/10 px-3 py-2 text-sm whitespace-pre-wrap">{e.note}</div>
+        )}
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {(e.tags ?? []).map((tag) => (
+            <button key={tag} onClick={()=>onTag(tag)} className="text-[11px] rounded-full px-2 py-0.5 border bg-white/5 border-white/10 hover:bg-white/10">#{tag}</button>
+          ))}
+          <div className="ms-auto flex gap-2">
+            <Button className="text-xs" onClick={()=>onRead(e)} aria-label={t('reading.focus.entry')}><Maximize2 className="h-3 w-3"/> {t('reading.focus')}</Button>
+            <Button className="text-xs" onClick={startEdit}><Pencil className="h-3 w-3"/> {t('common.edit')}</Button>
+            <Button className="text-xs" onClick={()=>journal.remove(e.id)}>{t('common.delete')}</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
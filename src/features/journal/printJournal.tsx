@@ -0,0 +1,67 @@
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { AnswerText } from '../../components/AnswerText';
+import { citationLabel } from '../../lib/citations';
+import { groupByBook, type JournalEntry } from '../../lib/journal';
+import { exportStamp } from '../../lib/journalExport';
+import { formatDate, language, LOCALES, t, tn } from '../../lib/i18n';
+
+// --- Printable journal ("Save as PDF" from the print dialog)
+// Rendered into a hidden iframe with its own light print stylesheet, reusing the answer renderer.
+const PRINT_CSS = `
+  body { font: 12pt/1.5 Georgia, 'Times New Roman', serif; color: #111; margin: 2cm; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; } h2 { font-size: 15pt; margin: 20pt 0 6pt; border-bottom: 1px solid #ccc; }
+  h3 { font-size: 12pt; margin: 14pt 0 2pt; } .meta { color: #666; font-size: 9pt; }
+  article { break-inside: avoid; } .note { border-inline-start: 3px solid #d4a017; padding-inline-start: 8pt; color: #333; }
+  .cites { font-size: 9pt; color: #444; } .markdown ul { list-style: disc; padding-inline-start: 1.25em; } .markdown ol { padding-inline-start: 1.4em; }
+  .markdown table { border-collapse: collapse; } .markdown th, .markdown td { border: 1px solid #bbb; padding: 2pt 6pt; }
+  .markdown pre { background: #f4f4f4; padding: 6pt; white-space: pre-wrap; } a { color: inherit; text-decoration: none; }
+`;
+
+const JournalPrintView = ({ entries, titleOf }: { entries: JournalEntry[]; titleOf: (id: string) => string }) => (
+  <>
+    <h1>{t('nav.journal')}</h1>
+    <div className="meta">{formatDate(Date.now())} · {tn('journal.entries', entries.length)}</div>
+    {groupByBook(entries).map((g) => (
+      <section key={g.bookId}>
+        <h2>{titleOf(g.bookId)}</h2>
+        {g.entries.map((e) => (
+          <article key={e.id}>
+            <h3>{e.q}</h3>
+            <div className="meta">{formatDate(e.ts)}{e.tags?.length ? ` · ${e.tags.map((tag) => `#${tag}`).join(' ')}` : ''}</div>
+            <AnswerText text={e.a} scope={`print-${e.id}`} citations={e.citations}/>
+            {e.citations?.length ? (
+              <div className="cites">{e.citations.map((c) => <div key={c.n}>[{c.n}] {citationLabel(c)} — “{c.quote}”</div>)}</div>
+            ) : null}
+            {e.note && <p className="note">{e.note}</p>}
+          </article>
+        ))}
+      </section>
+    ))}
+  </>
+);
+
+export const printJournal = (entries: JournalEntry[], titleOf: (id: string) => string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  const { locale } = language.get();
+  doc.documentElement.lang = locale;
+  doc.documentElement.dir = LOCALES[locale].dir;
+  doc.title = `${t('nav.journal')} ${exportStamp()}`;
+  const style = doc.createElement('style');
+  style.textContent = PRINT_CSS;
+  doc.head.appendChild(style);
+  const root = createRoot(doc.body);
+  flushSync(() => root.render(<JournalPrintView entries={entries} titleOf={titleOf}/>));
+  const cleanup = () => { root.unmount(); frame.remove(); };
+  frame.contentWindow!.addEventListener('afterprint', cleanup, { once: true });
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  // Some browsers never fire afterprint for iframes
+  setTimeout(() => { if (frame.isConnected) cleanup(); }, 60_000);
+};
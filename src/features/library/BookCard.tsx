@@ -0,0 +1,29 @@
+import { motion } from 'framer-motion';
+import { ArrowRight } from 'lucide-react';
+import type { Book } from '../../types';
+import { Badge } from '../../components/ui';
+import { useI18n } from '../../lib/i18n';
+
+// --- Book card (Featured carousel and library grid)
+export const BookCard = ({ book: b, onClick, className = "" }: { book: Book; onClick: () => void; className?: string }) => {
+  const { t } = useI18n();
+  return (
+    <motion.button onClick={onClick} whileHover={{y:-3}} aria-label={t('book.open', { title: b.title, author: b.author })} className={`text-start group ${className}`}>
+      <div className={`relative overflow-hidden rounded-3xl border border-white/10 bg-gradient-to-br ${b.color}`}>
+        <img src={b.cover} alt={t('book.cover', { title: b.title })} className="h-40 w-full object-cover opacity-70"/>
+        <div className="p-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold text-base">{b.title}</h3>
+            <Badge>{b.theme}</Badge>
+          </div>
+          <p className="text-xs text-slate-200/90 mt-1">{t('book.by', { author: b.author })}</p>
+          <p className="text-sm/6 text-slate-100 mt-3 opacity-90 line-clamp-2">{b.tagline}</p>
+          <div className="mt-4 flex items-center gap-2 text-sm opacity-90">
+            <span>{t('book.chat')}</span>
+            <ArrowRight className="h-4 w-4 transition group-hover:translate-x-0.5 rtl:rotate-180 rtl:group-hover:-translate-x-0.5" />
+          </div>
+        </div>
+      </div>
+    </motion.button>
+  );
+};
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { BookOpen, ChevronLeft, GraduationCap, MessageSquare, Sparkles } from 'lucide-react';
+import type { Book } from '../../types';
+import { Badge, Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { fetchBookDetail } from '../../lib/library';
+import { useI18n } from '../../lib/i18n';
+
+// --- /books/:id: cover, metadata, chapters and suggested questions
+// The list entry renders immediately; the detail endpoint fills in chapters when it answers.
+export const BookDetailPage = ({ books, onChat, onAsk }: { books: Book[]; onChat: (b: Book) => void; onAsk: (b: Book, q: string, chapterIds?: string[]) => void }) => {
+  const { id = '' } = useParams();
+  const { t } = useI18n();
+  const [detail, setDetail] = useState<Book | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetail(null); setFailed(false);
+    (async () => {
+      try {
+        const data = await fetchBookDetail(id);
+        if (!cancelled) setDetail(data);
+      } catch (err) {
+        console.warn('Failed to load book detail', err);
+        if (!cancelled) setFailed(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [id]);
+
+  const listed = books.find((b) => b.id === id);
+  const book = detail ? { ...listed, ...detail } : listed;
+  if (!book) {
+    return (
+      <section className="mx-auto max-w-4xl px-4 py-10 text-sm opacity-80">
+        {failed || books.length ? t('bookDetail.missing') : t('common.loading')} <Link to="/books" className="underline">{t('bookDetail.back')}</Link>
+      </section>
+    );
+  }
+  const suggestions = book.suggestedQuestions?.length ? book.suggestedQuestions : [
+    t('bookDetail.suggest.core', { title: book.title }),
+    t('bookDetail.suggest.apply', { title: book.title }),
+    t('bookDetail.suggest.mistake'),
+  ];
+
+  return (
+    <section className="mx-auto max-w-4xl px-4 py-8">
+      <Link to="/books" className="inline-flex items-center gap-1 text-sm opacity-70 hover:opacity-100"><ChevronLeft className="h-4 w-4 rtl:rotate-180"/> {t('nav.library')}</Link>
+      <div className={`mt-4 overflow-hidden rounded-3xl border border-white/10 bg-gradient-to-br ${book.color ?? ''}`}>
+        {book.cover && <img src={book.cover} alt={t('book.cover', { title: book.title })} className="h-56 w-full object-cover opacity-70"/>}
+        <div className="p-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">{book.title}</h1>
+            {book.theme && <Badge>{book.theme}</Badge>}
+          </div>
+          <p className="text-sm text-slate-200/90 mt-1">{t('book.by', { author: book.author })}</p>
+          {book.tagline && <p className="mt-3 text-slate-100/90">{book.tagline}</p>}
+          <div className="mt-5 flex flex-wrap gap-2">
+            <Button className="bg-white/20" onClick={()=>onChat(book)}><MessageSquare className="h-4 w-4"/> {t('book.chat')}</Button>
+            <Link to={`/quiz/${encodeURIComponent(book.id)}`} className="inline-flex items-center gap-2 rounded-2xl px-4 py-2 font-medium border border-white/10 bg-white/10 hover:bg-white/20 transition">
+              <GraduationCap className="h-4 w-4"/> {t('chat.quiz')}
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-4 md:grid-cols-2 items-start">
+        <Card>
+          <CardHeader><div className="flex items-center gap-2"><Sparkles className="h-4 w-4"/> {t('bookDetail.suggested')}</div></CardHeader>
+          <CardContent className="space-y-2">
+            {suggestions.map((q) => (
+              <button key={q} onClick={()=>onAsk(book, q)} className="w-full text-start rounded-xl px-3 py-2 text-sm border bg-white/5 border-white/10 hover:bg-white/10 transition">{q}</button>
+            ))}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader><div className="flex items-center gap-2"><BookOpen className="h-4 w-4"/> {t('chapters.title')}</div></CardHeader>
+          <CardContent>
+            {book.chapters?.length ? (
+              <ol className="space-y-1 text-sm">
+                {book.chapters.map((c, i) => (
+                  <li key={c.id}>
+                    <button onClick={()=>onAsk(book, t('bookDetail.summarize', { title: c.title }), [c.id])} className="w-full text-start rounded-xl px-3 py-2 hover:bg-white/10 transition">
+                      <span className="opacity-60 me-2">{c.number ?? i + 1}.</span>{c.title}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="text-sm opacity-70">{detail || failed ? t('bookDetail.noChapters') : t('chapters.loading')}</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
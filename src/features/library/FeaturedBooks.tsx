@@ -0,0 +1,35 @@
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import type { Book } from '../../types';
+import { Button } from '../../components/ui';
+import { useI18n } from '../../lib/i18n';
+import { BookCard } from './BookCard';
+
+// --- Featured carousel on the home page, with the catalog's load error and Retry
+export const FeaturedBooks = ({ books, error, onRetry }: { books: Book[]; error: string | null; onRetry: () => void }) => {
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  return (
+    <section className="mx-auto max-w-6xl px-4 pb-24" aria-labelledby="featured-title">
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="featured-title" className="text-lg font-semibold">{t('featured.title')}</h2>
+        <Button className="text-sm" onClick={()=>navigate('/books')}>{t('featured.all')}</Button>
+      </div>
+      {error && !books.length && (
+        <div role="alert" className="mb-4 rounded-2xl border border-rose-400/20 bg-rose-500/10 px-4 py-3 text-sm flex flex-wrap items-center justify-between gap-2">
+          <span className="flex items-center gap-2"><AlertTriangle className="h-4 w-4 shrink-0"/> {t('library.error.books')} {error}</span>
+          <Button className="text-xs" onClick={onRetry}><RotateCcw className="h-4 w-4"/> {t('common.retry')}</Button>
+        </div>
+      )}
+      <div className="overflow-x-auto hide-scrollbar">
+        <div className="flex gap-5 min-w-full py-1" role="list" aria-label={t('featured.label')}>
+          {books.map((b)=> (
+            <div key={b.id} role="listitem" className="min-w-[260px] flex">
+              <BookCard book={b} onClick={()=>navigate(`/books/${b.id}`)} className="w-full"/>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
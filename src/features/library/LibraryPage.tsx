@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Library, RotateCcw, Search } from 'lucide-react';
+import * as Sentry from '@sentry/react';
+import type { Book } from '../../types';
+import { Button, Input } from '../../components/ui';
+import { ApiError } from '../../lib/api';
+import { clearBookCache, fetchBooksPage, type BookFacets, type LibrarySort, type ReadingSignals } from '../../lib/library';
+import { useDebouncedValue } from '../../lib/useDebouncedValue';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import { BookCard } from './BookCard';
+
+// --- /books: the whole library with facets, sorting and infinite scroll
+// Filters live in the URL (?q=&theme=&author=&sort=) so library views can be linked and restored.
+const PAGE_SIZE = 24;
+const SORT_LABELS: Record<LibrarySort, MessageKey> = { title: 'library.sort.title', recent: 'library.sort.recent', saved: 'library.sort.saved' };
+
+export const LibraryPage = ({ signals }: { signals: ReadingSignals }) => {
+  const navigate = useNavigate();
+  const { t, tn } = useI18n();
+  const [params, setParams] = useSearchParams();
+  const q = params.get('q') ?? '';
+  const theme = params.get('theme') ?? '';
+  const author = params.get('author') ?? '';
+  const sort = (params.get('sort') as LibrarySort | null) ?? 'title';
+  const [input, setInput] = useState(q);
+  const debounced = useDebouncedValue(input, 300);
+  const [items, setItems] = useState<Book[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [facets, setFacets] = useState<BookFacets>({ themes: [], authors: [] });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentinel = useRef<HTMLDivElement | null>(null);
+  // Signals change with every chat; read them through a ref so they don't refetch the list
+  const signalsRef = useRef(signals);
+  signalsRef.current = signals;
+
+  const setParam = (key: string, value: string) => setParams((p) => {
+    const next = new URLSearchParams(p);
+    if (value) next.set(key, value); else next.delete(key);
+    return next;
+  }, { replace: true });
+
+  useEffect(() => { if (debounced !== q) setParam('q', debounced); }, [debounced]);
+  // Outside changes to ?q= (e.g. the top search bar) replace what is typed
+  useEffect(() => { if (q !== debounced) setInput(q); }, [q]);
+
+  const load = async (pageNo: number, signal?: AbortSignal) => {
+    setLoading(true); setError(null);
+    try {
+      const res = await fetchBooksPage({ q, theme, author, sort, page: pageNo, pageSize: PAGE_SIZE }, signalsRef.current, signal);
+      setItems((prev) => (pageNo === 1 ? res.items : [...prev, ...res.items.filter((b) => !prev.some((p) => p.id === b.id))]));
+      setPage(pageNo); setTotal(res.total); setHasMore(res.hasMore);
+      // Facets from paged backends may only describe the current page; keep the union
+      setFacets((f) => (pageNo === 1 ? res.facets : {
+        themes: Array.from(new Set([...f.themes, ...res.facets.themes])).sort(),
+        authors: Array.from(new Set([...f.authors, ...res.facets.authors])).sort(),
+      }));
+    } catch (err) {
+      if ((err as any)?.name === 'AbortError') return;
+      console.error('Failed to load library', err);
+      Sentry.captureException(err);
+      setError(err instanceof ApiError && err.kind === 'invalid' ? `${t('library.error')} ${err.message}` : `${t('library.error')} ${t('library.error.retry')}`);
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    load(1, ctrl.signal);
+    return () => ctrl.abort();
+  }, [q, theme, author, sort]);
+
+  // Infinite scroll: fetch the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const el = sentinel.current;
+    if (!el || !hasMore || loading || typeof IntersectionObserver === 'undefined') return;
+    const io = new IntersectionObserver((entries) => { if (entries[0]?.isIntersecting) load(page + 1); }, { rootMargin: '400px' });
+    io.observe(el);
+    return () => io.disconnect();
+  }, [hasMore, loading, page]);
+
+  const selectClass = "rounded-2xl px-3 py-2 text-sm bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+  return (
+    <section className="mx-auto max-w-6xl px-4 py-10">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Library className="h-5 w-5 opacity-80"/>
+        <h1 className="text-2xl font-semibold">{t('nav.library')}</h1>
+        <span className="text-sm opacity-60">{tn('library.count', total)}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 opacity-70"/>
+          <Input placeholder={t('library.search')} className="ps-9" value={input} onChange={(e)=>setInput(e.target.value)} />
+        </div>
+        <select aria-label={t('library.author')} className={selectClass} value={author} onChange={(e)=>setParam('author', e.target.value)}>
+          <option value="">{t('library.authors.all')}</option>
+          {facets.authors.map((a) => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select aria-label={t('library.sort')} className={selectClass} value={sort} onChange={(e)=>setParam('sort', e.target.value === 'title' ? '' : e.target.value)}>
+          {(Object.keys(SORT_LABELS) as LibrarySort[]).map((k) => <option key={k} value={k}>{t(SORT_LABELS[k])}</option>)}
+        </select>
+      </div>
+      {facets.themes.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {['', ...facets.themes].map((th) => (
+            <button key={th || 'all'} onClick={()=>setParam('theme', th)}
+              className={`text-xs rounded-full px-3 py-1 border transition ${theme===th ? 'bg-white/20 border-white/20' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>{th || t('library.themes.all')}</button>
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 rounded-2xl border border-rose-400/20 bg-rose-500/10 px-4 py-2 text-sm flex items-center justify-between gap-2">
+          <span>{error}</span>
+          <Button className="text-xs" onClick={()=>{ clearBookCache(); load(items.length ? page + 1 : 1); }}><RotateCcw className="h-3 w-3"/> {t('common.retry')}</Button>
+        </div>
+      )}
+      {items.length ? (
+        <div className="grid gap-5 sm:grid-cols-2 lg:grid-cols-3">
+          {items.map((b) => <BookCard key={b.id} book={b} onClick={()=>navigate(`/books/${b.id}`)}/>)}
+        </div>
+      ) : !loading && !error && (
+        <div className="opacity-70 text-sm">{t('library.empty')}</div>
+      )}
+      <div ref={sentinel}/>
+      {loading && <div className="mt-6 text-sm opacity-70">{t('common.loading')}</div>}
+      {hasMore && !loading && (
+        <div className="mt-6 flex justify-center"><Button className="text-sm" onClick={()=>load(page + 1)}>{t('library.more')}</Button></div>
+      )}
+    </section>
+  );
+};
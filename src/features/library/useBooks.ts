@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import * as Sentry from '@sentry/react';
+import type { Book } from '../../types';
+import { api, ApiError } from '../../lib/api';
+import { isOnline } from '../../lib/useOnline';
+import { t } from '../../lib/i18n';
+
+/** The home page's catalog: the first page of `GET /books`, with an error and a Retry */
+export function useBooks() {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by Retry
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    setError(null);
+    api.books(undefined, ctrl.signal)
+      // Paged backends wrap the list; the home page only needs the first page
+      .then((data) => setBooks(Array.isArray(data) ? data : data.items))
+      .catch((err) => {
+        if (ctrl.signal.aborted) return;
+        setError(err instanceof ApiError ? err.message : t('library.error.books'));
+        // Offline without a cached copy from the service worker: nothing to report
+        if (!isOnline()) return console.warn('Books unavailable offline', err);
+        console.error('Failed to load books', err);
+        Sentry.captureException(err);
+      });
+    return () => ctrl.abort();
+  }, [attempt]);
+
+  return { books, error, retry: () => setAttempt((n) => n + 1) };
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Bell, ChevronLeft, ListChecks, Trash2 } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book } from '../../types';
+import { Badge, Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { plans, usePlans, planProgress, planDayIndex, type Plan } from '../../lib/plans';
+import { parseDayKey } from '../../lib/activity';
+import { requestReminderPermission, remindersSupported } from '../../lib/reminders';
+import { useI18n } from '../../lib/i18n';
+
+// --- Plans: progress row (journal drawer) and the /plans/:id checklist
+const ProgressBar = ({ done, total }: { done: number; total: number }) => {
+  const { t } = useI18n();
+  return (
+    <div className="h-1.5 rounded-full bg-white/10 overflow-hidden" role="progressbar" aria-label={t('plan.progress', { done, total })}
+      aria-valuemin={0} aria-valuemax={total} aria-valuenow={done}>
+      <div className="h-full bg-emerald-400/80 transition-all" style={{ width: `${total ? (done / total) * 100 : 0}%` }}/>
+    </div>
+  );
+};
+
+export const PlanLink = ({ plan, bookTitle }: { plan: Plan; bookTitle: string }) => {
+  const { t, formatNumber } = useI18n();
+  const { done, total } = planProgress(plan);
+  const day = planDayIndex(plan);
+  return (
+    <Link to={`/plans/${plan.id}`} className="block rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate">{plan.title}</span>
+        <span className="text-xs opacity-70 shrink-0">{formatNumber(done)}/{formatNumber(total)}</span>
+      </div>
+      <div className="text-xs opacity-60 mb-2">{bookTitle}{day >= 0 && day < plan.days.length ? ` · ${t('plan.dayOf', { day: day + 1, days: plan.days.length })}` : ''}</div>
+      <ProgressBar done={done} total={total}/>
+    </Link>
+  );
+};
+
+export const PlanPage = ({ books }: { books: Book[] }) => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { t, formatDate, formatNumber } = useI18n();
+  const plan = usePlans().find((p) => p.id === id);
+  const [notice, setNotice] = useState<string | null>(null);
+  if (!plan) {
+    return (
+      <section className="mx-auto max-w-3xl px-4 py-10 text-sm opacity-80">
+        {t('plan.missing')} <Link to="/journal" className="underline">{t('plan.openJournal')}</Link>
+      </section>
+    );
+  }
+  const { done, total } = planProgress(plan);
+  const today = planDayIndex(plan);
+  const book = books.find((b) => b.id === plan.bookId);
+  const reminder = plan.reminder ?? { enabled: false, time: '09:00' };
+
+  const toggleReminder = async () => {
+    if (reminder.enabled) return plans.setReminder(plan.id, { ...reminder, enabled: false });
+    if (!(await requestReminderPermission())) {
+      return setNotice(remindersSupported() ? t('plan.reminder.blocked') : t('plan.reminder.unsupported'));
+    }
+    setNotice(null);
+    plans.setReminder(plan.id, { ...reminder, enabled: true });
+    posthog.capture('plan_reminder_on', { bookId: plan.bookId });
+  };
+
+  return (
+    <section className="mx-auto max-w-3xl px-4 py-8 space-y-4">
+      <Link to="/journal" className="inline-flex items-center gap-1 text-sm opacity-70 hover:opacity-100"><ChevronLeft className="h-4 w-4 rtl:rotate-180"/> {t('nav.journal')}</Link>
+      <div>
+        <h1 className="text-2xl font-semibold flex items-center gap-2"><ListChecks className="h-5 w-5 opacity-80"/> {plan.title}</h1>
+        <div className="text-sm opacity-70 mt-1">{book?.title ?? t('book.fallback')} · {t('plan.started', { date: formatDate(parseDayKey(plan.startDate)) })}</div>
+      </div>
+      <Card>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span>{done === total ? t('plan.complete') : t('plan.progress', { done, total })}</span>
+            <span className="opacity-70">{formatNumber(total ? done / total : 0, { style: 'percent' })}</span>
+          </div>
+          <ProgressBar done={done} total={total}/>
+          <div className="flex flex-wrap items-center gap-2 text-sm pt-1">
+            <Button className={`text-xs ${reminder.enabled ? 'bg-sky-500/20 border-sky-400/30' : ''}`} onClick={toggleReminder} aria-pressed={reminder.enabled}>
+              <Bell className="h-3 w-3"/> {reminder.enabled ? t('plan.reminder.on') : t('plan.reminder.off')}
+            </Button>
+            <input type="time" aria-label={t('plan.reminder.time')} value={reminder.time}
+              className="rounded-xl px-2 py-1 text-xs bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30"
+              onChange={(e)=>e.target.value && plans.setReminder(plan.id, { ...reminder, time: e.target.value })}/>
+            <Button className="text-xs ms-auto" onClick={()=>{ if (confirm(t('plan.delete.confirm'))) { plans.remove(plan.id); navigate('/journal'); } }}><Trash2 className="h-3 w-3"/> {t('common.delete')}</Button>
+          </div>
+          {notice && <div className="text-xs text-amber-200">{notice}</div>}
+        </CardContent>
+      </Card>
+      {plan.days.map((d, i) => (
+        <Card key={i} className={i === today ? 'border-sky-400/40' : ''}>
+          <CardHeader className="flex items-center justify-between">
+            <div className="font-semibold text-sm">{t('plan.day', { day: i + 1 })}{d.title ? ` · ${d.title}` : ''}</div>
+            {i === today && <Badge className="bg-sky-500/15 border-sky-400/20 text-sky-200">{t('plan.today')}</Badge>}
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {d.tasks.map((task) => (
+              <label key={task.id} className="flex items-start gap-3 text-sm cursor-pointer">
+                <input type="checkbox" className="mt-1 accent-emerald-400" checked={task.done}
+                  onChange={()=>{ plans.toggleTask(plan.id, task.id); if (!task.done) posthog.capture('plan_task_done', { bookId: plan.bookId, day: i + 1 }); }}/>
+                <span className={task.done ? 'line-through opacity-60' : ''}>{task.text}</span>
+              </label>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </section>
+  );
+};
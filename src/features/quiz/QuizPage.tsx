@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { AlertTriangle, Check, ChevronLeft, GraduationCap, RotateCcw, X } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book } from '../../types';
+import { Badge, Button, Card, CardContent, CardHeader, Textarea } from '../../components/ui';
+import { chapterLabel, fetchBookDetail } from '../../lib/library';
+import { fetchQuiz, gradeShortAnswer, quizResults, useQuizResults, weakTopicQuestion, type Quiz, type QuizResult } from '../../lib/quiz';
+import { isOnline } from '../../lib/useOnline';
+import { useI18n } from '../../lib/i18n';
+
+// --- /quiz/:bookId?chapters=a,b — a generated quiz with scoring, explanations and past results
+export const QuizPage = ({ books, onAsk }: { books: Book[]; onAsk: (b: Book, q: string, chapterIds?: string[]) => void }) => {
+  const { bookId = '' } = useParams();
+  const { t, tn, formatDate, formatNumber } = useI18n();
+  const [params] = useSearchParams();
+  const chapterIds = useMemo(() => (params.get('chapters') ?? '').split(',').filter(Boolean), [params]);
+  const [detail, setDetail] = useState<Book | null>(null);
+  const listed = books.find((b) => b.id === bookId);
+  const book = detail ? { ...listed, ...detail } : listed;
+  const past = useQuizResults().filter((r) => r.bookId === bookId).slice(-5).reverse();
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [failed, setFailed] = useState('');
+  const [attempt, setAttempt] = useState(0);
+  const [responses, setResponses] = useState<Record<string, number | string>>({});
+  // Short answers are auto-graded first; the reader can overrule after seeing the model answer
+  const [overrides, setOverrides] = useState<Record<string, boolean>>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    setQuiz(null); setFailed(''); setResponses({}); setOverrides({}); setResult(null);
+    fetchQuiz(bookId, chapterIds, ctrl.signal)
+      .then(setQuiz)
+      .catch((err) => {
+        if (ctrl.signal.aborted) return;
+        console.warn('Failed to load quiz', err);
+        setFailed(isOnline() ? t('quiz.failed') : t('quiz.offline'));
+      });
+    return () => ctrl.abort();
+  }, [bookId, chapterIds, attempt]);
+
+  // Title and chapter names for books outside the home page's first page
+  useEffect(() => {
+    const ctrl = new AbortController();
+    fetchBookDetail(bookId, ctrl.signal).then(setDetail).catch(() => {});
+    return () => ctrl.abort();
+  }, [bookId]);
+
+  const isRight = (q: Quiz['questions'][number]) =>
+    q.kind === 'mc' ? responses[q.id] === q.answer : overrides[q.id] ?? gradeShortAnswer(String(responses[q.id] ?? ''), q);
+  const grade = (qz: Quiz) => {
+    const topic = (q: Quiz['questions'][number]) => q.topic ?? q.prompt;
+    const right = qz.questions.filter(isRight);
+    return { score: right.length, total: qz.questions.length, correct: right.map(topic), missed: qz.questions.filter((q) => !isRight(q)).map(topic) };
+  };
+
+  const submit = () => {
+    if (!quiz) return;
+    const graded = grade(quiz);
+    setResult(quizResults.add({ quizId: quiz.id, bookId, ...(chapterIds.length ? { chapterIds } : {}), ...graded }));
+    posthog.capture('quiz_completed', { bookId, score: graded.score, total: graded.total, chapters: chapterIds.length });
+  };
+
+  // Overruling a short answer re-scores the saved result
+  useEffect(() => {
+    if (quiz && result) quizResults.update(result.id, grade(quiz));
+  }, [overrides]);
+
+  const answered = quiz ? quiz.questions.filter((q) => q.kind === 'mc' ? typeof responses[q.id] === 'number' : String(responses[q.id] ?? '').trim()).length : 0;
+  const score = quiz && result ? quiz.questions.filter(isRight).length : 0;
+  const scopeLabel = book?.chapters?.length && chapterIds.length
+    ? chapterIds.map((id) => { const i = book.chapters!.findIndex((c) => c.id === id); return i >= 0 ? chapterLabel(book.chapters![i], i) : id; }).join(', ')
+    : t('chapters.whole');
+
+  return (
+    <section className="mx-auto max-w-3xl px-4 py-8 space-y-4">
+      <Link to={book ? `/books/${book.id}` : '/books'} className="inline-flex items-center gap-1 text-sm opacity-70 hover:opacity-100"><ChevronLeft className="h-4 w-4 rtl:rotate-180"/> {book?.title ?? t('nav.library')}</Link>
+      <div className="flex flex-wrap items-center gap-2">
+        <GraduationCap className="h-5 w-5 opacity-80"/>
+        <h1 className="text-2xl font-semibold">{book ? t('quiz.title.book', { title: book.title }) : t('quiz.title')}</h1>
+        <Badge>{scopeLabel}</Badge>
+      </div>
+
+      {failed ? (
+        <Card><CardContent className="text-sm flex items-center gap-3"><AlertTriangle className="h-4 w-4"/> {failed} <Button className="text-xs ms-auto" onClick={()=>setAttempt((n) => n + 1)}><RotateCcw className="h-3 w-3"/> {t('quiz.retry')}</Button></CardContent></Card>
+      ) : !quiz ? (
+        <Card><CardContent className="text-sm opacity-70">{t('quiz.loading')}</CardContent></Card>
+      ) : (
+        <>
+          {result && (
+            <Card>
+              <CardContent className="flex flex-wrap items-center gap-3">
+                <div className="text-2xl font-semibold">{t('quiz.score', { score, total: quiz.questions.length })}</div>
+                <div className="text-sm opacity-80">{score === quiz.questions.length ? t('quiz.perfect') : t('quiz.missed')}</div>
+                <Button className="text-xs ms-auto" onClick={()=>setAttempt((n) => n + 1)}><RotateCcw className="h-3 w-3"/> {t('quiz.new')}</Button>
+              </CardContent>
+            </Card>
+          )}
+          {quiz.questions.map((q, i) => {
+            const right = result ? isRight(q) : undefined;
+            return (
+              <Card key={q.id} className={right === undefined ? '' : right ? 'border-emerald-400/30' : 'border-rose-400/30'}>
+                <CardContent className="space-y-3">
+                  <div className="flex items-start gap-2">
+                    <span className="opacity-60">{formatNumber(i + 1)}.</span>
+                    <div className="font-medium flex-1">{q.prompt}</div>
+                    {right !== undefined && (right ? <Check className="h-4 w-4 text-emerald-300"/> : <X className="h-4 w-4 text-rose-300"/>)}
+                  </div>
+                  {q.kind === 'mc' ? (
+                    <div className="grid gap-2">
+                      {q.options.map((o, oi) => {
+                        const picked = responses[q.id] === oi;
+                        const tone = !result ? (picked ? 'bg-white/20 border-white/20' : 'bg-white/5 border-white/10 hover:bg-white/10')
+                          : oi === q.answer ? 'bg-emerald-500/15 border-emerald-400/30' : picked ? 'bg-rose-500/15 border-rose-400/30' : 'bg-white/5 border-white/10 opacity-70';
+                        return (
+                          <label key={oi} className={`flex items-center gap-2 rounded-xl px-3 py-2 text-sm border transition ${result ? '' : 'cursor-pointer'} ${tone}`}>
+                            <input type="radio" name={q.id} className="accent-sky-400" checked={picked} disabled={!!result}
+                              onChange={()=>setResponses((r) => ({ ...r, [q.id]: oi }))}/>
+                            {o}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <>
+                      <Textarea aria-label={t('quiz.answer.label', { n: i + 1 })} rows={2} placeholder={t('quiz.answer.placeholder')} value={String(responses[q.id] ?? '')} disabled={!!result}
+                        onChange={(e)=>setResponses((r) => ({ ...r, [q.id]: e.target.value }))}/>
+                      {result && (
+                        <div className="text-sm">
+                          <div><span className="opacity-70">{t('quiz.model')}</span> {q.answer}</div>
+                          <button onClick={()=>setOverrides((o) => ({ ...o, [q.id]: !right }))} className="mt-2 text-xs rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10">
+                            {right ? t('quiz.override.wrong') : t('quiz.override.right')}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {result && q.explanation && <div className="text-sm opacity-80 border-t border-white/10 pt-3">{q.explanation}</div>}
+                  {result && !right && book && (
+                    <button onClick={()=>onAsk(book, weakTopicQuestion(q.topic ?? q.prompt), chapterIds)} className="text-xs rounded-full px-3 py-1 border bg-white/5 border-white/10 hover:bg-white/10">
+                      {t('quiz.ask')}
+                    </button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+          {!result && (
+            <div className="flex items-center gap-3">
+              <Button className="bg-white/20" onClick={submit} disabled={!answered}>{t('quiz.check')}</Button>
+              <span className="text-xs opacity-70">{t('quiz.answered', { answered, total: quiz.questions.length })}</span>
+            </div>
+          )}
+        </>
+      )}
+
+      {past.length > 0 && (
+        <Card>
+          <CardHeader className="text-sm font-semibold">{t('quiz.recent')}</CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {past.map((r) => (
+              <div key={r.id} className="flex items-center justify-between">
+                <span className="opacity-70">{formatDate(r.ts)}{r.chapterIds?.length ? ` · ${tn('chapters.count', r.chapterIds.length)}` : ''}</span>
+                <span>{t('quiz.score', { score: r.score, total: r.total })}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,11 @@
+import { expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { axe } from 'vitest-axe';
+import { ReadingSettingsPanel } from './ReadingSettingsPanel';
+
+it('labels every setting and has no axe violations', async () => {
+  const { container } = render(<ReadingSettingsPanel open onClose={vi.fn()}/>);
+  expect(screen.getByRole('combobox', { name: /Interface language/ })).toBeTruthy();
+  expect(screen.getByRole('checkbox', { name: /dyslexia/i })).toBeTruthy();
+  expect(await axe(container)).toHaveNoViolations();
+});
@@ -0,0 +1,103 @@
+import { useId, type ReactNode } from 'react';
+import { ALargeSmall, Languages, Monitor, Moon, Sun, X } from 'lucide-react';
+import posthog from 'posthog-js';
+import { Button } from '../../components/ui';
+import { Dialog } from '../../components/Dialog';
+import { FONT_SIZES, LINE_HEIGHTS, readingSettings, useReadingSettings, type ReadingSettings, type ThemeChoice } from '../../lib/reading';
+import { ANSWER_LANGUAGES, LOCALES, language, languageName, useI18n, useLanguage, type LanguageSettings, type Locale, type MessageKey } from '../../lib/i18n';
+
+const THEMES: { value: ThemeChoice; label: MessageKey; icon: typeof Sun }[] = [
+  { value: 'system', label: 'reading.theme.system', icon: Monitor },
+  { value: 'light', label: 'reading.theme.light', icon: Sun },
+  { value: 'dark', label: 'reading.theme.dark', icon: Moon },
+];
+
+const change = (patch: Partial<Omit<ReadingSettings, 'updatedAt'>>) => {
+  readingSettings.set(patch);
+  posthog.capture('reading_settings_changed', patch);
+};
+
+const changeLanguage = (patch: Partial<LanguageSettings>) => {
+  language.set(patch);
+  posthog.capture('language_changed', patch);
+};
+
+// One row of mutually exclusive choices (theme, size, spacing)
+const Choices = <T,>({ label, options, value, onPick }: {
+  label: string;
+  options: { value: T; label: ReactNode; name?: string }[];
+  value: T;
+  onPick: (v: T) => void;
+}) => {
+  const id = useId();
+  return (
+    <div>
+      <div className="text-xs opacity-70 mb-2" id={id}>{label}</div>
+      <div role="radiogroup" aria-labelledby={id} className="flex flex-wrap gap-2">
+        {options.map((o) => (
+          <button key={String(o.value)} role="radio" aria-checked={o.value === value} aria-label={o.name} onClick={()=>onPick(o.value)}
+            className={`text-sm rounded-full px-3 py-1 border transition inline-flex items-center gap-1 ${o.value === value ? 'bg-white/20 border-white/20' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// --- Reading settings: theme, answer size and spacing, dyslexia-friendly font, with a live preview,
+// and the interface and answer languages
+export const ReadingSettingsPanel = ({ open, onClose }: { open: boolean; onClose: () => void }) => {
+  const s = useReadingSettings();
+  const lang = useLanguage();
+  const { t } = useI18n();
+  const localeId = useId();
+  const answerId = useId();
+  const select = "w-full rounded-xl px-2 py-1.5 text-sm bg-white/5 border border-white/10 outline-none focus:ring-2 focus:ring-white/30";
+  return (
+    <Dialog open={open} onClose={onClose} label={t('reading.title')} className="max-w-lg space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold flex items-center gap-2"><ALargeSmall className="h-4 w-4"/> {t('reading.title')}</h2>
+        <button aria-label={t('common.close')} onClick={onClose} className="opacity-70 hover:opacity-100"><X className="h-4 w-4"/></button>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label htmlFor={localeId} className="text-xs opacity-70 mb-2 flex items-center gap-1"><Languages className="h-3 w-3"/> {t('language.interface')}</label>
+          <select id={localeId} className={select} value={lang.locale} onChange={(e)=>changeLanguage({ locale: e.target.value as Locale })}>
+            {(Object.keys(LOCALES) as Locale[]).map((l) => <option key={l} value={l} lang={l}>{LOCALES[l].label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={answerId} className="text-xs opacity-70 mb-2 block">{t('language.answers')}</label>
+          <select id={answerId} className={select} value={lang.answerLanguage} onChange={(e)=>changeLanguage({ answerLanguage: e.target.value })}>
+            <option value="auto">{t('language.answers.auto')}</option>
+            {ANSWER_LANGUAGES.map((l) => <option key={l} value={l}>{languageName(l)}</option>)}
+          </select>
+        </div>
+      </div>
+      <Choices label={t('reading.theme')} value={s.theme} onPick={(theme)=>change({ theme })}
+        options={THEMES.map(({ value, label, icon: Icon }) => ({ value, label: <><Icon className="h-4 w-4"/> {t(label)}</> }))}/>
+      <Choices label={t('reading.size')} value={s.fontSize} onPick={(fontSize)=>change({ fontSize })}
+        options={FONT_SIZES.map((px) => ({ value: px, name: t('reading.size.px', { px }), label: <span style={{ fontSize: px }}>A</span> }))}/>
+      <Choices label={t('reading.spacing')} value={s.lineHeight} onPick={(lineHeight)=>change({ lineHeight })}
+        options={LINE_HEIGHTS.map((l) => ({ value: l.value, label: t(l.label) }))}/>
+      <label className="flex items-start gap-3 text-sm cursor-pointer">
+        <input type="checkbox" checked={s.dyslexicFont} onChange={(e)=>change({ dyslexicFont: e.target.checked })} className="mt-1 accent-sky-400"/>
+        <span>
+          {t('reading.dyslexic')}
+          <span className="block text-xs opacity-70">{t('reading.dyslexic.hint')}</span>
+        </span>
+      </label>
+      <div>
+        <div className="text-xs opacity-70 mb-2">{t('reading.preview')}</div>
+        <div className="reading rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+          {t('reading.preview.text')}
+        </div>
+      </div>
+      <div className="flex items-center justify-between text-xs opacity-80">
+        <span>{t('reading.saved')}</span>
+        <Button className="text-xs" onClick={()=>{ readingSettings.reset(); posthog.capture('reading_settings_reset'); }}>{t('reading.reset')}</Button>
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,55 @@
+import { BookOpen, Minus, Plus, X } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { ChatMsg, Citation } from '../../types';
+import { AnswerText, CitationList } from '../../components/AnswerText';
+import { ListenControl } from '../../components/voice';
+import { FONT_SIZES, readingSettings, useReadingSettings } from '../../lib/reading';
+import { useFocusTrap } from '../../lib/useFocusTrap';
+import { useI18n } from '../../lib/i18n';
+
+// --- Focused reading view: one answer, full screen, at a comfortable measure
+export type ReadingDraft = {
+  bookTitle: string;
+  question?: string;
+  text: string;
+  citations?: Citation[];
+  /** Scope for citation anchors, so they don't clash with the same answer behind the overlay */
+  scope: string;
+  /** Chat answers can be read aloud; journal entries can't */
+  msg?: ChatMsg;
+};
+
+export const ReadingView = ({ draft, onClose }: { draft: ReadingDraft | null; onClose: () => void }) => {
+  const { t } = useI18n();
+  const trap = useFocusTrap<HTMLDivElement>(!!draft, onClose);
+  const { fontSize } = useReadingSettings();
+  if (!draft) return null;
+
+  const i = FONT_SIZES.indexOf(fontSize);
+  const resize = (step: number) => {
+    const next = FONT_SIZES[Math.min(FONT_SIZES.length - 1, Math.max(0, i + step))];
+    readingSettings.set({ fontSize: next });
+    posthog.capture('reading_settings_changed', { fontSize: next, from: 'reading_view' });
+  };
+  const control = "rounded-xl p-2 border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <div {...trap} role="dialog" aria-modal="true" aria-labelledby="reading-view-title"
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950 text-slate-100 outline-none">
+      <div className="sticky top-0 border-b border-white/10 bg-slate-950/90 backdrop-blur">
+        <div className="mx-auto max-w-3xl px-4 py-3 flex items-center gap-2">
+          <div className="me-auto text-sm opacity-80 flex items-center gap-2 min-w-0"><BookOpen className="h-4 w-4 shrink-0"/> <span className="truncate">{draft.bookTitle}</span></div>
+          <button aria-label={t('reading.smaller')} onClick={()=>resize(-1)} disabled={i <= 0} className={control}><Minus className="h-4 w-4"/></button>
+          <button aria-label={t('reading.larger')} onClick={()=>resize(1)} disabled={i >= FONT_SIZES.length - 1} className={control}><Plus className="h-4 w-4"/></button>
+          <button aria-label={t('reading.close')} onClick={onClose} className={control}><X className="h-4 w-4"/></button>
+        </div>
+      </div>
+      <article className="mx-auto max-w-[68ch] px-5 py-10">
+        <h2 id="reading-view-title" className="reading-font text-xl font-semibold leading-snug mb-6">{draft.question ?? draft.bookTitle}</h2>
+        <AnswerText text={draft.text} scope={draft.scope} citations={draft.citations} className="reading"/>
+        <CitationList scope={draft.scope} citations={draft.citations}/>
+        {draft.msg && <ListenControl msg={draft.msg}/>}
+      </article>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, Brain, PartyPopper } from 'lucide-react';
+import type { Book } from '../../types';
+import { Button, Card, CardContent, CardHeader } from '../../components/ui';
+import { AnswerText } from '../../components/AnswerText';
+import { journal, useJournal } from '../../lib/journal';
+import { srs, dueCards, type Flashcard, type Grade } from '../../lib/srs';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+
+// --- /review: today's spaced-repetition session over journal flashcards
+// The queue is snapshotted when the session starts; "Again" sends a card to the back of it.
+const GRADES: { grade: Grade; label: MessageKey; className: string }[] = [
+  { grade: 1, label: 'review.again', className: 'bg-rose-500/15 border-rose-400/20' },
+  { grade: 3, label: 'review.hard', className: 'bg-amber-500/15 border-amber-400/20' },
+  { grade: 4, label: 'review.good', className: 'bg-emerald-500/15 border-emerald-400/20' },
+  { grade: 5, label: 'review.easy', className: 'bg-sky-500/15 border-sky-400/20' },
+];
+
+export const ReviewPage = ({ books, onComplete }: { books: Book[]; onComplete: (reviewed: number) => void }) => {
+  const { t, tn } = useI18n();
+  const entries = useJournal();
+  const [queue, setQueue] = useState<Flashcard[]>(() => dueCards(journal.getAll(), srs.getAll()));
+  const [total] = useState(queue.length);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const completed = useRef(false);
+  // Cards whose entry was deleted mid-session drop out
+  const card = queue.find((c) => entries.some((e) => e.id === c.entryId));
+  const titleOf = (id: string) => books.find((b) => b.id === id)?.title ?? t('book.fallback');
+
+  useEffect(() => {
+    if (card || !reviewed || completed.current) return;
+    completed.current = true;
+    onComplete(reviewed);
+  }, [card, reviewed]);
+
+  const grade = (g: Grade) => {
+    if (!card) return;
+    srs.grade(card.id, g);
+    setQueue((q) => {
+      const rest = q.filter((c) => c.id !== card.id);
+      return g === 1 ? [...rest, card] : rest;
+    });
+    if (g !== 1) setReviewed((n) => n + 1);
+    setRevealed(false);
+  };
+
+  return (
+    <section className="mx-auto max-w-2xl px-4 py-10">
+      <div className="flex items-center gap-2 mb-6">
+        <Brain className="h-5 w-5 opacity-80"/>
+        <h1 className="text-2xl font-semibold">{t('review.title')}</h1>
+        {total > 0 && <span className="text-sm opacity-60">{t('quiz.score', { score: Math.min(reviewed, total), total })}</span>}
+      </div>
+      {!card ? (
+        <Card>
+          <CardContent className="text-center py-10">
+            {reviewed ? (
+              <>
+                <PartyPopper className="h-8 w-8 mx-auto opacity-80"/>
+                <div className="mt-3 font-semibold">{tn('review.complete', reviewed)}</div>
+                <div className="mt-1 text-sm opacity-70">{t('review.goal')}</div>
+              </>
+            ) : (
+              <div className="text-sm opacity-80">
+                {entries.length ? t('review.none') : t('review.empty')}
+              </div>
+            )}
+            <Link to="/" className="inline-block mt-5 text-sm underline opacity-80">{t('review.back')}</Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between text-xs opacity-70">
+              <span className="flex items-center gap-1"><BookOpen className="h-3 w-3"/> {titleOf(card.bookId)}</span>
+              <span>{card.kind === 'cloze' ? t('review.cloze') : t('journal.question')}</span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {card.kind === 'cloze' ? (
+              <>
+                <div className="text-xs opacity-70 mb-2">{card.context}</div>
+                <AnswerText text={card.front} scope={`review-${card.id}`} className="text-sm leading-6"/>
+              </>
+            ) : (
+              <div className="text-lg font-medium">{card.front}</div>
+            )}
+            {revealed ? (
+              <div className="mt-4 pt-4 border-t border-white/10">
+                {card.kind === 'cloze'
+                  ? <div className="text-lg font-semibold text-sky-200">{card.back}</div>
+                  : <AnswerText text={card.back} scope={`review-${card.id}`} className="text-sm leading-6"/>}
+                <div className="mt-5 grid grid-cols-4 gap-2">
+                  {GRADES.map((g) => (
+                    <Button key={g.grade} className={`justify-center text-sm ${g.className}`} onClick={()=>grade(g.grade)}>{t(g.label)}</Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="mt-6 flex justify-center">
+                <Button className="bg-white/20" onClick={()=>setRevealed(true)}>{t('review.show')}</Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,34 @@
+import { afterEach, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { readingSettings } from '../../lib/reading';
+import { ShareComposer, type ShareDraft } from './ShareComposer';
+
+const draft: ShareDraft = {
+  book: { id: 'deep-work', title: 'Deep Work', author: 'Cal Newport' },
+  question: 'Make a plan',
+  text: 'Your week:\n\n- [ ] Block two hours each morning\n- [ ] Turn off **notifications**',
+};
+
+afterEach(() => act(() => readingSettings.reset()));
+
+const squareBody = () => {
+  fireEvent.click(screen.getByRole('button', { name: 'Square' }));
+  // The preview and the full-size capture both render the card
+  return Array.from(document.querySelectorAll<HTMLElement>('.markdown')).map((el) => el.parentElement!);
+};
+
+it('renders the answer as markdown on the card', () => {
+  render(<ShareComposer draft={draft} onClose={vi.fn()}/>);
+  const [body] = squareBody();
+  expect(body.querySelectorAll('li.task-list-item input[type="checkbox"]')).toHaveLength(2);
+  expect(body.querySelector('strong')?.textContent).toBe('notifications');
+  expect(body.style).toMatchObject({ fontSize: '36px', lineHeight: '1.4' });
+});
+
+it('scales the card text with the reading size and spacing', () => {
+  act(() => readingSettings.set({ fontSize: 21, lineHeight: 2 }));
+  render(<ShareComposer draft={draft} onClose={vi.fn()}/>);
+  const [body] = squareBody();
+  expect(body.style.fontSize).toBe('54px');
+  expect(Number(body.style.lineHeight)).toBeCloseTo(1.6);
+});
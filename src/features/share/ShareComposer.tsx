@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Share2, X } from 'lucide-react';
+import posthog from 'posthog-js';
+import type { Book } from '../../types';
+import { Button } from '../../components/ui';
+import { Dialog } from '../../components/Dialog';
+import { AnswerText } from '../../components/AnswerText';
+import { isAbortError } from '../../lib/sse';
+import { DEFAULT_READING, useReadingSettings } from '../../lib/reading';
+import { useI18n } from '../../lib/i18n';
+import { SHARE_TEMPLATES, bulletsFrom, excerpt, plainText, renderPng, sharePng, canShareFiles, type ShareTemplate } from '../../lib/shareCard';
+
+// --- Share cards: one component per PNG, sized by template (CSS px = image px)
+// They follow the reading theme, text size and spacing and, when it's on, the dyslexia-friendly font (`.reading-font`).
+// Story and square cards show the answer as markdown, cut to whole blocks that fit the card.
+export type ShareDraft = { book: Book; question?: string; text: string };
+
+const ShareCard = ({ template, book, question, text, highlight }: ShareDraft & { template: ShareTemplate; highlight?: string }) => {
+  const { width, height } = SHARE_TEMPLATES[template];
+  const { dyslexicFont, fontSize, lineHeight } = useReadingSettings();
+  // Card sizes are designed for the default reading settings and scale with them; bigger or
+  // looser text gets fewer characters so it still fits
+  const scale = fontSize / DEFAULT_READING.fontSize;
+  const spacing = lineHeight / DEFAULT_READING.lineHeight;
+  const bodyStyle = (size: number, leading: number) => ({ fontSize: Math.round(size * scale), lineHeight: leading * spacing });
+  const fit = (max: number) => Math.round(max / (scale * scale * spacing));
+  const { t, formatNumber } = useI18n();
+  const source = highlight || text;
+  const cover = book.cover && (
+    <img src={book.cover} alt={t('book.cover', { title: book.title })} crossOrigin="anonymous"
+      className={`rounded-2xl object-cover shadow-lg ${template === 'story' ? 'w-full h-[620px]' : 'h-[150px] w-[100px]'}`}/>
+  );
+  const header = (
+    <div className="flex items-center gap-6">
+      {template !== 'story' && cover}
+      <div className="min-w-0">
+        <div style={{ fontSize: 40, lineHeight: 1.15 }} className="font-bold tracking-tight">{book.title}</div>
+        <div style={{ fontSize: 26 }} className="opacity-80 mt-1">{t('book.by', { author: book.author })}</div>
+      </div>
+    </div>
+  );
+  const quote = (max: number, size: number) => (
+    <div style={bodyStyle(size, 1.3)} className="font-medium">
+      <span className="opacity-50">“</span>{excerpt(source, fit(max))}<span className="opacity-50">”</span>
+    </div>
+  );
+  const body = (max: number, size: number, leading: number) => (
+    <div style={bodyStyle(size, leading)}>
+      <AnswerText text={source} scope="share" interactive={false} maxLength={fit(max)}/>
+    </div>
+  );
+  return (
+    <div style={{ width, height, padding: 72, ...(dyslexicFont ? {} : { fontFamily: 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica Neue, Arial' }) }}
+      className="reading-font relative overflow-hidden bg-slate-950 text-white flex flex-col gap-10">
+      <div className={`absolute inset-0 bg-gradient-to-br ${book.color ?? 'from-sky-500/30 to-indigo-500/20'}`}/>
+      <div className="relative flex-1 flex flex-col gap-10 min-h-0">
+        {template === 'story' && cover}
+        {header}
+        {question && template !== 'quote' && <div style={{ fontSize: 30 }} className="opacity-80">{question}</div>}
+        <div className="flex-1 min-h-0 flex flex-col justify-center">
+          {template === 'quote' && quote(240, 46)}
+          {template === 'story' && body(380, 50, 1.3)}
+          {template === 'square' && body(420, 36, 1.4)}
+          {template === 'bullets' && (
+            <ul className="space-y-6">
+              {bulletsFrom(source, 5, fit(140)).map((b, i) => (
+                <li key={i} style={bodyStyle(36, 1.3)} className="flex gap-5">
+                  <span className="shrink-0 h-12 w-12 rounded-full bg-white/15 grid place-items-center font-semibold" style={{ fontSize: 26 }}>{formatNumber(i + 1)}</span>
+                  <span>{b}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <div className="relative flex items-center justify-between opacity-80" style={{ fontSize: 24 }}>
+        <span>{t('share.title')}</span>
+        <span className="font-extrabold opacity-40">BookTalk</span>
+      </div>
+    </div>
+  );
+};
+
+// Template picker, passage highlighting and a scaled live preview; exports the full-size card
+export const ShareComposer = ({ draft, onClose }: { draft: ShareDraft | null; onClose: () => void }) => {
+  const { t, dir } = useI18n();
+  const [template, setTemplate] = useState<ShareTemplate>('quote');
+  const [highlight, setHighlight] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const sourceRef = useRef<HTMLDivElement | null>(null);
+  const captureRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => { setHighlight(''); setNotice(null); }, [draft]);
+  if (!draft) return null;
+
+  const spec = SHARE_TEMPLATES[template];
+  const previewWidth = 340;
+  const scale = previewWidth / spec.width;
+  const canShare = canShareFiles();
+
+  // Highlight = whatever the reader selected inside the answer text
+  const pickSelection = () => {
+    const sel = window.getSelection();
+    if (!sel || sel.isCollapsed || !sourceRef.current?.contains(sel.anchorNode)) return;
+    const text = sel.toString().replace(/\s+/g, ' ').trim();
+    if (text) setHighlight(text.slice(0, 600));
+  };
+
+  const exportCard = async () => {
+    if (!captureRef.current) return;
+    setBusy(true); setNotice(null);
+    try {
+      const blob = await renderPng(captureRef.current);
+      const slug = draft.book.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'book';
+      const via = await sharePng(blob, `${slug}-${template}.png`, { title: draft.book.title, text: t('share.text', { title: draft.book.title }) });
+      posthog.capture('share_card', { bookId: draft.book.id, template, highlighted: !!highlight, via });
+      if (via === 'downloaded') setNotice(t('share.saved'));
+    } catch (e) {
+      if (!isAbortError(e)) { console.warn('share failed', e); setNotice(t('share.failed')); }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} label={t('transcript.shareCard')} className="max-w-4xl grid gap-5 md:grid-cols-[minmax(0,1fr)_340px]">
+      <div className="space-y-4 min-w-0">
+        <div className="flex items-center justify-between">
+          <div className="font-semibold flex items-center gap-2"><Share2 className="h-4 w-4"/> {t('transcript.shareCard')}</div>
+          <button aria-label={t('common.close')} onClick={onClose} className="opacity-70 hover:opacity-100"><X className="h-4 w-4"/></button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(SHARE_TEMPLATES) as ShareTemplate[]).map((k) => (
+            <button key={k} onClick={()=>setTemplate(k)} aria-pressed={template === k}
+              className={`text-xs rounded-full px-3 py-1 border transition ${template === k ? 'bg-white/20 border-white/20' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}>
+              {t(SHARE_TEMPLATES[k].label)}
+            </button>
+          ))}
+        </div>
+        <div>
+          <div className="text-xs opacity-70 mb-1">{t('share.select')}</div>
+          <div ref={sourceRef} onMouseUp={pickSelection} onKeyUp={pickSelection} tabIndex={0}
+            className="reading max-h-64 overflow-y-auto rounded-2xl border border-white/10 bg-white/5 p-3 whitespace-pre-wrap select-text">
+            {plainText(draft.text)}
+          </div>
+        </div>
+        {highlight ? (
+          <div className="rounded-2xl border border-sky-400/20 bg-sky-500/10 p-3 text-sm">
+            <div className="flex items-center justify-between text-xs opacity-80 mb-1">
+              <span>{t('share.highlight')}</span>
+              <button onClick={()=>setHighlight('')} className="inline-flex items-center gap-1 hover:opacity-100"><X className="h-3 w-3"/> {t('common.clear')}</button>
+            </div>
+            “{highlight}”
+          </div>
+        ) : (
+          <div className="text-xs opacity-60">{t('share.noHighlight')}</div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button className="bg-white/20" onClick={exportCard} disabled={busy}>
+            {canShare ? <><Share2 className="h-4 w-4"/> {t('share.share')}</> : <><Download className="h-4 w-4"/> {t('share.download')}</>}
+          </Button>
+          {notice && <span role="status" className="text-xs opacity-80">{notice}</span>}
+        </div>
+      </div>
+      <div>
+        <div className="text-xs opacity-70 mb-1">{t('reading.preview')} · {spec.width}×{spec.height}</div>
+        <div className="rounded-2xl overflow-hidden border border-white/10" style={{ width: previewWidth, height: spec.height * scale }} aria-hidden>
+          <div style={{ transform: `scale(${scale})`, transformOrigin: dir === 'rtl' ? 'top right' : 'top left', width: spec.width }}>
+            <ShareCard template={template} highlight={highlight} {...draft}/>
+          </div>
+        </div>
+      </div>
+      {/* Full-size copy for rasterizing */}
+      <div className="fixed top-0 -left-[10000px]" aria-hidden>
+        <div ref={captureRef} style={{ width: spec.width, height: spec.height }}>
+          <ShareCard template={template} highlight={highlight} {...draft}/>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,41 @@
+import type { ChatMsg } from '../types';
+import { stripMarkdown } from './markdown';
+import { t } from './i18n';
+
+// --- Accessibility helpers: focus order, reduced motion and screen-reader announcements
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+/** Tabbable elements inside `root`, in DOM order, skipping hidden and inert ones */
+export const focusables = (root: HTMLElement): HTMLElement[] =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter((el) => !el.closest('[inert]') && el.getClientRects().length > 0);
+
+/** True when a keystroke belongs to a text field rather than to a page shortcut */
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  return el.isContentEditable || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT'
+    || (el.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit'].includes((el as HTMLInputElement).type));
+};
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+/** Smooth scrolling unless the OS asks for reduced motion; CSS can't override scrollIntoView's own option */
+export const scrollBehavior = (): ScrollBehavior => (prefersReducedMotion() ? 'auto' : 'smooth');
+
+/**
+ * What a screen reader should hear about an answer. Streaming chunks aren't announced one by one
+ * (that would be a flood of partial sentences); the full answer is read once it finishes.
+ */
+export function answerAnnouncement(msg: ChatMsg | undefined, speaker: string): string {
+  if (!msg || msg.role !== 'book') return '';
+  switch (msg.status) {
+    case 'streaming': return t('a11y.answering', { speaker });
+    case 'queued': return t('a11y.queued');
+    case 'stopped': return t('a11y.stopped', { speaker });
+    case 'error': return `${t('a11y.error', { speaker })} ${msg.error ?? ''}`.trim();
+    default: return msg.content ? t('a11y.answered', { speaker, text: stripMarkdown(msg.content).replace(/\[\d+\]/g, '') }) : '';
+  }
+}
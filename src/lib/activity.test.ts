@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { activity, applyFreezes, currentStreak, dayKey, dayTotal, DEFAULT_GOAL, heatmap, parseDayKey, record, type ActivityState } from './activity';
+import { addDays, dayLength, local, toDay, withTimeZone, ymd, ZONES, type Day } from '../test/timezones';
+
+const at = (y: number, m: number, d: number, h = 12) => new Date(y, m - 1, d, h).getTime();
+
+const blank = (): ActivityState => ({ days: {}, goal: DEFAULT_GOAL, freezes: 0, frozen: [], longest: 0 });
+
+/** `n` questions on each of the given local days */
+const ask = (s: ActivityState, days: number[], n = DEFAULT_GOAL.questions) =>
+  days.reduce((acc, ts) => Array.from({ length: n }).reduce<ActivityState>((a) => record(a, 'question', ts), acc), s);
+
+describe('record / currentStreak', () => {
+  it('counts a day once the goal is met', () => {
+    let s = record(blank(), 'question', at(2024, 5, 1));
+    expect(dayTotal(s, '2024-05-01')).toEqual({ questions: 1, reviews: 0 });
+    expect(currentStreak(s, at(2024, 5, 1))).toBe(0);
+    s = ask(s, [at(2024, 5, 1)], 2);
+    expect(currentStreak(s, at(2024, 5, 1))).toBe(1);
+    // One review meets the goal on its own
+    expect(currentStreak(record(blank(), 'review', at(2024, 5, 1)), at(2024, 5, 1))).toBe(1);
+  });
+
+  it('adds up the counts from each device', () => {
+    const s = record(record(record(blank(), 'question', at(2024, 5, 1), 'phone'), 'question', at(2024, 5, 1), 'phone'), 'question', at(2024, 5, 1), 'laptop');
+    expect(s.days['2024-05-01']).toEqual({ phone: { questions: 2, reviews: 0 }, laptop: { questions: 1, reviews: 0 } });
+    expect(dayTotal(s, '2024-05-01')).toEqual({ questions: 3, reviews: 0 });
+    expect(currentStreak(s, at(2024, 5, 1))).toBe(1);
+  });
+
+  it('keeps yesterday\'s streak while today is still open, and drops it after a missed day', () => {
+    const s = ask(blank(), [at(2024, 5, 1), at(2024, 5, 2), at(2024, 5, 3)]);
+    expect(currentStreak(s, at(2024, 5, 3))).toBe(3);
+    expect(currentStreak(s, at(2024, 5, 4, 22))).toBe(3);
+    expect(currentStreak(s, at(2024, 5, 5, 9))).toBe(0);
+  });
+
+  it('tracks the longest streak and earns a freeze every 7 goal days', () => {
+    const week = Array.from({ length: 7 }, (_, i) => at(2024, 5, 1 + i));
+    const s = ask(blank(), week);
+    expect(s.longest).toBe(7);
+    expect(s.freezes).toBe(1);
+  });
+
+  it('spends a freeze on a single missed day so the streak survives', () => {
+    const week = Array.from({ length: 7 }, (_, i) => at(2024, 5, 1 + i));
+    // May 8 is missed; asking on May 9 spends the freeze on it
+    const s = ask(ask(blank(), week), [at(2024, 5, 9)]);
+    expect(s.frozen).toEqual(['2024-05-08']);
+    expect(s.freezes).toBe(0);
+    expect(currentStreak(s, at(2024, 5, 9))).toBe(8);
+  });
+});
+
+describe('activity store', () => {
+  beforeEach(() => activity.replace(blank()));
+
+  it('records into localStorage and reports the summary before and after', () => {
+    const now = at(2024, 5, 1);
+    activity.record('question', now);
+    activity.record('question', now);
+    const { before, after } = activity.record('question', now);
+    expect(before).toMatchObject({ goalMet: false, current: 0 });
+    expect(after).toMatchObject({ goalMet: true, current: 1, today: { questions: 3, reviews: 0 } });
+    const saved = JSON.parse(localStorage.getItem('activity')!);
+    expect(dayTotal(saved, '2024-05-01')?.questions).toBe(3);
+    expect(saved.updatedAt).toBe(now);
+  });
+
+  it('applies a new daily goal', () => {
+    activity.setGoal({ questions: 1 });
+    expect(activity.record('question', at(2024, 5, 1)).after.goalMet).toBe(true);
+  });
+});
+
+// --- Local days across midnight and DST changes, in zones with daylight saving time
+
+describe.each(ZONES)('in $tz', ({ tz, short, long }) => {
+  withTimeZone(tz);
+
+  it('runs with 23- and 25-hour days', () => {
+    expect(dayLength(short)).toBe(23);
+    expect(dayLength(long)).toBe(25);
+  });
+
+  it('dayKey splits days at local midnight, even on the DST days', () => {
+    for (const day of [short, long]) {
+      expect(dayKey(local(day, 0, 0))).toBe(ymd(day));
+      expect(dayKey(local(day, 23, 59))).toBe(ymd(day));
+      expect(dayKey(local(day, 0, 0) - 1)).toBe(ymd(addDays(day, -1)));
+      expect(dayKey(local(addDays(day, 1), 0, 0))).toBe(ymd(addDays(day, 1)));
+    }
+    // 23.5 hours after midnight is still the same day on the long day, the next day on the short one
+    const halfPast = (day: Day) => local(day, 0, 0) + 23.5 * 3600000;
+    expect(dayKey(halfPast(long))).toBe(ymd(long));
+    expect(dayKey(halfPast(short))).toBe(ymd(addDays(short, 1)));
+  });
+
+  it('dayKey steps whole calendar days over the DST change', () => {
+    for (const day of [short, long]) {
+      const before = addDays(day, -1);
+      expect(dayKey(local(before, 0, 30), 1)).toBe(ymd(day));
+      expect(dayKey(local(before, 23, 30), 2)).toBe(ymd(addDays(day, 1)));
+      expect(dayKey(local(addDays(day, 1), 0, 30), -2)).toBe(ymd(before));
+      expect(parseDayKey(ymd(day)).getTime()).toBe(local(day, 0, 0));
+    }
+  });
+
+  it('keeps a streak running through both DST changes', () => {
+    for (const day of [short, long]) {
+      const days = [-2, -1, 0, 1, 2].map((n) => addDays(day, n));
+      // Late at night one day, just after midnight the next: each lands on its own local day
+      const s = ask(blank(), days.map((d, i) => local(d, i % 2 ? 0 : 23, i % 2 ? 5 : 55)));
+      expect(Object.keys(s.days).sort()).toEqual(days.map(ymd));
+      expect(currentStreak(s, local(days[4], 23, 59))).toBe(5);
+      expect(currentStreak(s, local(addDays(day, 3), 23, 59))).toBe(5);
+      expect(currentStreak(s, local(addDays(day, 4), 0, 1))).toBe(0);
+    }
+  });
+
+  it('applyFreezes covers a missed DST day with exactly one freeze', () => {
+    for (const day of [short, long]) {
+      const s = { ...ask(blank(), [local(addDays(day, -1), 20)]), freezes: 1 };
+      const next = applyFreezes(s, local(addDays(day, 1), 0, 10));
+      expect(next.frozen).toEqual([ymd(day)]);
+      expect(next.freezes).toBe(0);
+      // Two missed days (the DST day and the one after) need two freezes: nothing is spent
+      expect(applyFreezes(s, local(addDays(day, 2), 0, 10))).toBe(s);
+    }
+  });
+
+  it('heatmap lays out consecutive local days, Sunday first, through the DST week', () => {
+    for (const day of [short, long]) {
+      const now = local(addDays(day, 3), 9);
+      const s = ask(blank(), [local(day, 1)]);
+      const cols = heatmap(s, 3, now);
+      const keys = cols.flat().map((c) => c.key);
+      expect(new Set(keys).size).toBe(21);
+      keys.slice(1).forEach((k, i) => expect(k).toBe(ymd(addDays(toDay(keys[i]), 1))));
+      cols.forEach((col) => expect(parseDayKey(col[0].key).getDay()).toBe(0));
+      expect(keys).toContain(dayKey(now));
+      expect(cols.flat().find((c) => c.key === ymd(day))).toMatchObject({ met: true, count: 3, future: false });
+      expect(cols.flat().filter((c) => c.future).every((c) => c.key > dayKey(now))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,242 @@
+import { useSyncExternalStore } from 'react';
+import { deviceId } from './device';
+
+// --- Daily activity, goals and streaks
+// Activity is bucketed by *local* calendar day (YYYY-MM-DD in the reader's timezone) and
+// days are stepped with calendar arithmetic, never by adding 24h, so midnight and DST
+// changes land where the reader expects. Stored in localStorage under `activity`.
+// Each day keeps one count per device (`deviceId`) and reads use their sum, so a day's
+// questions on the phone and the laptop add up once synced.
+
+export type ActivityKind = 'question' | 'review';
+
+export type DayActivity = { questions: number; reviews: number };
+
+/** The day counts toward the streak when either target is reached */
+export type DailyGoal = { questions: number; reviews: number };
+
+export type ActivityState = {
+  /** Counts by local day, then by device */
+  days: Record<string, Record<string, DayActivity>>;
+  goal: DailyGoal;
+  /** Unused streak freezes; one is earned every FREEZE_EVERY goal days, up to MAX_FREEZES */
+  freezes: number;
+  /** Missed days covered by a freeze: they keep the streak alive without extending it */
+  frozen: string[];
+  longest: number;
+  /** Last local change, for sync */
+  updatedAt?: number;
+};
+
+export type ActivitySummary = {
+  today: DayActivity;
+  goal: DailyGoal;
+  goalMet: boolean;
+  current: number;
+  longest: number;
+  freezes: number;
+};
+
+export type HeatCell = { key: string; count: number; met: boolean; frozen: boolean; future: boolean };
+
+const KEY = 'activity';
+const KEEP_DAYS = 400;
+const FREEZE_EVERY = 7;
+export const MAX_FREEZES = 2;
+export const DEFAULT_GOAL: DailyGoal = { questions: 3, reviews: 1 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local calendar day of `ts`, shifted by `offset` days */
+export function dayKey(ts: number, offset = 0): string {
+  const d = new Date(ts);
+  const t = new Date(d.getFullYear(), d.getMonth(), d.getDate() + offset);
+  return `${t.getFullYear()}-${pad(t.getMonth() + 1)}-${pad(t.getDate())}`;
+}
+
+/** Local midnight at the start of a YYYY-MM-DD day */
+export function parseDayKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+const nextKey = (key: string, offset = 1) => dayKey(parseDayKey(key).getTime(), offset);
+
+const empty = (): DayActivity => ({ questions: 0, reviews: 0 });
+
+export const goalMet = (day: DayActivity | undefined, goal: DailyGoal) =>
+  !!day && (day.questions >= goal.questions || day.reviews >= goal.reviews);
+
+/** A day's counts summed over devices; undefined when nothing was recorded */
+export function dayTotal(s: ActivityState, key: string): DayActivity | undefined {
+  const devices = s.days[key];
+  if (!devices) return undefined;
+  return Object.values(devices).reduce((sum, d) => ({ questions: sum.questions + d.questions, reviews: sum.reviews + d.reviews }), empty());
+}
+
+/** Consecutive goal days ending today, or yesterday while today's goal is still open. Frozen days bridge gaps without counting. */
+export function currentStreak(s: ActivityState, now = Date.now()): number {
+  const frozen = new Set(s.frozen);
+  let key = dayKey(now);
+  if (!goalMet(dayTotal(s, key), s.goal)) key = nextKey(key, -1);
+  let count = 0;
+  for (;;) {
+    if (goalMet(dayTotal(s, key), s.goal)) count++;
+    else if (!frozen.has(key)) break;
+    key = nextKey(key, -1);
+  }
+  return count;
+}
+
+/**
+ * Spend freezes on the days missed since the last active day, up to yesterday. Freezes are
+ * only spent when they cover the whole gap; otherwise the streak is lost anyway and the
+ * reader keeps them for later.
+ */
+export function applyFreezes(s: ActivityState, now = Date.now()): ActivityState {
+  const today = dayKey(now);
+  const active = [...Object.keys(s.days).filter((k) => goalMet(dayTotal(s, k), s.goal)), ...s.frozen].filter((k) => k < today).sort();
+  const last = active[active.length - 1];
+  if (!last || !s.freezes) return s;
+  const gap: string[] = [];
+  for (let k = nextKey(last); k < today; k = nextKey(k)) gap.push(k);
+  if (!gap.length || gap.length > s.freezes) return s;
+  return { ...s, freezes: s.freezes - gap.length, frozen: [...s.frozen, ...gap] };
+}
+
+/** Today's progress and streak, as if pending freezes were already spent */
+export function summarize(raw: ActivityState, now = Date.now()): ActivitySummary {
+  const s = applyFreezes(raw, now);
+  const today = dayTotal(s, dayKey(now)) ?? empty();
+  const current = currentStreak(s, now);
+  return { today, goal: s.goal, goalMet: goalMet(today, s.goal), current, longest: Math.max(s.longest, current), freezes: s.freezes };
+}
+
+/** State after one question or review today on `device`; earns a freeze when the goal streak reaches a multiple of FREEZE_EVERY */
+export function record(s: ActivityState, kind: ActivityKind, now = Date.now(), device = deviceId()): ActivityState {
+  const base = applyFreezes(s, now);
+  const key = dayKey(now);
+  const before = dayTotal(base, key) ?? empty();
+  const mine = base.days[key]?.[device] ?? empty();
+  const counts = kind === 'question' ? { ...mine, questions: mine.questions + 1 } : { ...mine, reviews: mine.reviews + 1 };
+  const next = { ...base, days: { ...base.days, [key]: { ...base.days[key], [device]: counts } } };
+  const after = dayTotal(next, key)!;
+  if (goalMet(after, s.goal) && !goalMet(before, s.goal)) {
+    const current = currentStreak(next, now);
+    next.longest = Math.max(next.longest, current);
+    if (current % FREEZE_EVERY === 0) next.freezes = Math.min(MAX_FREEZES, next.freezes + 1);
+  }
+  return prune(next, now);
+}
+
+const prune = (s: ActivityState, now: number): ActivityState => {
+  const oldest = dayKey(now, -KEEP_DAYS);
+  if (!Object.keys(s.days).some((k) => k < oldest) && !s.frozen.some((k) => k < oldest)) return s;
+  return {
+    ...s,
+    days: Object.fromEntries(Object.entries(s.days).filter(([k]) => k >= oldest)),
+    frozen: s.frozen.filter((k) => k >= oldest),
+  };
+};
+
+/**
+ * Calendar grid for the heatmap: `weeks` columns of 7 local days (Sunday first), ending with
+ * the week that contains today. `count` is questions + reviews for the day.
+ */
+export function heatmap(raw: ActivityState, weeks = 17, now = Date.now()): HeatCell[][] {
+  const s = applyFreezes(raw, now);
+  const today = dayKey(now);
+  const frozen = new Set(s.frozen);
+  const start = dayKey(now, -(new Date(now).getDay() + (weeks - 1) * 7));
+  const cols: HeatCell[][] = [];
+  let key = start;
+  for (let w = 0; w < weeks; w++) {
+    const col: HeatCell[] = [];
+    for (let d = 0; d < 7; d++) {
+      const day = dayTotal(s, key);
+      col.push({ key, count: day ? day.questions + day.reviews : 0, met: goalMet(day, s.goal), frozen: frozen.has(key), future: key > today });
+      key = nextKey(key);
+    }
+    cols.push(col);
+  }
+  return cols;
+}
+
+// Before this module the streak was two UTC values (`streakCount`, `lastActiveDate`); carry
+// that run over as goal days so nobody loses their streak on upgrade.
+const migrateLegacy = (): ActivityState => {
+  const s: ActivityState = { days: {}, goal: DEFAULT_GOAL, freezes: 0, frozen: [], longest: 0 };
+  try {
+    const last = localStorage.getItem('lastActiveDate');
+    const count = parseInt(localStorage.getItem('streakCount') || '0') || 0;
+    if (!last || !/^\d{4}-\d{2}-\d{2}$/.test(last) || count <= 0) return s;
+    const device = deviceId();
+    for (let i = 0; i < Math.min(count, KEEP_DAYS); i++) s.days[nextKey(last, -i)] = { [device]: { questions: DEFAULT_GOAL.questions, reviews: 0 } };
+    s.longest = count;
+  } catch {}
+  return s;
+};
+
+// Days saved before counts were kept per device belong to this device
+const byDevice = (days: Record<string, any>): ActivityState['days'] => {
+  const device = deviceId();
+  return Object.fromEntries(Object.entries(days).map(([k, d]) => [k, typeof d?.questions === 'number' ? { [device]: d } : d]));
+};
+
+const read = (): ActivityState => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return migrateLegacy();
+    const data = JSON.parse(raw);
+    return {
+      days: data?.days && typeof data.days === 'object' ? byDevice(data.days) : {},
+      goal: { ...DEFAULT_GOAL, ...data?.goal },
+      freezes: typeof data?.freezes === 'number' ? data.freezes : 0,
+      frozen: Array.isArray(data?.frozen) ? data.frozen : [],
+      longest: typeof data?.longest === 'number' ? data.longest : 0,
+      ...(typeof data?.updatedAt === 'number' ? { updatedAt: data.updatedAt } : {}),
+    };
+  } catch {
+    return migrateLegacy();
+  }
+};
+
+const listeners = new Set<() => void>();
+let state: ActivityState = read();
+
+const commit = (next: ActivityState) => {
+  state = next;
+  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch (e) { console.warn('activity save failed', e); }
+  listeners.forEach((l) => l());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    state = read();
+    listeners.forEach((l) => l());
+  });
+}
+
+export const activity = {
+  get: () => state,
+  /** Count one question or finished review today; returns the summaries before and after */
+  record(kind: ActivityKind, now = Date.now()) {
+    const before = summarize(state, now);
+    commit({ ...record(state, kind, now), updatedAt: now });
+    return { before, after: summarize(state, now) };
+  },
+  setGoal(goal: Partial<DailyGoal>) {
+    commit({ ...state, goal: { ...state.goal, ...goal }, updatedAt: Date.now() });
+  },
+  /** Swap in a synced copy */
+  replace(next: ActivityState) {
+    commit(next);
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useActivity = () => useSyncExternalStore(activity.subscribe, activity.get);
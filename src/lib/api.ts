@@ -0,0 +1,256 @@
+import type { Book, Chapter, ChatMsg, Citation, Thread } from '../types';
+import type { JournalEntry } from './journal';
+import type { ActivityState } from './activity';
+import type { ReadingSettings } from './reading';
+import type { Tombstone } from './tombstones';
+import { auth, authHeaders, type AuthSession } from './auth';
+import { t } from './i18n';
+import { streamSse, StreamError, isAbortError, type StreamHandlers } from './sse';
+import { SchemaError, array, boolean, id, literal, number, object, optional, record, string, unknown, type Schema } from './schema';
+
+// --- Backend API client
+// Every call to the backend goes through here: one base URL, the session's bearer token, a
+// timeout, and runtime checks of what comes back. Callers get typed data or an ApiError whose
+// message can be shown to the reader as is. Aborts by the caller are rethrown untouched
+// (check with `isAbortError`). `npm run mock` serves this whole API locally (mock/server.mjs).
+
+const env = (import.meta as any).env ?? {};
+
+export const API_BASE: string = env.VITE_API_BASE || 'http://localhost:3001';
+
+/** Default timeout for JSON requests, and the longest a stream may go without an event */
+const TIMEOUT = parseInt(env.VITE_API_TIMEOUT) || 15000;
+const STREAM_IDLE_TIMEOUT = parseInt(env.VITE_STREAM_TIMEOUT) || 30000;
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'invalid' | 'unauthorized';
+
+export class ApiError extends Error {
+  constructor(readonly kind: ApiErrorKind, message: string, readonly status?: number, readonly detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const httpMessage = (status: number) =>
+  status === 404 ? t('error.notFound')
+  : status === 429 ? t('error.tooMany')
+  : status >= 500 ? t('error.server', { status: String(status) })
+  : t('error.rejected', { status: String(status) });
+
+const networkError = () =>
+  typeof navigator !== 'undefined' && navigator.onLine === false
+    ? new ApiError('network', t('error.offline'))
+    : new ApiError('network', t('error.network'));
+
+const invalid = (what: string, e: SchemaError) => {
+  console.warn(`${what}: unexpected response, ${e.message}`);
+  return new ApiError('invalid', t('error.invalid'), undefined, e.message);
+};
+
+// --- Response schemas. The hand-written types in src/types.ts are what the app uses; each
+// schema is annotated with its type so the two can't drift apart unnoticed.
+
+const chapterSchema: Schema<Chapter> = object({ id, title: string, number: optional(number) });
+
+export const bookSchema: Schema<Book> = object({
+  id, title: string, author: string,
+  theme: optional(string), color: optional(string), cover: optional(string), tagline: optional(string),
+  chapters: optional(array(chapterSchema)),
+  suggestedQuestions: optional(array(string)),
+});
+
+export type BooksResponse = Book[] | { items: Book[]; total?: number; hasMore?: boolean; facets?: { themes?: string[]; authors?: string[] } };
+
+const booksEnvelope = object({
+  items: array(bookSchema),
+  total: optional(number),
+  hasMore: optional(boolean),
+  facets: optional(object({ themes: optional(array(string)), authors: optional(array(string)) })),
+});
+
+// Older backends return the whole catalog as a bare array
+const booksResponseSchema: Schema<BooksResponse> = (v, path) => (Array.isArray(v) ? array(bookSchema)(v, path) : booksEnvelope(v, path));
+
+const citationSchema: Schema<Citation> = object({ n: number, chapter: optional(string), location: optional(string), quote: string });
+
+const chatMsgSchema: Schema<ChatMsg> = object({
+  id, role: literal('user', 'book'), content: string, ts: number,
+  chapterIds: optional(array(string)),
+  status: optional(literal('queued', 'streaming', 'done', 'stopped', 'error')),
+  error: optional(string),
+  meta: optional(record(unknown)),
+  citations: optional(array(citationSchema)),
+});
+
+const threadSchema: Schema<Thread> = object({ id, bookId: id, title: string, createdAt: number, updatedAt: number, messages: array(chatMsgSchema) });
+
+const journalEntrySchema: Schema<JournalEntry> = object({
+  id, ts: number, bookId: id, q: string, a: string,
+  citations: optional(array(citationSchema)),
+  tags: optional(array(string)),
+  note: optional(string),
+  updatedAt: optional(number),
+});
+
+const dailySchema = object({ questions: number, reviews: number });
+
+const activitySchema: Schema<ActivityState> = object({
+  days: record(record(dailySchema)), goal: dailySchema, freezes: number, frozen: array(string), longest: number, updatedAt: optional(number),
+});
+
+const readingSchema: Schema<ReadingSettings> = object({
+  theme: literal('system', 'light', 'dark'), fontSize: number, lineHeight: number, dyslexicFont: boolean, updatedAt: optional(number),
+});
+
+const tombstoneSchema: Schema<Tombstone> = object({ id, ts: number });
+
+export type SyncChanges = {
+  journal: JournalEntry[];
+  threads: Thread[];
+  activity?: ActivityState;
+  reading?: ReadingSettings;
+  deleted: { journal: Tombstone[]; threads: Tombstone[] };
+};
+
+const syncResponseSchema: Schema<SyncChanges & { cursor: string }> = (v, path) => {
+  const r = object({
+    cursor: string,
+    journal: optional(array(journalEntrySchema)),
+    threads: optional(array(threadSchema)),
+    activity: optional(activitySchema),
+    reading: optional(readingSchema),
+    deleted: optional(object({ journal: optional(array(tombstoneSchema)), threads: optional(array(tombstoneSchema)) })),
+  })(v, path);
+  return {
+    cursor: r.cursor,
+    journal: r.journal ?? [],
+    threads: r.threads ?? [],
+    ...(r.activity ? { activity: r.activity } : {}),
+    ...(r.reading ? { reading: r.reading } : {}),
+    deleted: { journal: r.deleted?.journal ?? [], threads: r.deleted?.threads ?? [] },
+  };
+};
+
+const loginSchema = object({ token: string, user: object({ id, email: optional(string), name: optional(string) }) });
+
+// --- Transport
+
+type RequestOptions = { method?: 'GET' | 'POST'; body?: unknown; signal?: AbortSignal; timeout?: number };
+
+async function request<T>(path: string, schema: Schema<T>, opts: RequestOptions = {}): Promise<T> {
+  const method = opts.method ?? (opts.body === undefined ? 'GET' : 'POST');
+  const ctrl = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; ctrl.abort(); }, opts.timeout ?? TIMEOUT);
+  const onAbort = () => ctrl.abort(opts.signal?.reason);
+  if (opts.signal?.aborted) onAbort();
+  opts.signal?.addEventListener('abort', onAbort, { once: true });
+  // The caller's abort stays an abort; everything else becomes an ApiError
+  const failed = (e: unknown) => (opts.signal?.aborted ? e : timedOut ? new ApiError('timeout', t('error.timeout')) : networkError());
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(`${API_BASE}${path}`, {
+        method,
+        headers: { Accept: 'application/json', ...(opts.body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...authHeaders() },
+        body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+        signal: ctrl.signal,
+      });
+    } catch (e) {
+      throw failed(e);
+    }
+    if (res.status === 401 && auth.get()) {
+      auth.expire();
+      throw new ApiError('unauthorized', t('error.expired'), 401);
+    }
+    if (!res.ok) throw new ApiError('http', httpMessage(res.status), res.status);
+    let data: unknown;
+    try {
+      data = await res.json();
+    } catch (e) {
+      if (isAbortError(e) || timedOut) throw failed(e);
+      throw new ApiError('invalid', t('error.json'), res.status);
+    }
+    try {
+      return schema(data);
+    } catch (e) {
+      throw e instanceof SchemaError ? invalid(`${method} ${path}`, e) : e;
+    }
+  } finally {
+    clearTimeout(timer);
+    opts.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * POST an SSE endpoint. Server `error` events still reject with a StreamError carrying the
+ * server's message; HTTP failures, dropped connections and stalls (no event for
+ * STREAM_IDLE_TIMEOUT) reject with an ApiError.
+ */
+async function stream(path: string, body: unknown, handlers: StreamHandlers, signal?: AbortSignal): Promise<void> {
+  const ctrl = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const arm = () => { clearTimeout(timer); timer = setTimeout(() => { timedOut = true; ctrl.abort(); }, STREAM_IDLE_TIMEOUT); };
+  const onAbort = () => ctrl.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  // Every event proves the stream is alive
+  const alive = <A extends unknown[]>(fn?: (...args: A) => void) => (...args: A) => { arm(); fn?.(...args); };
+  arm();
+  try {
+    await streamSse(`${API_BASE}${path}`, body, {
+      onChunk: alive(handlers.onChunk),
+      onMeta: alive(handlers.onMeta),
+      onCitations: alive(handlers.onCitations),
+      onDone: handlers.onDone,
+    }, { signal: ctrl.signal, headers: authHeaders() });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    if (timedOut) throw new ApiError('timeout', t('error.stalled'));
+    if (e instanceof StreamError && e.status === 401 && auth.get()) {
+      auth.expire();
+      throw new ApiError('unauthorized', t('error.expired.retry'), 401);
+    }
+    if (e instanceof StreamError && e.status) throw new ApiError('http', httpMessage(e.status), e.status);
+    if (e instanceof StreamError && !e.retryable) throw e;
+    throw networkError();
+  } finally {
+    clearTimeout(timer!);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// --- Endpoints
+
+// `language` is the BCP 47 tag the reader wants answers in (src/lib/i18n.ts)
+export type AskRequest = { bookId: string; question: string; history: { role: 'user' | 'assistant'; content: string }[]; chapterIds?: string[]; language?: string };
+
+export type CompareRequest = { question: string; bookIds: string[]; answers: { bookId: string; answer: string }[]; language?: string };
+
+export const api = {
+  /** GET /books with library query params (ignored by bare-array backends) */
+  books: (params?: URLSearchParams, signal?: AbortSignal) => request(`/books${params ? `?${params}` : ''}`, booksResponseSchema, { signal }),
+  /** GET /books/:id, the full record with chapters */
+  book: (bookId: string, signal?: AbortSignal) => request(`/books/${encodeURIComponent(bookId)}`, bookSchema, { signal }),
+  /** POST /ask, streamed */
+  ask: (body: AskRequest, handlers: StreamHandlers, signal?: AbortSignal) => stream('/ask', body, handlers, signal),
+  /** POST /compare, streamed */
+  compare: (body: CompareRequest, handlers: StreamHandlers, signal?: AbortSignal) => stream('/compare', body, handlers, signal),
+  /** POST /quiz; questions are checked by normalizeQuiz, which tolerates more shapes */
+  quiz: (body: { bookId: string; count: number; chapterIds?: string[]; language?: string }, signal?: AbortSignal) =>
+    request('/quiz', object({ id: optional(id), questions: array(unknown) }), { body, signal, timeout: TIMEOUT * 2 }),
+  /** POST /auth/login; a rejected login is an ApiError with a reader-facing message */
+  async login(email: string, password: string): Promise<AuthSession> {
+    try {
+      const r = await request('/auth/login', loginSchema, { body: { email: email.trim(), password } });
+      return { token: r.token, user: { id: r.user.id, email: r.user.email ?? email.trim(), ...(r.user.name ? { name: r.user.name } : {}) } };
+    } catch (e) {
+      if (e instanceof ApiError && (e.status === 400 || e.status === 401 || e.status === 403)) throw new ApiError('unauthorized', t('error.login'), e.status);
+      throw e;
+    }
+  },
+  /** POST /sync: local changes out, the server's changes since `cursor` back */
+  sync: (body: SyncChanges & { cursor: string | null }, signal?: AbortSignal) => request('/sync', syncResponseSchema, { body, signal, timeout: TIMEOUT * 2 }),
+};
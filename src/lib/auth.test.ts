@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { auth } from './auth';
+
+const session = (id: string, token = `token-${id}`) => ({ token, user: { id, email: `${id}@example.com` } });
+
+let deleted: string[];
+
+beforeEach(() => {
+  deleted = [];
+  vi.stubGlobal('caches', { delete: vi.fn(async (name: string) => { deleted.push(name); return true; }) });
+});
+
+afterEach(() => {
+  auth.signOut();
+  vi.unstubAllGlobals();
+});
+
+it('drops the cached catalog when the account changes or the reader signs out', () => {
+  auth.signIn(session('a'));
+  expect(deleted).toEqual(['books-api']);
+  // A new token for the same account keeps it
+  auth.signIn(session('a', 'refreshed'));
+  expect(deleted).toHaveLength(1);
+  auth.signIn(session('b'));
+  auth.signOut();
+  expect(deleted).toEqual(['books-api', 'books-api', 'books-api']);
+});
+
+it('drops it when the server ends the session', () => {
+  auth.signIn(session('a'));
+  auth.expire();
+  expect(deleted).toEqual(['books-api', 'books-api']);
+});
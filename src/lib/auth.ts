@@ -0,0 +1,76 @@
+import { useSyncExternalStore } from 'react';
+
+// --- Accounts: the signed-in session
+// `api.login` exchanges email and password for `{ token, user }`. The session is kept in
+// localStorage under `auth` and its token is sent as a bearer header with every API call.
+// A 401 ends the session (expired or revoked token); local data stays put.
+// The service worker's copy of the catalog (`books-api` in vite.config.ts) was fetched with the
+// session's token, so it is dropped whenever the account changes or the reader signs out.
+
+export type AuthUser = { id: string; email: string; name?: string };
+
+export type AuthSession = { token: string; user: AuthUser };
+
+const KEY = 'auth';
+const listeners = new Set<() => void>();
+
+const read = (): AuthSession | null => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || 'null');
+    return data && typeof data.token === 'string' && data.user && typeof data.user.id === 'string' ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+let session: AuthSession | null = read();
+
+const dropCachedBooks = () => {
+  if (typeof caches === 'undefined') return;
+  caches.delete('books-api').catch((e) => console.warn('books cache clear failed', e));
+};
+
+const commit = (next: AuthSession | null) => {
+  if ((session?.user.id ?? null) !== (next?.user.id ?? null)) dropCachedBooks();
+  session = next;
+  try {
+    if (next) localStorage.setItem(KEY, JSON.stringify(next));
+    else localStorage.removeItem(KEY);
+  } catch (e) {
+    console.warn('auth save failed', e);
+  }
+  listeners.forEach((l) => l());
+};
+
+// Signed in or out in another tab
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    session = read();
+    listeners.forEach((l) => l());
+  });
+}
+
+/** `Authorization` header for the current session, or nothing when signed out */
+export const authHeaders = (): Record<string, string> => (session ? { Authorization: `Bearer ${session.token}` } : {});
+
+export const auth = {
+  get: () => session,
+  /** Keep the session returned by `api.login` */
+  signIn(next: AuthSession) {
+    commit(next);
+  },
+  signOut() {
+    commit(null);
+  },
+  /** The server rejected the token (expired or revoked) */
+  expire() {
+    if (session) commit(null);
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useAuth = () => useSyncExternalStore(auth.subscribe, auth.get);
@@ -0,0 +1,39 @@
+import type { Citation } from '../types';
+import { t } from './i18n';
+
+// --- Citations streamed with an answer (`event: citations`)
+// Accepts either an array or `{ citations: [...] }`; each item needs a quote. Page numbers
+// are folded into `location` so the UI only deals with one field.
+export function normalizeCitations(payload: unknown): Citation[] {
+  const list = Array.isArray(payload) ? payload : (payload as any)?.citations;
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((c: any, i: number): Citation | null => {
+      const quote = typeof c?.quote === 'string' ? c.quote : typeof c?.passage === 'string' ? c.passage : '';
+      if (!quote.trim()) return null;
+      const page = c.page ?? c.location;
+      return {
+        n: Number.isInteger(c.n) ? c.n : Number.isInteger(c.index) ? c.index : i + 1,
+        chapter: typeof c.chapter === 'string' ? c.chapter : undefined,
+        location: page != null && page !== '' ? (typeof page === 'number' ? `p. ${page}` : String(page)) : undefined,
+        quote: quote.trim(),
+      };
+    })
+    .filter((c): c is Citation => c !== null);
+}
+
+// Later events may resend or extend the list; the newest copy of each number wins
+export const mergeCitations = (prev: Citation[] = [], next: Citation[]) =>
+  [...prev.filter((p) => !next.some((c) => c.n === p.n)), ...next].sort((a, b) => a.n - b.n);
+
+export const citationLabel = (c: Citation) => [c.chapter, c.location].filter(Boolean).join(' · ') || t('citation.source');
+
+// Plain-text footnotes for copy/export
+export const formatCitations = (list: Citation[] = []) =>
+  list.map((c) => `[${c.n}] ${citationLabel(c)} — “${c.quote}”`).join('\n');
+
+// Turn [n] markers with a matching citation into markdown links to the footnote anchors
+export const linkCitationMarkers = (text: string, citations: Citation[] = [], href: (n: number) => string) =>
+  citations.length
+    ? text.replace(/\[(\d+)\](?![(:])/g, (m, d) => (citations.some((c) => c.n === +d) ? `[${d}](${href(+d)})` : m))
+    : text;
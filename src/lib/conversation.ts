@@ -0,0 +1,40 @@
+import type { ChatMsg } from "../types";
+
+// --- Conversation history sent alongside each /ask request
+// The backend expects OpenAI-style roles; "book" answers map to "assistant".
+export type HistoryTurn = { role: "user" | "assistant"; content: string };
+
+export type HistoryBudget = { maxTurns: number; maxTokens: number };
+
+const env = (import.meta as any).env ?? {};
+
+export const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  maxTurns: parseInt(env.VITE_HISTORY_MAX_TURNS) || 12,
+  maxTokens: parseInt(env.VITE_HISTORY_MAX_TOKENS) || 2000,
+};
+
+// Rough token estimate (~4 chars per token) — good enough for trimming, the backend enforces the real limit.
+export const estimateTokens = (s: string) => Math.ceil(s.length / 4);
+
+/**
+ * Build the prior turns for a thread, newest kept first when trimming.
+ * Empty and failed messages (e.g. a book bubble that is still streaming) are skipped,
+ * and the oldest turns are dropped until both the turn and token budgets fit.
+ * A leading "assistant" turn is dropped so history always starts with the user.
+ */
+export function buildHistory(messages: ChatMsg[], budget: HistoryBudget = DEFAULT_HISTORY_BUDGET): HistoryTurn[] {
+  const turns: HistoryTurn[] = messages
+    .filter((m) => m.content.trim() && m.status !== "error")
+    .map((m) => ({ role: m.role === "user" ? "user" : "assistant", content: m.content }));
+
+  const kept: HistoryTurn[] = [];
+  let tokens = 0;
+  for (let i = turns.length - 1; i >= 0 && kept.length < budget.maxTurns; i--) {
+    const cost = estimateTokens(turns[i].content);
+    if (tokens + cost > budget.maxTokens) break;
+    tokens += cost;
+    kept.unshift(turns[i]);
+  }
+  while (kept.length && kept[0].role === "assistant") kept.shift();
+  return kept;
+}
@@ -0,0 +1,59 @@
+// --- Minimal promise wrapper around IndexedDB
+// One database for the app; bump DB_VERSION and add the store in `upgrade` when a new store is needed.
+const DB_NAME = 'insta-read';
+const DB_VERSION = 1;
+
+export const STORES = { threads: 'threads' } as const;
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(STORES.threads)) {
+    const threads = db.createObjectStore(STORES.threads, { keyPath: 'id' });
+    threads.createIndex('bookId', 'bookId');
+    threads.createIndex('updatedAt', 'updatedAt');
+  }
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'));
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+async function tx(store: StoreName, mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(store, mode).objectStore(store);
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  return promisify((await tx(store, 'readonly')).getAll()) as Promise<T[]>;
+}
+
+export async function getOne<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return promisify((await tx(store, 'readonly')).get(key)) as Promise<T | undefined>;
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<void> {
+  await promisify((await tx(store, 'readwrite')).put(value));
+}
+
+export async function remove(store: StoreName, key: IDBValidKey): Promise<void> {
+  await promisify((await tx(store, 'readwrite')).delete(key));
+}
@@ -0,0 +1,17 @@
+// --- This device's id (localStorage `deviceId`), created on first use
+// Synced counts that several devices add to (daily activity) keep one share per device, so
+// merging copies can sum the shares instead of one device's count hiding another's.
+
+const KEY = 'deviceId';
+
+export function deviceId(): string {
+  try {
+    const id = localStorage.getItem(KEY);
+    if (id) return id;
+    const next = crypto.randomUUID();
+    localStorage.setItem(KEY, next);
+    return next;
+  } catch {
+    return 'this-device';
+  }
+}
@@ -0,0 +1,70 @@
+// --- Typo-tolerant matching for book search
+// Every query word has to match some word of the text: as a substring, or within a small
+// edit distance (1 typo for words of 4+ letters, 2 for 8+). Scores favour exact and prefix hits.
+
+const words = (s: string) => s.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Damerau-Levenshtein (optimal string alignment) distance, bailing out once it exceeds `max`
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let v = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) v = Math.min(v, prev2[j - 2] + 1);
+      cur[j] = v;
+      rowMin = Math.min(rowMin, v);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+const allowedTypos = (w: string) => (w.length >= 8 ? 2 : w.length >= 4 ? 1 : 0);
+
+function wordScore(q: string, textWords: string[]): number {
+  let best = 0;
+  for (const w of textWords) {
+    if (w === q) return 1;
+    if (w.startsWith(q)) best = Math.max(best, 0.9);
+    else if (w.includes(q)) best = Math.max(best, 0.7);
+    else {
+      const max = allowedTypos(q);
+      if (!max) continue;
+      // Compare against the word's prefix too, so "habt" still finds "habits"
+      const d = Math.min(editDistance(q, w, max), editDistance(q, w.slice(0, q.length), max));
+      if (d <= max) best = Math.max(best, 0.6 - 0.15 * d);
+    }
+  }
+  return best;
+}
+
+/** 0 when `text` does not match `query`, otherwise a score in (0, 1] */
+export function fuzzyScore(query: string, text: string): number {
+  const qs = words(query);
+  if (!qs.length) return 1;
+  const ts = words(text);
+  let total = 0;
+  for (const q of qs) {
+    const s = wordScore(q, ts);
+    if (!s) return 0;
+    total += s;
+  }
+  return total / qs.length;
+}
+
+/** Items matching `query` in any of `fields`, best matches first (stable for ties) */
+export function fuzzyFilter<T>(items: T[], query: string, fields: (item: T) => (string | undefined)[]): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map((item, i) => ({ item, i, score: Math.max(0, ...fields(item).map((f) => (f ? fuzzyScore(query, f) : 0))) }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map((x) => x.item);
+}
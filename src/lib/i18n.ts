@@ -0,0 +1,158 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { en, type MessageKey, type Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { de } from '../locales/de';
+import { ar } from '../locales/ar';
+
+// --- i18n: message catalogs, the reader's languages and locale-aware formatting
+// UI strings live in src/locales/<locale>.ts. `en` is the source catalog; the others must have
+// every key (the type-check enforces it). `t(key, vars)` fills `{name}` placeholders, formatting
+// numbers for the locale; keys with plural forms end in `.one` / `.other` (plus `.zero`, `.two`,
+// `.few`, `.many` where a language needs them) and go through `tn(key, count)`.
+// Two choices are kept in localStorage (`language`): the interface language, which also sets
+// <html lang dir>, and the language books answer in, sent with every /ask request.
+
+export const LOCALES = {
+  en: { label: 'English', dir: 'ltr' },
+  es: { label: 'Español', dir: 'ltr' },
+  de: { label: 'Deutsch', dir: 'ltr' },
+  ar: { label: 'العربية', dir: 'rtl' },
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export type { MessageKey } from '../locales/en';
+
+const CATALOGS: Record<Locale, Messages> = { en, es, de, ar };
+
+/** Languages a book can answer in (BCP 47), beyond the interface languages */
+export const ANSWER_LANGUAGES = ['en', 'es', 'de', 'ar', 'fr', 'it', 'pt', 'nl', 'pl', 'tr', 'hi', 'ja', 'zh', 'ko'];
+
+export type LanguageSettings = {
+  locale: Locale;
+  /** BCP 47 tag, or 'auto' for the interface language */
+  answerLanguage: string;
+};
+
+const KEY = 'language';
+const listeners = new Set<() => void>();
+
+const isLocale = (v: unknown): v is Locale => typeof v === 'string' && v in LOCALES;
+
+// First browser language we have a catalog for
+const detect = (): Locale => {
+  const prefs = typeof navigator === 'undefined' ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of prefs) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+const read = (): LanguageSettings => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '{}');
+    return {
+      locale: isLocale(data.locale) ? data.locale : detect(),
+      answerLanguage: typeof data.answerLanguage === 'string' && data.answerLanguage ? data.answerLanguage : 'auto',
+    };
+  } catch {
+    return { locale: detect(), answerLanguage: 'auto' };
+  }
+};
+
+let settings = read();
+
+const apply = (s: LanguageSettings) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = s.locale;
+  document.documentElement.dir = LOCALES[s.locale].dir;
+};
+
+// Set before the first render so the layout doesn't flip afterwards
+apply(settings);
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    settings = read();
+    apply(settings);
+    listeners.forEach((l) => l());
+  });
+}
+
+export const language = {
+  get: () => settings,
+  set(patch: Partial<LanguageSettings>) {
+    settings = { ...settings, ...patch };
+    try { localStorage.setItem(KEY, JSON.stringify(settings)); } catch {}
+    apply(settings);
+    listeners.forEach((l) => l());
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useLanguage = () => useSyncExternalStore(language.subscribe, language.get);
+
+/** The language books should answer in */
+export const answerLanguage = () => (settings.answerLanguage === 'auto' ? settings.locale : settings.answerLanguage);
+
+// --- Formatting (Intl objects are cached per locale and options)
+
+const cache = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>();
+const cached = <T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>(kind: string, options: object, make: () => T): T => {
+  const k = `${kind}|${settings.locale}|${JSON.stringify(options)}`;
+  if (!cache.has(k)) cache.set(k, make());
+  return cache.get(k) as T;
+};
+
+export const formatNumber = (n: number, options: Intl.NumberFormatOptions = {}) =>
+  cached('n', options, () => new Intl.NumberFormat(settings.locale, options)).format(n);
+
+export const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+  cached('d', options, () => new Intl.DateTimeFormat(settings.locale, options)).format(value);
+
+export const formatDateTime = (value: number | Date) => formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** A language's name in the interface language ("Spanish", "Spanisch", …) */
+export const languageName = (tag: string) => {
+  try {
+    return new Intl.DisplayNames([settings.locale], { type: 'language' }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+};
+
+// --- Messages
+
+export type Vars = Record<string, string | number>;
+
+const fill = (msg: string, vars?: Vars) =>
+  vars ? msg.replace(/\{(\w+)\}/g, (m, k: string) => (k in vars ? (typeof vars[k] === 'number' ? formatNumber(vars[k] as number) : String(vars[k])) : m)) : msg;
+
+const lookup = (key: string): string | undefined =>
+  (CATALOGS[settings.locale] as Record<string, string>)[key] ?? (en as Record<string, string>)[key];
+
+export const t = (key: MessageKey, vars?: Vars) => fill(lookup(key) ?? key, vars);
+
+type PluralBase<K> = K extends `${infer B}.other` ? B : never;
+export type PluralKey = PluralBase<MessageKey>;
+
+/** Plural-aware message: `{count}` is filled in and picks the form */
+export const tn = (key: PluralKey, count: number, vars?: Vars) => {
+  const form = cached('p', {}, () => new Intl.PluralRules(settings.locale)).select(count);
+  const msg = (count === 0 && lookup(`${key}.zero`)) || lookup(`${key}.${form}`) || lookup(`${key}.other`) || key;
+  return fill(msg, { count, ...vars });
+};
+
+/**
+ * Components read strings through this hook so they re-render when the language changes.
+ * The helpers are the module functions above; they always use the current language.
+ */
+export function useI18n() {
+  const { locale } = useLanguage();
+  return useMemo(() => ({ locale, dir: LOCALES[locale].dir, t, tn, formatDate, formatDateTime, formatNumber }), [locale]);
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { allTags, filterJournal, groupByBook, journal, useJournal, type JournalEntry } from './journal';
+import { tombstones } from './tombstones';
+
+const entry = (over: Partial<JournalEntry> = {}): JournalEntry =>
+  ({ id: crypto.randomUUID(), ts: Date.now(), bookId: 'atomic-habits', q: 'Question?', a: 'Answer.', ...over });
+
+const stored = () => JSON.parse(localStorage.getItem('journal') || '[]') as JournalEntry[];
+
+beforeEach(() => journal.replaceAll([]));
+
+describe('journal store', () => {
+  it('adds entries with an id and timestamp, persists them and notifies subscribers', () => {
+    const listener = vi.fn();
+    const off = journal.subscribe(listener);
+    const e = journal.add({ bookId: 'deep-work', q: 'What is deep work?', a: 'Focused work.' });
+    off();
+    expect(e.id).toBeTruthy();
+    expect(journal.getAll()).toEqual([e]);
+    expect(stored()).toEqual([e]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('normalizes tags and stamps edits', () => {
+    const e = journal.add({ bookId: 'deep-work', q: 'q', a: 'a' });
+    journal.update(e.id, { tags: ['#Focus', 'deep work', 'focus', ' '], note: 'Try it tomorrow' });
+    const [saved] = journal.getAll();
+    expect(saved.tags).toEqual(['focus', 'deep-work']);
+    expect(saved.note).toBe('Try it tomorrow');
+    expect(saved.updatedAt).toBeGreaterThanOrEqual(e.ts);
+  });
+
+  it('leaves a tombstone for sync when an entry is deleted', () => {
+    const e = journal.add({ bookId: 'deep-work', q: 'q', a: 'a' });
+    journal.remove(e.id);
+    expect(journal.getAll()).toEqual([]);
+    expect(tombstones.get().journal.map((t) => t.id)).toEqual([e.id]);
+  });
+
+  it('imports a backup by id: adds new entries and only takes newer edits', () => {
+    const kept = entry({ id: 'a', ts: 100, updatedAt: 300, note: 'mine' });
+    const older = entry({ id: 'b', ts: 100, note: 'mine' });
+    journal.replaceAll([kept, older]);
+    const result = journal.importEntries([
+      entry({ id: 'a', ts: 100, updatedAt: 200, note: 'backup' }),
+      entry({ id: 'b', ts: 100, updatedAt: 400, note: 'backup' }),
+      entry({ id: 'c', ts: 150 }),
+    ]);
+    expect(result).toEqual({ added: 1, updated: 1, skipped: 1 });
+    const byId = Object.fromEntries(journal.getAll().map((e) => [e.id, e]));
+    expect(byId.a.note).toBe('mine');
+    expect(byId.b.note).toBe('backup');
+    expect(byId.c).toBeDefined();
+    // Imported entries count as edited now (so sync sends them); their creation time is kept
+    expect(byId.b.updatedAt).toBeGreaterThan(400);
+    expect(byId.c).toMatchObject({ ts: 150 });
+    expect(byId.a.updatedAt).toBe(300);
+  });
+
+  it('picks up changes made in another tab', () => {
+    const e = entry();
+    localStorage.setItem('journal', JSON.stringify([e]));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'journal' }));
+    expect(journal.getAll()).toEqual([e]);
+  });
+
+  it('re-renders readers of useJournal', () => {
+    const { result } = renderHook(() => useJournal());
+    expect(result.current).toEqual([]);
+    act(() => { journal.add({ bookId: 'deep-work', q: 'q', a: 'a' }); });
+    expect(result.current).toHaveLength(1);
+  });
+});
+
+describe('filterJournal', () => {
+  const day = (y: number, m: number, d: number, h = 12) => new Date(y, m - 1, d, h).getTime();
+  const list = [
+    entry({ id: '1', ts: day(2024, 3, 1), bookId: 'deep-work', q: 'Shallow work?', tags: ['focus'] }),
+    entry({ id: '2', ts: day(2024, 3, 2, 23), bookId: 'atomic-habits', q: 'Habit stacking', a: 'Stack a new habit on an old one.', note: 'morning coffee' }),
+    entry({ id: '3', ts: day(2024, 3, 3, 0), bookId: 'atomic-habits', q: 'Identity', tags: ['habits', 'focus'] }),
+  ];
+
+  it('needs every word somewhere in the entry, notes and tags included', () => {
+    expect(filterJournal(list, { text: 'habit coffee' }).map((e) => e.id)).toEqual(['2']);
+    expect(filterJournal(list, { text: 'FOCUS' }).map((e) => e.id)).toEqual(['3', '1']);
+  });
+
+  it('filters by book, tag and local date range, newest first', () => {
+    expect(filterJournal(list, { bookId: 'atomic-habits' }).map((e) => e.id)).toEqual(['3', '2']);
+    expect(filterJournal(list, { tag: 'focus', bookId: 'deep-work' }).map((e) => e.id)).toEqual(['1']);
+    // `to` includes the whole day: 23:00 on the 2nd is in, midnight on the 3rd is out
+    expect(filterJournal(list, { from: '2024-03-02', to: '2024-03-02' }).map((e) => e.id)).toEqual(['2']);
+  });
+
+  it('groups by book with the most recently active book first', () => {
+    expect(groupByBook(list).map((g) => [g.bookId, g.entries.map((e) => e.id)])).toEqual([
+      ['atomic-habits', ['3', '2']],
+      ['deep-work', ['1']],
+    ]);
+    expect(allTags(list)).toEqual(['focus', 'habits']);
+  });
+});
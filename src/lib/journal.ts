@@ -0,0 +1,133 @@
+import { useSyncExternalStore } from 'react';
+import type { Citation } from '../types';
+import { tombstones } from './tombstones';
+
+// --- Journal store
+// Saved insights live in localStorage under `journal` (same key and entry shape as before,
+// with optional tags and a personal note). Components read them through `useJournal`, so
+// every save, edit or delete re-renders the drawer and other readers right away.
+
+export type JournalEntry = {
+  id: string;
+  ts: number;
+  bookId: string;
+  q: string;
+  a: string;
+  citations?: Citation[];
+  tags?: string[];
+  note?: string;
+  updatedAt?: number;
+};
+
+export type JournalFilter = { text?: string; bookId?: string; tag?: string; from?: string; to?: string };
+
+const KEY = 'journal';
+const listeners = new Set<() => void>();
+
+const read = (): JournalEntry[] => {
+  try {
+    const list = JSON.parse(localStorage.getItem(KEY) || '[]');
+    return Array.isArray(list) ? list.filter((e) => e && typeof e.id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+let entries: JournalEntry[] = read();
+
+const commit = (next: JournalEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('journal save failed', e);
+  }
+  listeners.forEach((l) => l());
+};
+
+// Another tab changed the journal
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    entries = read();
+    listeners.forEach((l) => l());
+  });
+}
+
+export const normalizeTag = (t: string) => t.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const journal = {
+  getAll: () => entries,
+  add(entry: Omit<JournalEntry, 'id' | 'ts'>): JournalEntry {
+    const created: JournalEntry = { ...entry, id: crypto.randomUUID(), ts: Date.now() };
+    commit([...entries, created]);
+    return created;
+  },
+  update(id: string, patch: Partial<Omit<JournalEntry, 'id' | 'ts'>>) {
+    const tags = patch.tags && Array.from(new Set(patch.tags.map(normalizeTag).filter(Boolean)));
+    commit(entries.map((e) => (e.id === id ? { ...e, ...patch, ...(tags ? { tags } : {}), updatedAt: Date.now() } : e)));
+  },
+  remove(id: string) {
+    commit(entries.filter((e) => e.id !== id));
+    tombstones.add('journal', id);
+  },
+  /** Swap in a synced copy; unlike the edits above this leaves timestamps alone */
+  replaceAll(list: JournalEntry[]) {
+    commit(list);
+  },
+  /**
+   * Merge backup entries by id: new ids are added, known ids are replaced only by a more recent edit.
+   * What comes in is stamped as edited now, so the next sync sends it even though the backup is older.
+   */
+  importEntries(list: JournalEntry[]): { added: number; updated: number; skipped: number } {
+    const byId = new Map(entries.map((e) => [e.id, e]));
+    const now = Date.now();
+    let added = 0, updated = 0;
+    for (const e of list) {
+      const current = byId.get(e.id);
+      if (!current) { byId.set(e.id, { ...e, updatedAt: now }); added++; }
+      else if ((e.updatedAt ?? e.ts) > (current.updatedAt ?? current.ts)) { byId.set(e.id, { ...e, updatedAt: now }); updated++; }
+    }
+    if (added || updated) commit(Array.from(byId.values()));
+    return { added, updated, skipped: list.length - added - updated };
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useJournal = () => useSyncExternalStore(journal.subscribe, journal.getAll);
+
+export const allTags = (list: JournalEntry[]) =>
+  Array.from(new Set(list.flatMap((e) => e.tags ?? []))).sort((a, b) => a.localeCompare(b));
+
+// `from`/`to` are <input type="date"> values, compared in local time
+const dayStart = (ymd: string, addDays = 0) => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d + addDays).getTime();
+};
+
+/** Entries matching every filter, newest first. Text search needs every word somewhere in the entry. */
+export function filterJournal(list: JournalEntry[], f: JournalFilter): JournalEntry[] {
+  const words = (f.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const from = f.from ? dayStart(f.from) : -Infinity;
+  const to = f.to ? dayStart(f.to, 1) : Infinity; // through the end of that day
+  return list
+    .filter((e) => {
+      if (f.bookId && e.bookId !== f.bookId) return false;
+      if (f.tag && !e.tags?.includes(f.tag)) return false;
+      if (e.ts < from || e.ts >= to) return false;
+      if (!words.length) return true;
+      const hay = [e.q, e.a, e.note ?? '', ...(e.tags ?? []), ...(e.citations ?? []).map((c) => c.quote)].join('\n').toLowerCase();
+      return words.every((w) => hay.includes(w));
+    })
+    .sort((a, b) => b.ts - a.ts);
+}
+
+/** Group entries by book, keeping each group newest first and the most recently active book first */
+export function groupByBook(list: JournalEntry[]): { bookId: string; entries: JournalEntry[] }[] {
+  const groups = new Map<string, JournalEntry[]>();
+  for (const e of [...list].sort((a, b) => b.ts - a.ts)) groups.set(e.bookId, [...(groups.get(e.bookId) ?? []), e]);
+  return Array.from(groups, ([bookId, entries]) => ({ bookId, entries }));
+}
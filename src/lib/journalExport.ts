@@ -0,0 +1,108 @@
+import type { Citation } from '../types';
+import { citationLabel } from './citations';
+import { stripMarkdown } from './markdown';
+import type { JournalEntry } from './journal';
+import { formatDate, t, tn } from './i18n';
+
+// --- Journal exporters (Markdown, JSON backup, Anki CSV) and JSON import parsing
+// Every exporter takes a `titleOf` lookup so files name books instead of opaque ids.
+
+type TitleOf = (bookId: string) => string;
+
+const BACKUP_KIND = 'insta-read/journal';
+const BACKUP_VERSION = 1;
+
+const day = (ts: number) => formatDate(ts);
+
+const byBook = (entries: JournalEntry[]) => {
+  const groups = new Map<string, JournalEntry[]>();
+  for (const e of [...entries].sort((a, b) => a.ts - b.ts)) groups.set(e.bookId, [...(groups.get(e.bookId) ?? []), e]);
+  return groups;
+};
+
+const mdCitations = (list: Citation[] = []) =>
+  list.map((c) => `<sup>[${c.n}]</sup> ${citationLabel(c)} — “${c.quote.replace(/\s+/g, ' ')}”`).join('  \n');
+
+/** Markdown grouped by book (oldest first within a book), with dates, notes, tags and citations */
+export function toMarkdown(entries: JournalEntry[], titleOf: TitleOf): string {
+  const out = [`# ${t('nav.journal')}`, '', `_${t('journal.exported', { date: day(Date.now()) })} · ${tn('journal.entries', entries.length)}_`];
+  for (const [bookId, list] of byBook(entries)) {
+    out.push('', `## ${titleOf(bookId)}`);
+    for (const e of list) {
+      out.push('', `### ${e.q}`, '', `_${day(e.ts)}_${e.tags?.length ? ` · ${e.tags.map((tag) => `#${tag}`).join(' ')}` : ''}`, '', e.a.trim());
+      if (e.citations?.length) out.push('', mdCitations(e.citations));
+      if (e.note) out.push('', e.note.split('\n').map((l) => `> ${l}`).join('\n'));
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+/** Round-trippable backup: the entries exactly as stored */
+export const toJsonBackup = (entries: JournalEntry[]) =>
+  JSON.stringify({ kind: BACKUP_KIND, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+
+const csvCell = (s: string) => `"${s.replace(/"/g, '""')}"`;
+const html = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+const ankiTag = (s: string) => s.trim().replace(/\s+/g, '_');
+
+/**
+ * Anki "Basic" notes: Front = question (+ book), Back = answer, sources and note.
+ * The header lines let Anki 2.1.54+ pick separator, HTML and tag column without asking.
+ */
+export function toAnkiCsv(entries: JournalEntry[], titleOf: TitleOf): string {
+  const rows = [...entries].sort((a, b) => a.ts - b.ts).map((e) => {
+    const front = `${html(e.q)}<br><small>${html(titleOf(e.bookId))}</small>`;
+    const sources = (e.citations ?? []).map((c) => `[${c.n}] ${citationLabel(c)}: “${c.quote}”`).join('\n');
+    const back = [stripMarkdown(e.a).trim(), sources, e.note ? t('journal.anki.note', { note: e.note }) : ''].filter(Boolean).map(html).join('<br><br>');
+    const tags = [ankiTag(titleOf(e.bookId)), ...(e.tags ?? []).map(ankiTag)].join(' ');
+    return [front, back, tags].map(csvCell).join(',');
+  });
+  return ['#separator:Comma', '#html:true', '#tags column:3', ...rows].join('\n') + '\n';
+}
+
+const isCitation = (c: any): c is Citation => c && typeof c.n === 'number' && typeof c.quote === 'string';
+
+/**
+ * Parse a JSON backup (or a bare entry array from older exports). Entries missing an id,
+ * question, answer or book are skipped and counted in `invalid`.
+ */
+export function parseJsonBackup(text: string): { entries: JournalEntry[]; invalid: number } {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('journal.import.json'));
+  }
+  const list = Array.isArray(data) ? data : data?.kind === BACKUP_KIND && Array.isArray(data.entries) ? data.entries : null;
+  if (!list) throw new Error(t('journal.import.kind'));
+  const entries: JournalEntry[] = [];
+  for (const e of list) {
+    if (!e || typeof e.id !== 'string' || typeof e.q !== 'string' || typeof e.a !== 'string' || typeof e.bookId !== 'string') continue;
+    entries.push({
+      id: e.id,
+      ts: typeof e.ts === 'number' ? e.ts : Date.now(),
+      bookId: e.bookId,
+      q: e.q,
+      a: e.a,
+      ...(Array.isArray(e.citations) ? { citations: e.citations.filter(isCitation) } : {}),
+      ...(Array.isArray(e.tags) ? { tags: e.tags.filter((t: unknown) => typeof t === 'string') } : {}),
+      ...(typeof e.note === 'string' ? { note: e.note } : {}),
+      ...(typeof e.updatedAt === 'number' ? { updatedAt: e.updatedAt } : {}),
+    });
+  }
+  return { entries, invalid: list.length - entries.length };
+}
+
+export function downloadFile(name: string, content: string | Blob, type = 'application/octet-stream') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = name; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Local YYYY-MM-DD for file names
+export const exportStamp = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
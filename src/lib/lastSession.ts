@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react';
+
+// --- Resume pointer: the last question asked (localStorage `lastSession`)
+// Read by the home page's "Resume your last chat" card. Pointers saved before threads existed
+// have no `threadId`; resuming those just refills the question.
+
+export type LastSession = { bookId: string; question: string; bookTitle?: string; threadId?: string };
+
+const KEY = 'lastSession';
+const listeners = new Set<() => void>();
+
+let current: LastSession | null = (() => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || 'null');
+    return data && typeof data.bookId === 'string' && typeof data.question === 'string' ? data : null;
+  } catch {
+    return null;
+  }
+})();
+
+export const lastSession = {
+  get: () => current,
+  set(next: LastSession) {
+    current = next;
+    try { localStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    listeners.forEach((l) => l());
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useLastSession = () => useSyncExternalStore(lastSession.subscribe, lastSession.get);
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Book } from '../types';
+import type { ReadingSignals } from './library';
+
+// --- fetchBooksPage against a paged GET /books that only knows title order, or an old bare array
+
+const catalog: Book[] = ['Atomic Habits', 'Deep Work', 'Essentialism', 'Indistractable', 'Make Time'].map((title) =>
+  ({ id: title.toLowerCase().replace(/ /g, '-'), title, author: 'Someone', theme: title === 'Make Time' ? 'time' : 'focus' }));
+
+const signals: ReadingSignals = { lastChatted: { 'make-time': 300, essentialism: 200 }, savedCount: { indistractable: 4 } };
+
+let requests: URLSearchParams[];
+let bare: Book[] | null;
+
+const load = () => import('./library').then((m) => m.fetchBooksPage);
+
+const json = (data: unknown) => new Response(JSON.stringify(data), { headers: { 'Content-Type': 'application/json' } });
+
+beforeEach(() => {
+  vi.resetModules();
+  requests = [];
+  bare = null;
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const params = new URL(url).searchParams;
+    requests.push(params);
+    if (bare) return json(bare);
+    const theme = params.get('theme');
+    const list = catalog.filter((b) => !theme || b.theme === theme);
+    const page = Number(params.get('page'));
+    const size = Number(params.get('pageSize'));
+    const items = list.slice((page - 1) * size, page * size);
+    return json({ items, total: list.length, hasMore: page * size < list.length });
+  }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('fetchBooksPage with a paged backend', () => {
+  it('passes title order and paging straight to the server', async () => {
+    const fetchBooksPage = await load();
+    const res = await fetchBooksPage({ sort: 'title', page: 2, pageSize: 2 }, signals);
+    expect(res.items.map((b) => b.id)).toEqual(['essentialism', 'indistractable']);
+    expect(res).toMatchObject({ total: 5, hasMore: true });
+    expect(requests.map((p) => p.get('page'))).toEqual(['2']);
+  });
+
+  it('ranks the whole matching set for the device-local sorts, not just one page', async () => {
+    const fetchBooksPage = await load();
+    const first = await fetchBooksPage({ sort: 'recent', page: 1, pageSize: 2 }, signals);
+    expect(first.items.map((b) => b.id)).toEqual(['make-time', 'essentialism']);
+    expect(first).toMatchObject({ total: 5, hasMore: true });
+    const asked = requests.length;
+    // Later pages come from the same set without asking again
+    const rest = await fetchBooksPage({ sort: 'recent', page: 2, pageSize: 2 }, signals);
+    expect(rest.items.map((b) => b.id)).toEqual(['atomic-habits', 'deep-work']);
+    expect(requests).toHaveLength(asked);
+
+    const saved = await fetchBooksPage({ sort: 'saved', page: 1, pageSize: 2 }, signals);
+    expect(saved.items[0].id).toBe('indistractable');
+  });
+
+  it('keeps the filters when loading the matching set', async () => {
+    const fetchBooksPage = await load();
+    const res = await fetchBooksPage({ theme: 'focus', sort: 'recent', page: 1, pageSize: 10 }, signals);
+    expect(res.items.map((b) => b.id)).toEqual(['essentialism', 'atomic-habits', 'deep-work', 'indistractable']);
+    expect(requests.every((p) => p.get('theme') === 'focus' && p.get('sort') === 'title')).toBe(true);
+  });
+});
+
+describe('fetchBooksPage with a bare-array backend', () => {
+  it('pages the catalog locally and fetches it again once it is stale, after a retry or a new session', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    bare = catalog.slice(0, 3);
+    const [fetchBooksPage, { clearBookCache }, { auth }] = await Promise.all([load(), import('./library'), import('./auth')]);
+    const titles = async () => (await fetchBooksPage({ page: 1, pageSize: 10 }, signals)).items.map((b) => b.id);
+
+    expect(await titles()).toEqual(['atomic-habits', 'deep-work', 'essentialism']);
+    bare = catalog;
+    expect(await titles()).toHaveLength(3);
+    expect(requests).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+    expect(await titles()).toHaveLength(5);
+
+    bare = catalog.slice(0, 1);
+    clearBookCache();
+    expect(await titles()).toEqual(['atomic-habits']);
+
+    bare = catalog.slice(0, 2);
+    auth.signIn({ token: 't', user: { id: 'reader-2', email: 'reader2@example.com' } });
+    expect(await titles()).toEqual(['atomic-habits', 'deep-work']);
+    expect(requests).toHaveLength(4);
+    auth.signOut();
+  });
+});
@@ -0,0 +1,151 @@
+import type { Book, Chapter } from '../types';
+import { fuzzyFilter } from './fuzzy';
+import { api } from './api';
+import { auth } from './auth';
+
+// --- Library queries against GET /books
+// The endpoint takes `q`, `theme`, `author`, `sort`, `page` and `pageSize`. Backends that
+// still return a bare array are treated as "whole catalog": filtering, facets and paging
+// then happen here, with the same fuzzy matching as the search box.
+
+export type LibrarySort = 'title' | 'recent' | 'saved';
+
+export type BookQuery = { q?: string; theme?: string; author?: string; sort?: LibrarySort; page: number; pageSize: number };
+
+export type BookFacets = { themes: string[]; authors: string[] };
+
+export type BookPage = { items: Book[]; total: number; page: number; hasMore: boolean; facets: BookFacets };
+
+// Per-device signals for the "recently chatted" and "most saved" sorts
+export type ReadingSignals = { lastChatted: Record<string, number>; savedCount: Record<string, number> };
+
+const uniqSorted = (xs: (string | undefined)[]) =>
+  Array.from(new Set(xs.filter((x): x is string => !!x))).sort((a, b) => a.localeCompare(b));
+
+export const facetsOf = (books: Book[]): BookFacets => ({
+  themes: uniqSorted(books.map((b) => b.theme)),
+  authors: uniqSorted(books.map((b) => b.author)),
+});
+
+export const matchBooks = (books: Book[], q: string) => fuzzyFilter(books, q, (b) => [b.title, b.author, b.theme, b.tagline]);
+
+export function sortBooks(books: Book[], sort: LibrarySort, signals: ReadingSignals): Book[] {
+  const byTitle = (a: Book, b: Book) => a.title.localeCompare(b.title);
+  const list = [...books];
+  if (sort === 'recent') return list.sort((a, b) => (signals.lastChatted[b.id] ?? 0) - (signals.lastChatted[a.id] ?? 0) || byTitle(a, b));
+  if (sort === 'saved') return list.sort((a, b) => (signals.savedCount[b.id] ?? 0) - (signals.savedCount[a.id] ?? 0) || byTitle(a, b));
+  return list.sort(byTitle);
+}
+
+/** Filter, sort and page a full catalog locally */
+export function queryLocalBooks(all: Book[], query: BookQuery, signals: ReadingSignals): BookPage {
+  let list = query.q?.trim() ? matchBooks(all, query.q) : all;
+  if (query.theme) list = list.filter((b) => b.theme === query.theme);
+  if (query.author) list = list.filter((b) => b.author === query.author);
+  // A search ranks by relevance unless the reader picked another sort
+  if (!query.q?.trim() || query.sort !== 'title') list = sortBooks(list, query.sort ?? 'title', signals);
+  return pageOf(list, query, facetsOf(all));
+}
+
+/** The requested page of an already filtered and sorted list */
+function pageOf(list: Book[], query: BookQuery, facets: BookFacets): BookPage {
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: list.slice(start, start + query.pageSize),
+    total: list.length,
+    page: query.page,
+    hasMore: start + query.pageSize < list.length,
+    facets,
+  };
+}
+
+// GET /books/:id — the full record, including the table of contents
+export const fetchBookDetail = (id: string, signal?: AbortSignal): Promise<Book> => api.book(id, signal);
+
+export const chapterLabel = (c: Chapter, i: number) => `${c.number ?? i + 1}. ${c.title}`;
+
+// The whole catalog, once a bare-array backend has sent it. Kept for a few minutes, and dropped
+// when the account changes or the library page retries, so new books show up without a reload.
+let whole: { books: Book[]; at: number } | null = null;
+const WHOLE_TTL_MS = 5 * 60 * 1000;
+
+// Every book matching the current filters, for the device-local sorts on a paged backend.
+// The server only knows title order, so "recent" and "saved" rank the whole set here and
+// page it locally. Loaded again for each first page, then reused as the reader scrolls.
+let matching: { key: string; items: Book[]; facets: BookFacets } | null = null;
+const MATCHING_PAGE_SIZE = 100;
+
+/** Forget the cached catalog and matching set; the next page comes from the server */
+export function clearBookCache() {
+  whole = null;
+  matching = null;
+}
+
+auth.subscribe(clearBookCache);
+
+const cachedWhole = () => (whole && Date.now() - whole.at < WHOLE_TTL_MS ? whole.books : null);
+
+export async function fetchBooksPage(query: BookQuery, signals: ReadingSignals, signal?: AbortSignal): Promise<BookPage> {
+  const params = new URLSearchParams();
+  if (query.q?.trim()) params.set('q', query.q.trim());
+  if (query.theme) params.set('theme', query.theme);
+  if (query.author) params.set('author', query.author);
+  params.set('sort', 'title');
+
+  // A bare-array backend ignores the params, so fetch its catalog once and page it locally
+  const cached = cachedWhole();
+  if (cached) return queryLocalBooks(cached, query, signals);
+
+  if (query.sort && query.sort !== 'title') {
+    const set = await fetchMatching(params, query.page === 1, signal);
+    if (whole) return queryLocalBooks(whole.books, query, signals);
+    return pageOf(sortBooks(set.items, query.sort, signals), query, set.facets);
+  }
+
+  params.set('page', String(query.page));
+  params.set('pageSize', String(query.pageSize));
+  const data = await api.books(params, signal);
+  if (Array.isArray(data)) {
+    whole = { books: data, at: Date.now() };
+    return queryLocalBooks(data, query, signals);
+  }
+  const items = data.items;
+  const total = data.total ?? items.length;
+  return {
+    items,
+    total,
+    page: query.page,
+    hasMore: data.hasMore ?? query.page * query.pageSize < total,
+    facets: serverFacets(data.facets, items),
+  };
+}
+
+// Facets from a paged answer; the books at hand stand in for any the server left out
+const serverFacets = (facets: Partial<BookFacets> | undefined, items: Book[]): BookFacets => ({
+  themes: facets?.themes ?? facetsOf(items).themes,
+  authors: facets?.authors ?? facetsOf(items).authors,
+});
+
+/** Walk every page of a filtered listing; a bare-array answer fills `whole` instead */
+async function fetchMatching(filters: URLSearchParams, fresh: boolean, signal?: AbortSignal) {
+  const key = filters.toString();
+  if (!fresh && matching?.key === key) return matching;
+  const items: Book[] = [];
+  let facets: Partial<BookFacets> | undefined;
+  for (let page = 1; ; page++) {
+    const params = new URLSearchParams(filters);
+    params.set('page', String(page));
+    params.set('pageSize', String(MATCHING_PAGE_SIZE));
+    const data = await api.books(params, signal);
+    if (Array.isArray(data)) {
+      whole = { books: data, at: Date.now() };
+      return { key, items: data, facets: facetsOf(data) };
+    }
+    items.push(...data.items);
+    facets ??= data.facets;
+    const total = data.total ?? items.length;
+    if (!data.items.length || !(data.hasMore ?? items.length < total)) break;
+  }
+  matching = { key, items, facets: serverFacets(facets, items) };
+  return matching;
+}
@@ -0,0 +1,72 @@
+// --- Helpers for rendering markdown answers while they stream
+
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Close an unterminated code fence so partial markdown renders sensibly mid-stream;
+ * otherwise everything after the opening fence flips in and out of code on each chunk.
+ */
+export function closePartialMarkdown(text: string): string {
+  let open: string | null = null;
+  for (const l of text.split('\n')) {
+    const m = l.match(FENCE);
+    if (m) open = open === null ? m[1] : open === m[1] ? null : open;
+  }
+  return open ? `${text}\n${open}` : text;
+}
+
+// Strip markdown syntax for plain-text contexts (quick share, truncation)
+export const stripMarkdown = (text: string) =>
+  text
+    .replace(/```\w*\n?/g, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+\[( |x)\]\s+/gim, '• ')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1');
+
+/** Whole sentences of plain text up to `max` characters (at least the first one, cut with an ellipsis if needed) */
+export function cutSentences(plain: string, max: number): string {
+  if (plain.length <= max) return plain;
+  const sentences = plain.match(/[^.!?…]+[.!?…]+["”’)]*\s*/g) ?? [plain];
+  let out = '';
+  for (const s of sentences) {
+    if ((out + s).trim().length > max) break;
+    out += s;
+  }
+  return out.trim() || plain.slice(0, max - 1).trimEnd() + '…';
+}
+
+// --- Length limit on parsed markdown (share cards), as a remark plugin
+// Blocks and list items are kept whole while their text fits in `max` characters; when the
+// very first one is already too long, it keeps its first sentences as plain text.
+type MdNode = { type: string; value?: string; children?: MdNode[] };
+
+const CONTAINERS = new Set(['list', 'listItem', 'blockquote', 'table']);
+const textOf = (n: MdNode): string => n.value ?? (n.children ?? []).map(textOf).join('');
+
+function keepWithin(parent: MdNode, budget: number, first: boolean) {
+  const kept: MdNode[] = [];
+  for (const child of parent.children ?? []) {
+    const length = textOf(child).length;
+    if (length <= budget) {
+      kept.push(child);
+      budget -= length;
+      continue;
+    }
+    const alone = first && !kept.length;
+    if (child.children && CONTAINERS.has(child.type)) {
+      keepWithin(child, budget, alone);
+      if (child.children.length) kept.push(child);
+    } else if (alone) {
+      const cut = cutSentences(textOf(child).replace(/\s+/g, ' ').trim(), budget);
+      kept.push(child.children ? { ...child, children: [{ type: 'text', value: cut }] } : { ...child, value: cut });
+    }
+    break;
+  }
+  parent.children = kept;
+}
+
+export const remarkMaxLength = (max: number) => () => (tree: MdNode) => { keepWithin(tree, max, true); };
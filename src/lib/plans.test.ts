@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { planDayIndex, type Plan } from './plans';
+import { addDays, local, withTimeZone, ymd, ZONES, type Day } from '../test/timezones';
+
+const planFrom = (start: Day): Plan => ({
+  id: 'p1', bookId: 'atomic-habits', title: '7-day plan', startDate: ymd(start), createdAt: local(start, 9),
+  days: Array.from({ length: 7 }, () => ({ tasks: [{ id: crypto.randomUUID(), text: 'Do one thing', done: false }] })),
+});
+
+describe.each(ZONES)('planDayIndex in $tz', ({ tz, short, long }) => {
+  withTimeZone(tz);
+
+  it('counts calendar days from the start over both DST changes', () => {
+    for (const day of [short, long]) {
+      const p = planFrom(addDays(day, -2));
+      expect(planDayIndex(p, local(addDays(day, -2), 0, 0))).toBe(0);
+      expect(planDayIndex(p, local(day, 0, 30))).toBe(2);
+      expect(planDayIndex(p, local(day, 23, 59))).toBe(2);
+      expect(planDayIndex(p, local(addDays(day, 1), 0, 1))).toBe(3);
+      expect(planDayIndex(p, local(addDays(day, 4), 12))).toBe(6);
+      expect(planDayIndex(p, local(addDays(day, 5), 0, 0))).toBe(7);
+    }
+  });
+
+  it('turns over at local midnight, not 24 hours after the start', () => {
+    for (const day of [short, long]) {
+      const p = planFrom(day);
+      expect(planDayIndex(p, local(day, 23, 59))).toBe(0);
+      expect(planDayIndex(p, local(addDays(day, 1), 0, 0))).toBe(1);
+      expect(planDayIndex(p, local(day, 0, 0) - 60000)).toBe(-1);
+    }
+  });
+});
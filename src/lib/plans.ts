@@ -0,0 +1,157 @@
+import { useSyncExternalStore } from 'react';
+import { dayKey, parseDayKey } from './activity';
+import { stripMarkdown } from './markdown';
+
+// --- Multi-day plans ("Make a 7-day plan") as checklists
+// A plan comes from a structured `plan` in the answer's `meta` when the backend sends one,
+// otherwise it is parsed from the markdown ("Day 1: …" lines or headings followed by bullets).
+// Saved plans live next to the journal in localStorage under `plans`.
+
+export type PlanTask = { id: string; text: string; done: boolean; doneAt?: number };
+
+export type PlanDay = { title?: string; tasks: PlanTask[] };
+
+/** Daily reminder at `time` (local HH:MM) for the day's open tasks */
+export type PlanReminder = { enabled: boolean; time: string };
+
+export type Plan = {
+  id: string;
+  bookId: string;
+  title: string;
+  /** Local YYYY-MM-DD of day 1 */
+  startDate: string;
+  days: PlanDay[];
+  createdAt: number;
+  /** The book message the plan was saved from */
+  sourceMsgId?: string;
+  reminder?: PlanReminder;
+};
+
+export type PlanDraft = { title?: string; days: { title?: string; tasks: string[] }[] };
+
+const DAY_LINE = /^(?:#{1,6}\s*)?(?:(?:[-*•]|\d+[.)])\s*)?(?:\*\*|__)?\s*day\s*(\d{1,2})\b\s*(?:\*\*|__)?\s*[:.\-–—)]?\s*(.*)$/i;
+const BULLET = /^(?:[-*•+]|\d+[.)]|\[[ x]\])\s+(.*)$/i;
+
+const clean = (s: string) => stripMarkdown(s).replace(/\s+/g, ' ').replace(/^[:.\-–—)\s]+/, '').trim();
+
+/** Days and tasks from an answer's markdown, or null when it doesn't look like a plan (fewer than 2 days) */
+export function parsePlan(text: string): PlanDraft | null {
+  const days: { n: number; title?: string; tasks: string[] }[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+    const day = line.match(DAY_LINE);
+    if (day) {
+      const rest = clean(day[2].replace(/^(?:\*\*|__)|(?:\*\*|__)$/g, ''));
+      days.push({ n: Number(day[1]), title: rest || undefined, tasks: [] });
+      continue;
+    }
+    const bullet = line.match(BULLET);
+    if (bullet && days.length) {
+      const task = clean(bullet[1]);
+      if (task) days[days.length - 1].tasks.push(task);
+    }
+  }
+  // Day headings must count up from 1; anything else is prose that mentions days
+  if (days.length < 2 || days.some((d, i) => d.n !== i + 1)) return null;
+  return {
+    days: days.map((d) => (d.tasks.length ? { title: d.title, tasks: d.tasks } : { tasks: d.title ? [d.title] : [] })).filter((d) => d.tasks.length),
+  };
+}
+
+/** A structured plan from `meta.plan`: `{ title?, days: [{ title?, tasks: string[] }] }` */
+export function planFromMeta(meta: Record<string, unknown> | undefined): PlanDraft | null {
+  const p = meta?.plan as any;
+  if (!p || !Array.isArray(p.days)) return null;
+  const days = p.days
+    .map((d: any) => ({
+      title: typeof d?.title === 'string' ? d.title : undefined,
+      tasks: (Array.isArray(d?.tasks) ? d.tasks : []).filter((t: unknown): t is string => typeof t === 'string' && !!t.trim()),
+    }))
+    .filter((d: PlanDay) => d.tasks.length);
+  return days.length ? { title: typeof p.title === 'string' ? p.title : undefined, days } : null;
+}
+
+const KEY = 'plans';
+const listeners = new Set<() => void>();
+
+const read = (): Plan[] => {
+  try {
+    const list = JSON.parse(localStorage.getItem(KEY) || '[]');
+    return Array.isArray(list) ? list.filter((p) => p && typeof p.id === 'string' && Array.isArray(p.days)) : [];
+  } catch {
+    return [];
+  }
+};
+
+let all: Plan[] = read();
+
+const commit = (next: Plan[]) => {
+  all = next;
+  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch (e) { console.warn('plans save failed', e); }
+  listeners.forEach((l) => l());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    all = read();
+    listeners.forEach((l) => l());
+  });
+}
+
+const mapPlan = (id: string, fn: (p: Plan) => Plan) => commit(all.map((p) => (p.id === id ? fn(p) : p)));
+
+export const plans = {
+  getAll: () => all,
+  /** Save a draft starting today */
+  add(draft: PlanDraft, bookId: string, title: string, sourceMsgId?: string): Plan {
+    const plan: Plan = {
+      id: crypto.randomUUID(),
+      bookId,
+      title: draft.title || title,
+      startDate: dayKey(Date.now()),
+      createdAt: Date.now(),
+      days: draft.days.map((d) => ({ title: d.title, tasks: d.tasks.map((text) => ({ id: crypto.randomUUID(), text, done: false })) })),
+      ...(sourceMsgId ? { sourceMsgId } : {}),
+    };
+    commit([...all, plan]);
+    return plan;
+  },
+  toggleTask(planId: string, taskId: string) {
+    mapPlan(planId, (p) => ({
+      ...p,
+      days: p.days.map((d) => ({ ...d, tasks: d.tasks.map((t) => (t.id === taskId ? { ...t, done: !t.done, doneAt: t.done ? undefined : Date.now() } : t)) })),
+    }));
+  },
+  setReminder(planId: string, reminder: PlanReminder) {
+    mapPlan(planId, (p) => ({ ...p, reminder }));
+  },
+  remove(planId: string) {
+    commit(all.filter((p) => p.id !== planId));
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const usePlans = () => useSyncExternalStore(plans.subscribe, plans.getAll);
+
+export const planProgress = (p: Plan) => {
+  const tasks = p.days.flatMap((d) => d.tasks);
+  return { done: tasks.filter((t) => t.done).length, total: tasks.length };
+};
+
+/** 0-based index of the plan day that falls on `now` (may be negative or past the end) */
+export function planDayIndex(p: Plan, now = Date.now()): number {
+  const start = parseDayKey(p.startDate);
+  const today = parseDayKey(dayKey(now));
+  // Calendar days between the two local midnights; rounding absorbs a DST hour
+  return Math.round((today.getTime() - start.getTime()) / 86400000);
+}
+
+export const isFinished = (p: Plan) => {
+  const { done, total } = planProgress(p);
+  return done === total;
+};
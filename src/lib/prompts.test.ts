@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { Book, Thread } from '../types';
+import { dailyPrompts, focusBooks, type PromptSources } from './prompts';
+
+const books: Book[] = [
+  { id: 'deep-work', title: 'Deep Work', author: 'Cal Newport' },
+  { id: 'atomic-habits', title: 'Atomic Habits', author: 'James Clear' },
+  { id: 'essentialism', title: 'Essentialism', author: 'Greg McKeown' },
+];
+
+const details: Record<string, Book> = Object.fromEntries(books.map((b) =>
+  [b.id, { ...b, suggestedQuestions: [`Where should I start with ${b.title}?`] }]));
+
+const thread = (bookId: string, updatedAt: number): Thread =>
+  ({ id: bookId, bookId, title: 'Untitled', createdAt: updatedAt, updatedAt, messages: [] });
+
+const sources = (over: Partial<PromptSources> = {}): PromptSources =>
+  ({ books, details, threads: [], journal: [], day: '2024-05-01', ...over });
+
+describe('focusBooks', () => {
+  it('ranks books by recent use, then fills up from the catalog', () => {
+    const src = sources({ threads: [thread('essentialism', 200)], journal: [{ id: 'j1', ts: 100, bookId: 'atomic-habits', q: 'q', a: 'a' }] });
+    expect(focusBooks(src).map((b) => b.id)).toEqual(['essentialism', 'atomic-habits', 'deep-work']);
+  });
+
+  it('merges the full record into books the reader has not used yet', () => {
+    const src = sources({ threads: [thread('essentialism', 200)] });
+    const [, unused] = focusBooks(src);
+    expect(unused).toMatchObject({ id: 'deep-work', suggestedQuestions: ['Where should I start with Deep Work?'] });
+  });
+});
+
+describe('dailyPrompts', () => {
+  it('offers starter questions to a reader with no history', () => {
+    const prompts = dailyPrompts(sources(), 3, new Date(2024, 4, 1).getTime());
+    expect(prompts.some((p) => p.kind === 'starter' && p.text === details[p.bookId].suggestedQuestions![0])).toBe(true);
+  });
+});
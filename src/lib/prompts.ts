@@ -0,0 +1,120 @@
+import type { Book, Thread } from '../types';
+import type { JournalEntry } from './journal';
+import { chapterLabel } from './library';
+import { t, type MessageKey } from './i18n';
+import { UNTITLED } from './threads';
+
+// --- Daily prompts
+// Candidates come from what the reader is actually doing: starters from the books they read
+// (book metadata), follow-ups on recent threads, their journal tags and chapters they haven't
+// asked about yet, with a generic pool as fallback. The pick is seeded by the local date, so
+// it stays the same all day and changes tomorrow. Every prompt names the book it belongs to.
+
+export type PromptKind = 'starter' | 'thread' | 'tag' | 'chapter' | 'generic';
+
+export type DailyPrompt = { text: string; bookId: string; kind: PromptKind; chapterIds?: string[]; reason: string };
+
+export type PromptSources = {
+  books: Book[];
+  /** Full records from GET /books/:id (chapters, suggested questions), by id */
+  details?: Record<string, Book>;
+  threads: Thread[];
+  journal: JournalEntry[];
+  /** Local YYYY-MM-DD */
+  day: string;
+};
+
+const GENERIC: MessageKey[] = ['prompt.generic.habit', 'prompt.generic.example', 'prompt.generic.plan', 'prompt.generic.mistake', 'prompt.generic.apply'];
+
+const RECENT_MS = 14 * 86400000;
+
+// FNV-1a string hash → mulberry32 generator
+const seeded = (key: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < key.length; i++) h = Math.imul(h ^ key.charCodeAt(i), 16777619);
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T,>(xs: T[], rand: () => number) => {
+  const a = [...xs];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+};
+
+/** Books ranked by the reader's recent use (threads, then journal saves); the catalog order fills the rest */
+export function focusBooks(src: PromptSources, limit = 3): Book[] {
+  const score = new Map<string, number>();
+  for (const t of src.threads) score.set(t.bookId, Math.max(score.get(t.bookId) ?? 0, t.updatedAt));
+  for (const e of src.journal) score.set(e.bookId, Math.max(score.get(e.bookId) ?? 0, e.ts));
+  const byId = new Map(src.books.map((b) => [b.id, { ...b, ...src.details?.[b.id] }]));
+  const used = Array.from(score).sort((a, b) => b[1] - a[1]).map(([id]) => byId.get(id)).filter((b): b is Book => !!b);
+  return [...used, ...src.books.filter((b) => !score.has(b.id)).map((b) => byId.get(b.id)!)].slice(0, limit);
+}
+
+function candidates(src: PromptSources, focus: Book[], now: number): Record<PromptKind, DailyPrompt[]> {
+  const titleOf = (id: string) => src.books.find((b) => b.id === id)?.title ?? t('prompt.thisBook');
+  const asked = new Set(src.threads.flatMap((t) => t.messages.filter((m) => m.role === 'user').map((m) => m.content.trim().toLowerCase())));
+  const fresh = (p: DailyPrompt) => !asked.has(p.text.toLowerCase());
+
+  const starter = focus.flatMap((b) =>
+    (b.suggestedQuestions ?? []).map((text) => ({ text, bookId: b.id, kind: 'starter' as const, reason: t('prompt.reason.starter', { title: b.title }) })));
+
+  const thread = src.threads
+    .filter((th) => now - th.updatedAt < RECENT_MS && th.messages.length && th.title !== UNTITLED)
+    .slice(0, 5)
+    .map((th) => ({ text: t('prompt.thread', { title: th.title }), bookId: th.bookId, kind: 'thread' as const, reason: t('prompt.reason.thread', { title: titleOf(th.bookId) }) }));
+
+  // Each tag goes to the book it was used with most
+  const tagBooks = new Map<string, Map<string, number>>();
+  for (const e of src.journal) for (const tag of e.tags ?? []) {
+    const m = tagBooks.get(tag) ?? new Map<string, number>();
+    m.set(e.bookId, (m.get(e.bookId) ?? 0) + 1);
+    tagBooks.set(tag, m);
+  }
+  const tag = Array.from(tagBooks).map(([name, m]) => {
+    const bookId = Array.from(m).sort((a, b) => b[1] - a[1])[0][0];
+    return { text: t('prompt.tag', { title: titleOf(bookId), topic: name.replace(/-/g, ' ') }), bookId, kind: 'tag' as const, reason: t('prompt.reason.tag', { tag: name }) };
+  });
+
+  const explored = new Set(src.threads.flatMap((t) => t.messages.flatMap((m) => m.chapterIds ?? [])));
+  const chapter = focus.flatMap((b) =>
+    (b.chapters ?? []).flatMap((c, i) => explored.has(c.id) ? [] : [{
+      text: t('prompt.chapter', { title: c.title }), bookId: b.id, kind: 'chapter' as const, chapterIds: [c.id], reason: t('prompt.reason.chapter', { chapter: chapterLabel(c, i), title: b.title }),
+    }]));
+
+  const generic = focus.length
+    ? GENERIC.map((key, i) => ({ text: t(key), bookId: focus[i % focus.length].id, kind: 'generic' as const, reason: t('prompt.reason.generic', { title: focus[i % focus.length].title }) }))
+    : [];
+
+  return { starter: starter.filter(fresh), thread, tag, chapter: chapter.filter(fresh), generic };
+}
+
+/**
+ * `count` prompts for the day: one from each personal source in a day-rotated order, then
+ * whatever is left, with generic prompts last. Same inputs and day, same prompts.
+ */
+export function dailyPrompts(src: PromptSources, count = 3, now = Date.now()): DailyPrompt[] {
+  const rand = seeded(src.day);
+  const pools = candidates(src, focusBooks(src), now);
+  const kinds = shuffle<Exclude<PromptKind, 'generic'>>(['starter', 'thread', 'tag', 'chapter'], rand);
+  const queues = kinds.map((k) => shuffle(pools[k], rand));
+  const picks: DailyPrompt[] = [];
+  const seen = new Set<string>();
+  const take = (p?: DailyPrompt) => {
+    if (!p || seen.has(p.text) || picks.length >= count) return;
+    seen.add(p.text);
+    picks.push(p);
+  };
+  // Round-robin across sources so one busy source doesn't crowd out the others
+  while (picks.length < count && queues.some((q) => q.length)) for (const q of queues) take(q.shift());
+  for (const p of shuffle(pools.generic, rand)) take(p);
+  return picks;
+}
@@ -0,0 +1,137 @@
+import { useSyncExternalStore } from 'react';
+import { api } from './api';
+import { answerLanguage, t } from './i18n';
+
+// --- Quizzes: POST /quiz, scoring, and results per book
+// The backend returns `{ questions: [...] }` with multiple-choice (`options` + `answer` index)
+// and short-answer (`answer` text, optional `keywords`) questions. Results are kept in
+// localStorage under `quizResults`; missed topics feed the suggested questions on the home page.
+
+export type QuizQuestion =
+  | { id: string; kind: 'mc'; prompt: string; options: string[]; answer: number; explanation?: string; topic?: string }
+  | { id: string; kind: 'short'; prompt: string; answer: string; keywords?: string[]; explanation?: string; topic?: string };
+
+export type Quiz = { id: string; bookId: string; chapterIds?: string[]; questions: QuizQuestion[] };
+
+export type QuizResult = {
+  id: string;
+  quizId: string;
+  bookId: string;
+  chapterIds?: string[];
+  ts: number;
+  score: number;
+  total: number;
+  /** Topic (or the prompt, when the question has no topic) of every question answered wrong / right */
+  missed: string[];
+  correct: string[];
+};
+
+export type WeakTopic = { bookId: string; topic: string; misses: number };
+
+const str = (x: unknown) => (typeof x === 'string' ? x.trim() : '');
+
+/** Validate a /quiz payload; malformed questions are dropped rather than failing the whole quiz */
+export function normalizeQuiz(payload: any, bookId: string, chapterIds?: string[]): Quiz {
+  const list = Array.isArray(payload) ? payload : Array.isArray(payload?.questions) ? payload.questions : [];
+  const questions: QuizQuestion[] = [];
+  list.forEach((q: any, i: number) => {
+    const prompt = str(q?.prompt ?? q?.question);
+    if (!prompt) return;
+    const base = { id: str(q.id) || `q${i + 1}`, prompt, explanation: str(q.explanation) || undefined, topic: str(q.topic) || undefined };
+    const options = Array.isArray(q.options) ? q.options.map(str).filter(Boolean) : [];
+    if (options.length >= 2) {
+      // `answer` may be the option index or the option text
+      const answer = typeof q.answer === 'number' ? q.answer : options.indexOf(str(q.answer));
+      if (answer >= 0 && answer < options.length) questions.push({ ...base, kind: 'mc', options, answer });
+    } else if (str(q.answer)) {
+      const keywords = Array.isArray(q.keywords) ? q.keywords.map(str).filter(Boolean) : undefined;
+      questions.push({ ...base, kind: 'short', answer: str(q.answer), ...(keywords?.length ? { keywords } : {}) });
+    }
+  });
+  if (!questions.length) throw new Error('The quiz came back empty.');
+  return { id: str(payload?.id) || crypto.randomUUID(), bookId, ...(chapterIds?.length ? { chapterIds } : {}), questions };
+}
+
+export async function fetchQuiz(bookId: string, chapterIds: string[] = [], signal?: AbortSignal): Promise<Quiz> {
+  const payload = await api.quiz({ bookId, count: 5, language: answerLanguage(), ...(chapterIds.length ? { chapterIds } : {}) }, signal);
+  return normalizeQuiz(payload, bookId, chapterIds);
+}
+
+const words = (s: string) => s.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter((w) => w.length > 2);
+
+/**
+ * First-pass grade for a short answer: enough of the expected keywords (or of the model
+ * answer's words) appear in the response. The reader can overrule it after seeing the answer.
+ */
+export function gradeShortAnswer(response: string, q: Extract<QuizQuestion, { kind: 'short' }>): boolean {
+  const said = new Set(words(response));
+  if (!said.size) return false;
+  const expected = q.keywords?.length ? q.keywords.flatMap(words) : words(q.answer);
+  if (!expected.length) return false;
+  const hits = expected.filter((w) => said.has(w)).length;
+  return hits / expected.length >= (q.keywords?.length ? 0.5 : 0.4);
+}
+
+// --- Results store (same pattern as the journal)
+const KEY = 'quizResults';
+const MAX_RESULTS = 200;
+const listeners = new Set<() => void>();
+
+const read = (): QuizResult[] => {
+  try {
+    const list = JSON.parse(localStorage.getItem(KEY) || '[]');
+    return Array.isArray(list) ? list.filter((r) => r && typeof r.bookId === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+let results: QuizResult[] = read();
+
+const commit = (next: QuizResult[]) => {
+  results = next;
+  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch (e) { console.warn('quiz results save failed', e); }
+  listeners.forEach((l) => l());
+};
+
+export const quizResults = {
+  getAll: () => results,
+  add(result: Omit<QuizResult, 'id' | 'ts'>): QuizResult {
+    const created: QuizResult = { ...result, id: crypto.randomUUID(), ts: Date.now() };
+    commit([...results, created].slice(-MAX_RESULTS));
+    return created;
+  },
+  update(id: string, patch: Partial<Omit<QuizResult, 'id' | 'ts'>>) {
+    commit(results.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useQuizResults = () => useSyncExternalStore(quizResults.subscribe, quizResults.getAll);
+
+/**
+ * Topics missed in recent quizzes, most missed first. A topic answered right the last time
+ * it came up no longer counts as weak.
+ */
+export function weakTopics(list: QuizResult[], limit = 3, recent = 10): WeakTopic[] {
+  const topics = new Map<string, WeakTopic & { settled: boolean }>();
+  for (const r of [...list].sort((a, b) => b.ts - a.ts).slice(0, recent)) {
+    const seen = (topic: string, missed: boolean) => {
+      const key = `${r.bookId}\n${topic.toLowerCase()}`;
+      const t = topics.get(key) ?? { bookId: r.bookId, topic, misses: 0, settled: !missed };
+      topics.set(key, { ...t, misses: t.misses + (missed ? 1 : 0) });
+    };
+    r.missed.forEach((t) => seen(t, true));
+    (r.correct ?? []).forEach((t) => seen(t, false));
+  }
+  return Array.from(topics.values())
+    .filter((t) => !t.settled && t.misses > 0)
+    .sort((a, b) => b.misses - a.misses)
+    .slice(0, limit)
+    .map(({ settled, ...t }) => t);
+}
+
+export const weakTopicQuestion = (topic: string) => t('quiz.weak.question', { topic });
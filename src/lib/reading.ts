@@ -0,0 +1,118 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import type { MessageKey } from './i18n';
+
+// --- Reading settings: theme, answer text size and line height, dyslexia-friendly font
+// Kept in localStorage (`reading`) and synced with the account like the journal, so a reader's
+// choice follows them to other devices; the newer change wins. Applied to <html>: `data-theme`
+// switches the palette (see tailwind.config.ts), the `--reading-*` variables size every `.reading`
+// block (chat answers, journal entries, the reading view) and `data-font` swaps the typeface.
+
+export type ThemeChoice = 'system' | 'light' | 'dark';
+
+export type ReadingSettings = {
+  theme: ThemeChoice;
+  /** Answer text size in px */
+  fontSize: number;
+  lineHeight: number;
+  dyslexicFont: boolean;
+  updatedAt?: number;
+};
+
+export const FONT_SIZES = [14, 16, 18, 20, 22];
+
+export const LINE_HEIGHTS: { value: number; label: MessageKey }[] = [
+  { value: 1.5, label: 'reading.spacing.compact' },
+  { value: 1.75, label: 'reading.spacing.normal' },
+  { value: 2, label: 'reading.spacing.relaxed' },
+];
+
+// The original look: dark slate, answers at text-sm / leading-6
+export const DEFAULT_READING: ReadingSettings = { theme: 'dark', fontSize: 14, lineHeight: 1.75, dyslexicFont: false };
+
+const KEY = 'reading';
+const listeners = new Set<() => void>();
+
+const read = (): ReadingSettings => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '{}');
+    return {
+      theme: ['system', 'light', 'dark'].includes(data.theme) ? data.theme : DEFAULT_READING.theme,
+      fontSize: FONT_SIZES.includes(data.fontSize) ? data.fontSize : DEFAULT_READING.fontSize,
+      lineHeight: LINE_HEIGHTS.some((l) => l.value === data.lineHeight) ? data.lineHeight : DEFAULT_READING.lineHeight,
+      dyslexicFont: data.dyslexicFont === true,
+      ...(typeof data.updatedAt === 'number' ? { updatedAt: data.updatedAt } : {}),
+    };
+  } catch {
+    return DEFAULT_READING;
+  }
+};
+
+let settings = read();
+
+const systemDark = () => typeof window === 'undefined' || !window.matchMedia || window.matchMedia('(prefers-color-scheme: dark)').matches;
+
+/** The theme actually shown: "system" follows the OS */
+export const resolvedTheme = (s: ReadingSettings = settings): 'light' | 'dark' =>
+  s.theme === 'system' ? (systemDark() ? 'dark' : 'light') : s.theme;
+
+const apply = (s: ReadingSettings) => {
+  if (typeof document === 'undefined') return;
+  const root = document.documentElement;
+  root.dataset.theme = resolvedTheme(s);
+  root.style.setProperty('--reading-size', `${s.fontSize}px`);
+  root.style.setProperty('--reading-leading', String(s.lineHeight));
+  if (s.dyslexicFont) root.dataset.font = 'dyslexic';
+  else delete root.dataset.font;
+};
+
+const commit = (next: ReadingSettings) => {
+  settings = next;
+  try { localStorage.setItem(KEY, JSON.stringify(settings)); } catch {}
+  apply(settings);
+  listeners.forEach((l) => l());
+};
+
+// Applied before the first render so the page doesn't flash the wrong theme
+apply(settings);
+
+// Changed in another tab
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== KEY) return;
+    settings = read();
+    apply(settings);
+    listeners.forEach((l) => l());
+  });
+}
+
+export const readingSettings = {
+  get: () => settings,
+  set(patch: Partial<Omit<ReadingSettings, 'updatedAt'>>) {
+    commit({ ...settings, ...patch, updatedAt: Date.now() });
+  },
+  reset() {
+    commit({ ...DEFAULT_READING, updatedAt: Date.now() });
+  },
+  /** Take the synced copy when it is newer than ours */
+  merge(remote: ReadingSettings) {
+    if ((remote.updatedAt ?? 0) > (settings.updatedAt ?? 0)) commit(remote);
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useReadingSettings = () => useSyncExternalStore(readingSettings.subscribe, readingSettings.get);
+
+/** Follow OS light/dark switches while the theme is "system" */
+export function useSystemTheme() {
+  const { theme } = useReadingSettings();
+  useEffect(() => {
+    if (theme !== 'system' || typeof window === 'undefined' || !window.matchMedia) return;
+    const mq = window.matchMedia('(prefers-color-scheme: dark)');
+    const onChange = () => apply(readingSettings.get());
+    mq.addEventListener('change', onChange);
+    return () => mq.removeEventListener('change', onChange);
+  }, [theme]);
+}
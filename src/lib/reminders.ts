@@ -0,0 +1,106 @@
+import { dayKey } from './activity';
+import { isFinished, planDayIndex, plans, type Plan } from './plans';
+import { t } from './i18n';
+
+// --- Plan reminders, shown through the PWA service worker
+// Without a push server a page can't reliably wake itself later, so: where Notification
+// Triggers exist the whole plan is scheduled up front; elsewhere reminders fire from a timer
+// while the app is open, plus a catch-up on launch when today's time has already passed.
+// Clicks are handled in public/sw-notifications.js (imported into the generated worker).
+
+const SHOWN_KEY = 'planRemindersShown'; // { [planId]: local YYYY-MM-DD of the last reminder }
+const MAX_TIMER = 2 ** 31 - 1; // setTimeout overflows past ~24.8 days
+
+export const remindersSupported = () =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+/** Ask for notification permission; resolves true when reminders can be shown */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!remindersSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+const readShown = (): Record<string, string> => {
+  try { return JSON.parse(localStorage.getItem(SHOWN_KEY) || '{}') ?? {}; } catch { return {}; }
+};
+
+const markShown = (planId: string, key: string) => {
+  try { localStorage.setItem(SHOWN_KEY, JSON.stringify({ ...readShown(), [planId]: key })); } catch {}
+};
+
+/** Reminder time on the local day `offset` days from `now` */
+const at = (time: string, now: number, offset = 0) => {
+  const [h, m] = time.split(':').map(Number);
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + offset, h || 0, m || 0).getTime();
+};
+
+const openTasks = (p: Plan, dayIdx: number) => p.days[dayIdx]?.tasks.filter((t) => !t.done) ?? [];
+
+const notification = (p: Plan, dayIdx: number, tasks = openTasks(p, dayIdx)) => ({
+  title: `${t('plan.day', { day: dayIdx + 1 })}: ${p.title}`,
+  options: {
+    body: tasks.length ? tasks.map((t) => `• ${t.text}`).join('\n') : t('plan.reminder.body'),
+    icon: '/icons/icon-192.svg',
+    tag: `plan-${p.id}`,
+    data: { url: `/plans/${p.id}` },
+  } as NotificationOptions,
+});
+
+const active = (p: Plan) => p.reminder?.enabled && !isFinished(p);
+
+async function showNow(p: Plan, dayIdx: number) {
+  const reg = await navigator.serviceWorker.ready;
+  const { title, options } = notification(p, dayIdx);
+  await reg.showNotification(title, options);
+  markShown(p.id, dayKey(Date.now()));
+}
+
+// Chromium's experimental Notification Triggers
+const triggersSupported = () => typeof window !== 'undefined' && 'TimestampTrigger' in window;
+
+async function scheduleWithTriggers(list: Plan[], now: number) {
+  const reg = await navigator.serviceWorker.ready;
+  // Replace everything scheduled earlier; plans, times or checked tasks may have changed
+  const pending = await reg.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+  pending.filter((n) => n.tag.startsWith('plan-scheduled-')).forEach((n) => n.close());
+  for (const p of list.filter(active)) {
+    const today = planDayIndex(p, now);
+    for (let i = Math.max(0, today); i < p.days.length; i++) {
+      const when = at(p.reminder!.time, now, i - today);
+      if (when <= now) continue;
+      const { title, options } = notification(p, i, i === today ? undefined : p.days[i].tasks);
+      const TimestampTrigger = (window as any).TimestampTrigger;
+      await reg.showNotification(title, { ...options, tag: `plan-scheduled-${p.id}-${i}`, showTrigger: new TimestampTrigger(when) } as NotificationOptions);
+    }
+  }
+}
+
+/**
+ * Keep reminders in step with the saved plans; call again whenever they change. Without
+ * triggers, shows a reminder already due today that hasn't been shown yet and sets timers for
+ * the rest of today. Returns a cleanup for the timers.
+ */
+export function syncReminders(list: Plan[], now = Date.now()): () => void {
+  if (!remindersSupported() || Notification.permission !== 'granted') return () => {};
+  const shown = readShown();
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  if (triggersSupported()) {
+    scheduleWithTriggers(list, now).catch((e) => console.warn('scheduling plan reminders failed', e));
+    return () => {};
+  }
+  const show = (p: Plan, dayIdx: number) => showNow(p, dayIdx).catch((e) => console.warn('plan reminder failed', e));
+  for (const p of list.filter(active)) {
+    const dayIdx = planDayIndex(p, now);
+    if (dayIdx < 0 || dayIdx >= p.days.length || !openTasks(p, dayIdx).length) continue;
+    const todayAt = at(p.reminder!.time, now);
+    if (todayAt > now) timers.push(setTimeout(() => show(p, dayIdx), Math.min(todayAt - now, MAX_TIMER)));
+    else if (shown[p.id] !== dayKey(now)) show(p, dayIdx);
+  }
+  // Start over after midnight for tabs left open
+  let next = () => {};
+  timers.push(setTimeout(() => { next = syncReminders(plans.getAll()); }, at('00:00', now, 1) - now + 1000));
+  return () => { timers.forEach(clearTimeout); next(); };
+}
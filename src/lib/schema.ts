@@ -0,0 +1,93 @@
+// --- Runtime checks for server payloads
+// A schema is a function that returns the value typed (and trimmed to the declared fields) or
+// throws a SchemaError naming the first bad field, e.g. `items[3].title: expected string`.
+// Optional fields that are missing or null are left out of the result rather than set to
+// undefined, so parsed objects can be spread over each other safely.
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, readonly expected: string) {
+    super(`${path || 'response'}: expected ${expected}`);
+    this.name = 'SchemaError';
+  }
+}
+
+const OPTIONAL = Symbol('optional');
+
+type OptionalSchema<T> = Schema<T | undefined> & { [OPTIONAL]: true };
+
+const at = (path: string, key: string | number) => (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+export const string: Schema<string> = (v, path = '') => {
+  if (typeof v !== 'string') throw new SchemaError(path, 'string');
+  return v;
+};
+
+export const number: Schema<number> = (v, path = '') => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new SchemaError(path, 'number');
+  return v;
+};
+
+export const boolean: Schema<boolean> = (v, path = '') => {
+  if (typeof v !== 'boolean') throw new SchemaError(path, 'boolean');
+  return v;
+};
+
+/** Ids come as strings or numbers depending on the backend; always strings here */
+export const id: Schema<string> = (v, path = '') => {
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  if (typeof v !== 'string' || !v) throw new SchemaError(path, 'id');
+  return v;
+};
+
+/** Anything at all, for payloads another module checks (quiz questions, metadata) */
+export const unknown: Schema<unknown> = (v) => v;
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  const s = ((v: unknown, path = '') => (v === undefined || v === null ? undefined : schema(v, path))) as OptionalSchema<T>;
+  s[OPTIONAL] = true;
+  return s;
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (v, path = '') => {
+    if (!Array.isArray(v)) throw new SchemaError(path, 'array');
+    return v.map((x, i) => item(x, at(path, i)));
+  };
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return (v, path = '') => {
+    if (!values.includes(v as T)) throw new SchemaError(path, values.map((x) => `"${x}"`).join(' | '));
+    return v as T;
+  };
+}
+
+/** A JSON object used as a map, e.g. `{ "2024-05-01": {...} }` */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return (v, path = '') => {
+    if (!v || typeof v !== 'object' || Array.isArray(v)) throw new SchemaError(path, 'object');
+    return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, value(x, at(path, k))]));
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Out<S extends Shape> = {
+  [K in keyof S as S[K] extends { [OPTIONAL]: true } ? never : K]: S[K] extends Schema<infer T> ? T : never;
+} & {
+  [K in keyof S as S[K] extends { [OPTIONAL]: true } ? K : never]?: S[K] extends Schema<infer T> ? Exclude<T, undefined> : never;
+};
+
+export function object<S extends Shape>(shape: S): Schema<{ [K in keyof Out<S>]: Out<S>[K] }> {
+  return (v, path = '') => {
+    if (!v || typeof v !== 'object' || Array.isArray(v)) throw new SchemaError(path, 'object');
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key]((v as Record<string, unknown>)[key], at(path, key));
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return out as any;
+  };
+}
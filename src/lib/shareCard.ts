@@ -0,0 +1,55 @@
+import html2canvas from 'html2canvas';
+import { cutSentences, stripMarkdown } from './markdown';
+import { downloadFile } from './journalExport';
+import type { MessageKey } from './i18n';
+
+// --- Share cards: templates, text fitting and PNG export/sharing
+// Cards are React elements rendered off-screen and rasterized with html2canvas; text only
+// ever reaches the card as React children, never as HTML.
+
+export type ShareTemplate = 'quote' | 'bullets' | 'story' | 'square';
+
+export const SHARE_TEMPLATES: Record<ShareTemplate, { label: MessageKey; width: number; height: number }> = {
+  quote: { label: 'share.template.quote', width: 1200, height: 675 },
+  bullets: { label: 'share.template.bullets', width: 1080, height: 1350 },
+  story: { label: 'share.template.story', width: 1080, height: 1920 },
+  square: { label: 'share.template.square', width: 1080, height: 1080 },
+};
+
+// Plain text without citation markers, one space between words
+export const plainText = (text: string) => stripMarkdown(text).replace(/\[\d+\]/g, '').replace(/[ \t]+/g, ' ').trim();
+
+/** Whole sentences up to `max` characters (at least the first one, cut with an ellipsis if needed) */
+export const excerpt = (text: string, max: number) => cutSentences(plainText(text).replace(/\s*\n\s*/g, ' '), max);
+
+/** The answer's bullet points, or its first sentences when it has none */
+export function bulletsFrom(text: string, max = 5, maxLen = 140): string[] {
+  const lines = text.split('\n').map((l) => l.match(/^\s*(?:[-*+•]|\d+[.)])\s+(.*)$/)?.[1]).filter((l): l is string => !!l);
+  const items = lines.length >= 2 ? lines : plainText(text).match(/[^.!?…]+[.!?…]+/g) ?? [];
+  return items.slice(0, max).map((l) => excerpt(l, maxLen));
+}
+
+/** Rasterize a rendered card at its CSS size */
+export async function renderPng(node: HTMLElement): Promise<Blob> {
+  const canvas = await html2canvas(node, { backgroundColor: null, scale: 1, useCORS: true, width: node.offsetWidth, height: node.offsetHeight });
+  return new Promise((resolve, reject) => canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('Could not encode PNG'))), 'image/png'));
+}
+
+export const canShareFiles = () => {
+  try {
+    return typeof navigator !== 'undefined' && !!navigator.canShare?.({ files: [new File([''], 'card.png', { type: 'image/png' })] });
+  } catch {
+    return false;
+  }
+};
+
+/** Share the PNG through the Web Share API when files can be shared, otherwise download it */
+export async function sharePng(blob: Blob, name: string, meta: { title: string; text?: string }): Promise<'shared' | 'downloaded'> {
+  const file = new File([blob], name, { type: 'image/png' });
+  if (canShareFiles()) {
+    await navigator.share({ files: [file], title: meta.title, ...(meta.text ? { text: meta.text } : {}) });
+    return 'shared';
+  }
+  downloadFile(name, blob);
+  return 'downloaded';
+}
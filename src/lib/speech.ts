@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { stripMarkdown } from './markdown';
+import { answerLanguage, t } from './i18n';
+
+// --- Voice: read answers aloud (speechSynthesis) and dictate questions (SpeechRecognition)
+// Both APIs are optional; callers check `ttsSupported` / `useDictation().supported` and hide
+// their controls when the browser lacks them.
+
+export type SpeechSettings = { rate: number; voiceURI?: string };
+
+export const ttsSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// --- Settings (localStorage `speech`)
+const KEY = 'speech';
+const settingsListeners = new Set<() => void>();
+
+let settings: SpeechSettings = (() => {
+  try { return { rate: 1, ...JSON.parse(localStorage.getItem(KEY) || '{}') }; } catch { return { rate: 1 }; }
+})();
+
+export const speechSettings = {
+  get: () => settings,
+  set(patch: Partial<SpeechSettings>) {
+    settings = { ...settings, ...patch };
+    try { localStorage.setItem(KEY, JSON.stringify(settings)); } catch {}
+    settingsListeners.forEach((l) => l());
+  },
+  subscribe(listener: () => void) {
+    settingsListeners.add(listener);
+    return () => { settingsListeners.delete(listener); };
+  },
+};
+
+export const useSpeechSettings = () => useSyncExternalStore(speechSettings.subscribe, speechSettings.get);
+
+/** Installed voices; Chrome fills the list asynchronously */
+export function useVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => (ttsSupported() ? speechSynthesis.getVoices() : []));
+  useEffect(() => {
+    if (!ttsSupported()) return;
+    const update = () => setVoices(speechSynthesis.getVoices());
+    update();
+    speechSynthesis.addEventListener('voiceschanged', update);
+    return () => speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+  return voices;
+}
+
+// Markdown and citation markers read badly; speak plain sentences
+const speakable = (text: string) => stripMarkdown(text).replace(/\[\d+\]/g, '').replace(/^\s*•\s*/gm, '').replace(/\s+/g, ' ');
+
+// End of the last complete sentence in `text`, or -1
+const lastSentenceEnd = (text: string) => {
+  let end = -1;
+  for (const m of text.matchAll(/[.!?…:;](?=\s)|\n/g)) end = (m.index ?? 0) + m[0].length;
+  return end;
+};
+
+// --- Speaker: one message at a time, fed incrementally so playback can start while the answer streams.
+// Text is queued sentence by sentence, which also sidesteps Chrome cutting off long utterances.
+type Session = { id: string; spoken: number; finished: boolean; pending: number };
+let session: Session | null = null;
+const speakerListeners = new Set<() => void>();
+const notify = () => speakerListeners.forEach((l) => l());
+
+const enqueue = (s: Session, text: string) => {
+  const clean = speakable(text).trim();
+  if (!clean) return;
+  const u = new SpeechSynthesisUtterance(clean);
+  const { rate, voiceURI } = settings;
+  u.rate = rate;
+  const voice = voiceURI && speechSynthesis.getVoices().find((v) => v.voiceURI === voiceURI);
+  // Without a chosen voice the browser picks one for the language answers are written in
+  if (voice) { u.voice = voice; u.lang = voice.lang; } else u.lang = answerLanguage();
+  s.pending++;
+  u.onend = u.onerror = () => {
+    s.pending--;
+    // The whole answer has been read out
+    if (session === s && s.finished && s.pending <= 0) speaker.stop();
+  };
+  speechSynthesis.speak(u);
+};
+
+export const speaker = {
+  current: () => session?.id ?? null,
+  /** Start reading message `id` from the top, replacing whatever was playing */
+  start(id: string, text: string, final: boolean) {
+    speechSynthesis.cancel();
+    session = { id, spoken: 0, finished: false, pending: 0 };
+    notify();
+    speaker.feed(id, text, final);
+  },
+  /** The message grew (or finished streaming): queue its new complete sentences */
+  feed(id: string, text: string, final: boolean) {
+    const s = session;
+    if (!s || s.id !== id || s.finished) return;
+    const upTo = final ? text.length : lastSentenceEnd(text);
+    if (upTo > s.spoken) {
+      enqueue(s, text.slice(s.spoken, upTo));
+      s.spoken = upTo;
+    }
+    if (final) {
+      s.finished = true;
+      if (s.pending <= 0) speaker.stop();
+    }
+  },
+  stop() {
+    if (!session) return;
+    session = null;
+    speechSynthesis.cancel();
+    notify();
+  },
+  subscribe(listener: () => void) {
+    speakerListeners.add(listener);
+    return () => { speakerListeners.delete(listener); };
+  },
+};
+
+/** Id of the message being read aloud, or null */
+export const useSpeaking = () => useSyncExternalStore(speaker.subscribe, speaker.current);
+
+// --- Dictation
+type Recognition = {
+  lang: string; continuous: boolean; interimResults: boolean;
+  onresult: ((e: any) => void) | null; onerror: ((e: any) => void) | null; onend: (() => void) | null;
+  start(): void; stop(): void; abort(): void;
+};
+
+const RecognitionCtor = (): (new () => Recognition) | undefined =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition;
+
+// The browser's regional variant (en-GB, es-MX) when it is the same language; recognition is better with it
+const withRegion = (lang: string) => {
+  const browser = typeof navigator !== 'undefined' ? navigator.language : '';
+  return browser.split('-')[0].toLowerCase() === lang.toLowerCase() ? browser : lang;
+};
+
+/**
+ * Speech-to-text into a text field, listening for `lang` (the interface locale). `onText` receives
+ * the field's text from when listening started plus everything recognized so far (interim results
+ * included), so the field fills live.
+ */
+export function useDictation(value: string, onText: (text: string) => void, lang: string) {
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rec = useRef<Recognition | null>(null);
+  const supported = !!RecognitionCtor();
+
+  useEffect(() => () => rec.current?.abort(), []);
+
+  const start = () => {
+    const Ctor = RecognitionCtor();
+    if (!Ctor || rec.current) return;
+    const r = new Ctor();
+    const base = value.trim() ? `${value.trim()} ` : '';
+    r.lang = withRegion(lang);
+    r.continuous = true;
+    r.interimResults = true;
+    r.onresult = (e) => {
+      const heard = Array.from(e.results as ArrayLike<any>).map((res) => res[0]?.transcript ?? '').join('');
+      onText(base + heard.trimStart());
+    };
+    r.onerror = (e) => {
+      if (e.error === 'aborted' || e.error === 'no-speech') return;
+      setError(e.error === 'not-allowed' || e.error === 'service-not-allowed' ? t('voice.error.blocked') : t('voice.error.stopped'));
+    };
+    r.onend = () => { rec.current = null; setListening(false); };
+    rec.current = r;
+    setError(null);
+    setListening(true);
+    try { r.start(); } catch { rec.current = null; setListening(false); }
+  };
+
+  const stop = () => rec.current?.stop();
+
+  return { supported, listening, error, start, stop, toggle: () => (rec.current ? stop() : start()) };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { JournalEntry } from './journal';
+import { dueCards, schedule, type CardState } from './srs';
+
+const at = (d: number, h = 12) => new Date(2024, 4, d, h).getTime();
+
+const entries: JournalEntry[] = Array.from({ length: 25 }, (_, i) =>
+  ({ id: `e${i}`, ts: i, bookId: 'deep-work', q: `Question ${i}?`, a: `Answer ${i}.` }));
+
+const gradeAll = (states: Record<string, CardState>, ids: string[], now: number) =>
+  ids.reduce((acc, id) => ({ ...acc, [id]: schedule(acc[id], 4, now) }), states);
+
+describe('dueCards', () => {
+  it('introduces at most 20 new cards a day, however often the queue is rebuilt', () => {
+    const first = dueCards(entries, {}, at(1, 9));
+    expect(first).toHaveLength(20);
+    const states = gradeAll({}, first.map((c) => c.id), at(1, 9));
+
+    // Later the same day (badge refresh, /review reopened): nothing new, nothing due
+    expect(dueCards(entries, states, at(1, 9))).toEqual([]);
+    expect(dueCards(entries, states, at(1, 23))).toEqual([]);
+
+    // Tomorrow: yesterday's cards come back, with the 5 still unseen
+    const next = dueCards(entries, states, at(2, 9));
+    expect(next.filter((c) => states[c.id])).toHaveLength(20);
+    expect(next.filter((c) => !states[c.id]).map((c) => c.entryId)).toEqual(['e20', 'e21', 'e22', 'e23', 'e24']);
+  });
+
+  it('counts cards started today against the limit, not ones seen before', () => {
+    const yesterday = gradeAll({}, ['e0:qa', 'e1:qa'], at(1));
+    const today = gradeAll(yesterday, ['e0:qa', 'e2:qa'], at(2));
+    expect(today['e0:qa'].firstReviewed).toBe(at(1));
+    expect(dueCards(entries, today, at(2)).filter((c) => !today[c.id])).toHaveLength(19);
+  });
+});
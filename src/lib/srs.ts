@@ -0,0 +1,97 @@
+import { useSyncExternalStore } from 'react';
+import type { JournalEntry } from './journal';
+
+// --- Spaced repetition over journal entries (SM-2)
+// Each entry yields a question/answer card, plus a cloze card when the answer bolds a key
+// phrase. Only scheduling state is stored (localStorage `srs`), keyed by card id, so cards
+// follow edits to their entry and disappear with it.
+
+export type CardKind = 'qa' | 'cloze';
+
+export type Flashcard = { id: string; entryId: string; bookId: string; kind: CardKind; front: string; back: string; context?: string };
+
+export type CardState = { ef: number; interval: number; reps: number; lapses: number; due: number; lastReviewed?: number; firstReviewed?: number };
+
+/** SM-2 quality: Again 1, Hard 3, Good 4, Easy 5 */
+export type Grade = 1 | 3 | 4 | 5;
+
+const KEY = 'srs';
+const MAX_NEW_PER_DAY = 20;
+const listeners = new Set<() => void>();
+
+const read = (): Record<string, CardState> => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '{}');
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch {
+    return {};
+  }
+};
+
+let states: Record<string, CardState> = read();
+
+const commit = (next: Record<string, CardState>) => {
+  states = next;
+  try { localStorage.setItem(KEY, JSON.stringify(next)); } catch (e) { console.warn('srs save failed', e); }
+  listeners.forEach((l) => l());
+};
+
+export const srs = {
+  getAll: () => states,
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+  grade(cardId: string, grade: Grade, now = Date.now()) {
+    commit({ ...states, [cardId]: schedule(states[cardId], grade, now) });
+  },
+};
+
+export const useSrsStates = () => useSyncExternalStore(srs.subscribe, srs.getAll);
+
+// Local midnight `days` days after `ts`; calendar arithmetic keeps intervals whole days across DST
+export const localDayStart = (ts: number, days = 0) => {
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days).getTime();
+};
+
+/** Next state after answering with `grade` (SM-2, intervals in days, due at local midnight) */
+export function schedule(prev: CardState | undefined, grade: Grade, now: number): CardState {
+  const s = prev ?? { ef: 2.5, interval: 0, reps: 0, lapses: 0, due: now };
+  // When the card was first seen, for the daily limit on new cards (states saved before it have none)
+  const firstReviewed = prev ? prev.firstReviewed : now;
+  const ef = Math.max(1.3, s.ef + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  if (grade < 3) {
+    // Lapse: relearn tomorrow
+    return { ef, interval: 1, reps: 0, lapses: s.lapses + (s.reps > 0 ? 1 : 0), due: localDayStart(now, 1), lastReviewed: now, firstReviewed };
+  }
+  const interval = s.reps === 0 ? 1 : s.reps === 1 ? 6 : Math.round(s.interval * ef);
+  return { ef, interval, reps: s.reps + 1, lapses: s.lapses, due: localDayStart(now, interval), lastReviewed: now, firstReviewed };
+}
+
+const BOLD = /\*\*([^*\n]{2,80})\*\*|__([^_\n]{2,80})__/;
+
+/** Cards for an entry: always Q/A; cloze on the first bolded phrase of the answer */
+export function cardsFor(e: JournalEntry): Flashcard[] {
+  const cards: Flashcard[] = [{ id: `${e.id}:qa`, entryId: e.id, bookId: e.bookId, kind: 'qa', front: e.q, back: e.a }];
+  const m = e.a.match(BOLD);
+  if (m) {
+    const term = m[1] ?? m[2];
+    cards.push({ id: `${e.id}:cloze`, entryId: e.id, bookId: e.bookId, kind: 'cloze', front: e.a.replace(m[0], '**[…]**'), back: term, context: e.q });
+  }
+  return cards;
+}
+
+/**
+ * Cards due by the end of today: reviews first (most overdue first), then unseen cards, oldest
+ * entry first, up to MAX_NEW_PER_DAY new cards a day counting those already started today
+ */
+export function dueCards(entries: JournalEntry[], all: Record<string, CardState>, now = Date.now()): Flashcard[] {
+  const startOfToday = localDayStart(now);
+  const endOfToday = localDayStart(now, 1);
+  const cards = [...entries].sort((a, b) => a.ts - b.ts).flatMap(cardsFor);
+  const reviews = cards.filter((c) => all[c.id] && all[c.id].due < endOfToday).sort((a, b) => all[a.id].due - all[b.id].due);
+  const introducedToday = Object.values(all).filter((s) => s.firstReviewed !== undefined && s.firstReviewed >= startOfToday && s.firstReviewed < endOfToday).length;
+  const fresh = cards.filter((c) => !all[c.id]).slice(0, Math.max(0, MAX_NEW_PER_DAY - introducedToday));
+  return [...reviews, ...fresh];
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSseParser, streamSse, StreamError, type SseMessage } from './sse';
+
+const parse = (...parts: string[]) => {
+  const out: SseMessage[] = [];
+  const p = createSseParser((m) => out.push(m));
+  parts.forEach((s) => p.feed(s));
+  return { out, p };
+};
+
+describe('createSseParser', () => {
+  it('dispatches one message per blank line, across arbitrary splits', () => {
+    const { out } = parse('event: chu', 'nk\ndata: Hel', 'lo\n', '\ndata: world\n\n');
+    expect(out).toEqual([
+      { event: 'chunk', data: 'Hello', id: undefined, retry: undefined },
+      { event: 'message', data: 'world', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('joins multi-line data, skips comments and accepts CRLF and CR line ends', () => {
+    const { out } = parse(': keep-alive\r\ndata: one\r\ndata: two\r', '\n\r\ndata:three\r\r\n');
+    expect(out.map((m) => m.data)).toEqual(['one\ntwo', 'three']);
+  });
+
+  it('remembers the last id across events and reads retry', () => {
+    const { out, p } = parse('id: 1\nretry: 500\ndata: a\n\ndata: b\n\n');
+    expect(out[0]).toMatchObject({ id: '1', retry: 500 });
+    expect(out[1]).toMatchObject({ id: '1', retry: undefined });
+    expect(p.lastEventId).toBe('1');
+  });
+
+  it('flushes a final event without a trailing blank line', () => {
+    const { out, p } = parse('data: tail');
+    expect(out).toHaveLength(0);
+    p.flush();
+    expect(out.map((m) => m.data)).toEqual(['tail']);
+  });
+});
+
+// --- streamSse against a stubbed fetch
+
+const enc = new TextEncoder();
+
+/** A streamed response body; `drop` errors the stream after the parts, like a lost connection */
+const sse = (parts: string[], { drop = false, status = 200 } = {}) =>
+  new Response(new ReadableStream<Uint8Array>({
+    pull(c) {
+      const next = parts.shift();
+      if (next !== undefined) c.enqueue(enc.encode(next));
+      else if (drop) c.error(new TypeError('network error'));
+      else c.close();
+    },
+  }), { status, headers: { 'Content-Type': 'text/event-stream' } });
+
+const stubFetch = (...responses: (() => Response)[]) => {
+  const fetch = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new TypeError('no more responses');
+    return next();
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const handlers = () => ({ onChunk: vi.fn(), onMeta: vi.fn(), onCitations: vi.fn(), onDone: vi.fn() });
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('streamSse', () => {
+  it('streams chunks, meta and citations, then resolves on done', async () => {
+    stubFetch(() => sse([
+      'event: meta\ndata: {"model":"mock"}\n\n',
+      'event: chunk\ndata: Hello \n\n',
+      'data: world\n\n',
+      'event: citations\ndata: [{"n":1,"quote":"q"}]\n\n',
+      'event: done\ndata: {"ok":true}\n\n',
+      'event: chunk\ndata: ignored\n\n',
+    ]));
+    const h = handlers();
+    await streamSse('/ask', { q: 1 }, h);
+    expect(h.onChunk.mock.calls.map((c) => c[0])).toEqual(['Hello ', 'world']);
+    expect(h.onMeta).toHaveBeenCalledWith({ model: 'mock' });
+    expect(h.onCitations).toHaveBeenCalledWith([{ n: 1, quote: 'q' }]);
+    expect(h.onDone).toHaveBeenCalledWith({ ok: true });
+  });
+
+  it('rejects with the server message on an error event, without retrying', async () => {
+    const fetch = stubFetch(() => sse(['data: partial\n\n', 'event: error\ndata: {"message":"The book lost its place."}\n\n']));
+    const h = handlers();
+    const err = await streamSse('/ask', {}, h, { retryDelay: 0 }).catch((e) => e);
+    expect(err).toBeInstanceOf(StreamError);
+    expect(err.message).toBe('The book lost its place.');
+    expect(err.retryable).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes a dropped stream with Last-Event-ID', async () => {
+    const fetch = stubFetch(
+      () => sse(['retry: 0\nid: 0\nevent: chunk\ndata: one \n\n', 'id: 1\nevent: chunk\ndata: two \n\n'], { drop: true }),
+      () => sse(['id: 2\nevent: chunk\ndata: three\n\n', 'id: 3\nevent: done\ndata: {}\n\n']),
+    );
+    const h = handlers();
+    await streamSse('/ask', { question: 'q' }, h);
+    expect(h.onChunk.mock.calls.map((c) => c[0]).join('')).toBe('one two three');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const [, second] = fetch.mock.calls as unknown as [string, RequestInit][];
+    expect((second[1].headers as Record<string, string>)['Last-Event-ID']).toBe('1');
+    expect(second[1].body).toBe(JSON.stringify({ question: 'q' }));
+  });
+
+  it('does not retry a stream without ids once text has arrived', async () => {
+    const fetch = stubFetch(() => sse(['data: half\n\n'], { drop: true }));
+    const err = await streamSse('/ask', {}, handlers(), { retryDelay: 0 }).catch((e) => e);
+    expect(err).toBeInstanceOf(StreamError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server errors before any text, up to maxRetries', async () => {
+    const fetch = stubFetch(() => sse([], { status: 503 }), () => sse([], { status: 503 }));
+    const err = await streamSse('/ask', {}, handlers(), { retryDelay: 0, maxRetries: 1 }).catch((e) => e);
+    expect(err).toMatchObject({ name: 'StreamError', status: 503, retryable: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with the abort reason when aborted', async () => {
+    const ctrl = new AbortController();
+    stubFetch(() => { ctrl.abort(); throw new DOMException('Aborted', 'AbortError'); });
+    const err = await streamSse('/ask', {}, handlers(), { signal: ctrl.signal }).catch((e) => e);
+    expect(err.name).toBe('AbortError');
+  });
+});
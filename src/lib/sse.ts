@@ -0,0 +1,183 @@
+import { t } from './i18n';
+
+// --- Server-Sent Events client for POST streaming endpoints (e.g. /ask)
+// EventSource only supports GET, so this reads the fetch body and parses the SSE wire format itself.
+
+export type SseMessage = { event: string; data: string; id?: string; retry?: number };
+
+export type StreamHandlers = {
+  onChunk: (text: string) => void;
+  onMeta?: (meta: unknown) => void;
+  onCitations?: (citations: unknown) => void;
+  onDone?: (data: unknown) => void;
+};
+
+export type StreamOptions = {
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  /** Reconnect attempts after a dropped connection (default 2) */
+  maxRetries?: number;
+  /** Delay before reconnecting, unless the server sent `retry:` (default 1000ms) */
+  retryDelay?: number;
+};
+
+export class StreamError extends Error {
+  constructor(message: string, readonly retryable = false, readonly status?: number) {
+    super(message);
+    this.name = 'StreamError';
+  }
+}
+
+/**
+ * Incremental parser for the SSE wire format. Feed it decoded text as it arrives;
+ * `onMessage` fires once per blank-line-terminated event. Comments (`:`) are ignored
+ * and the last `id:` is remembered across events, as in the EventSource spec.
+ */
+export function createSseParser(onMessage: (msg: SseMessage) => void) {
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let retry: number | undefined;
+  let sawField = false;
+
+  const dispatch = () => {
+    if (sawField && (data.length || event)) {
+      onMessage({ event: event || 'message', data: data.join('\n'), id, retry });
+    }
+    event = ''; data = []; retry = undefined; sawField = false;
+  };
+
+  const line = (l: string) => {
+    if (l === '') return dispatch();
+    if (l.startsWith(':')) return;
+    const i = l.indexOf(':');
+    const field = i === -1 ? l : l.slice(0, i);
+    let value = i === -1 ? '' : l.slice(i + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    sawField = true;
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id' && !value.includes('\0')) id = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) retry = parseInt(value, 10);
+  };
+
+  return {
+    feed(text: string) {
+      buffer += text;
+      let m: RegExpExecArray | null;
+      const re = /\r\n|\r|\n/g;
+      let start = 0;
+      while ((m = re.exec(buffer))) {
+        // A trailing \r may be the first half of \r\n; wait for more input
+        if (m[0] === '\r' && m.index === buffer.length - 1) break;
+        line(buffer.slice(start, m.index));
+        start = m.index + m[0].length;
+      }
+      buffer = buffer.slice(start);
+    },
+    /** Dispatch whatever is pending when the stream closes */
+    flush() {
+      if (buffer) { line(buffer); buffer = ''; }
+      dispatch();
+    },
+    get lastEventId() { return id; },
+  };
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(t); reject(signal.reason ?? new DOMException('Aborted', 'AbortError')); }, { once: true });
+  });
+
+const parseJson = (s: string) => { try { return JSON.parse(s); } catch { return s; } };
+
+export const isAbortError = (e: unknown) => (e as any)?.name === 'AbortError';
+
+/**
+ * POST `body` to `url` and stream the SSE response into `handlers`.
+ *
+ * Events: `chunk` (or unnamed) appends text, `meta` and `citations` carry JSON, `done` ends
+ * the stream, `error` rejects with a non-retryable StreamError. When the connection
+ * drops, the request is re-sent with `Last-Event-ID` if the server has sent ids;
+ * without ids a stream can only be retried before any text has arrived.
+ * Resolves when the stream completes, rejects with the abort reason when aborted.
+ */
+export async function streamSse(url: string, body: unknown, handlers: StreamHandlers, opts: StreamOptions = {}): Promise<void> {
+  const { signal, maxRetries = 2, retryDelay = 1000 } = opts;
+  let lastEventId: string | undefined;
+  let delay = retryDelay;
+  let received = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let finished = false;
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+          ...opts.headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!res.ok || !res.body) {
+        const retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+        throw new StreamError(`Request failed: ${res.status}`, retryable, res.status);
+      }
+
+      const parser = createSseParser((msg) => {
+        if (msg.id !== undefined) lastEventId = msg.id;
+        if (msg.retry !== undefined) delay = msg.retry;
+        if (finished) return;
+        switch (msg.event) {
+          case 'message':
+          case 'chunk':
+            if (msg.data) { received = true; handlers.onChunk(msg.data); }
+            break;
+          case 'meta':
+            handlers.onMeta?.(parseJson(msg.data));
+            break;
+          case 'citations':
+            handlers.onCitations?.(parseJson(msg.data));
+            break;
+          case 'done':
+            finished = true;
+            handlers.onDone?.(parseJson(msg.data));
+            break;
+          case 'error': {
+            const payload = parseJson(msg.data);
+            throw new StreamError(typeof payload === 'string' && payload ? payload : payload?.message || t('error.noAnswer'));
+          }
+        }
+      });
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        parser.feed(decoder.decode(value, { stream: true }));
+        lastEventId = parser.lastEventId ?? lastEventId;
+      }
+      if (finished) { reader.cancel().catch(() => {}); return; }
+      parser.feed(decoder.decode());
+      parser.flush();
+      if (finished) return;
+      // Closed without `done`: servers that send ids expect us to resume, older ones just close
+      if (!lastEventId) { handlers.onDone?.(undefined); return; }
+      throw new StreamError('Stream closed before completion', true);
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      const retryable = e instanceof StreamError ? e.retryable : true; // fetch/read failures are network errors
+      const resumable = !!lastEventId || !received;
+      if (!retryable || !resumable || attempt >= maxRetries) {
+        throw e instanceof StreamError ? e : new StreamError((e as Error)?.message || 'Network error', true);
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
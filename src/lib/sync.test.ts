@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatMsg, Thread } from '../types';
+import { applySync, storeFor } from '../../mock/server.mjs';
+import { dayTotal } from './activity';
+import { mergeThread, type ThreadStore } from './sync';
+
+// --- Sync between two devices through the mock backend's `applySync`
+// Each device is its own localStorage plus its own copy of the stores: switching devices
+// swaps localStorage and re-imports the modules, which read it on load. `fetch` answers
+// POST /sync from one mock store per test, so both devices share a server.
+
+type Device = { storage: Record<string, string>; threads: Thread[] };
+
+const device = (): Device => ({ storage: {}, threads: [] });
+
+const user = { id: 'reader-1', email: 'reader@example.com' };
+
+const load = async (d: Device) => {
+  const [{ journal }, { activity }, { auth }, { sync }, { tombstones }] = await Promise.all([
+    import('./journal'), import('./activity'), import('./auth'), import('./sync'), import('./tombstones'),
+  ]);
+  if (!auth.get()) auth.signIn({ token: 'mock.token', user });
+  // Same behaviour as useThreads' store, without React
+  const threads: ThreadStore = {
+    get: () => d.threads,
+    apply(changed, removed) {
+      const byId = new Map(d.threads.filter((t) => !removed.includes(t.id)).map((t) => [t.id, t]));
+      changed.forEach((t) => { const mine = byId.get(t.id); byId.set(t.id, mine ? mergeThread(mine, t) : t); });
+      d.threads = Array.from(byId.values());
+    },
+  };
+  const run = async () => {
+    await sync.run(threads);
+    expect(sync.status()).toMatchObject({ state: 'idle' });
+    // The clock is fake; let time pass so later edits are newer than this sync
+    vi.setSystemTime(Date.now() + 1000);
+  };
+  return { journal, activity, tombstones, run };
+};
+
+/** Act as device `d`: its localStorage and freshly loaded stores */
+async function on<T>(d: Device, fn: (m: Awaited<ReturnType<typeof load>>) => T | Promise<T>): Promise<T> {
+  localStorage.clear();
+  Object.entries(d.storage).forEach(([k, v]) => localStorage.setItem(k, v));
+  vi.resetModules();
+  try {
+    return await fn(await load(d));
+  } finally {
+    d.storage = Object.fromEntries(Array.from({ length: localStorage.length }, (_, i) => {
+      const k = localStorage.key(i)!;
+      return [k, localStorage.getItem(k)!];
+    }));
+    // Whatever happens on the next device happens later
+    vi.setSystemTime(Date.now() + 1000);
+  }
+}
+
+const msg = (id: string, over: Partial<ChatMsg> = {}): ChatMsg => ({ id, role: 'book', content: '', ts: 1, ...over });
+
+const thread = (over: Partial<Thread> = {}): Thread =>
+  ({ id: 't1', bookId: 'deep-work', title: 'Focus?', createdAt: 1, updatedAt: Date.now(), messages: [msg('q1', { role: 'user', content: 'Focus?' })], ...over });
+
+let phone: Device;
+let laptop: Device;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2024, 4, 1, 9));
+  const server = storeFor(crypto.randomUUID());
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    expect(url).toMatch(/\/sync$/);
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer mock.token');
+    return new Response(JSON.stringify(applySync(server, JSON.parse(String(init.body)))), { headers: { 'Content-Type': 'application/json' } });
+  }));
+  phone = device();
+  laptop = device();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('sync between two devices', () => {
+  it('brings journal entries, threads and activity across, and edits back', async () => {
+    const id = await on(phone, async ({ journal, activity, run }) => {
+      const e = journal.add({ bookId: 'deep-work', q: 'What is deep work?', a: 'Focused work.' });
+      phone.threads = [thread()];
+      activity.record('question');
+      activity.record('question');
+      await run();
+      return e.id;
+    });
+
+    await on(laptop, async ({ journal, activity, run }) => {
+      activity.record('question');
+      await run();
+      expect(journal.getAll().map((e) => e.id)).toEqual([id]);
+      expect(laptop.threads.map((t) => t.id)).toEqual(['t1']);
+      // Each device keeps its own count for the day, and the day's total adds them up
+      expect(dayTotal(activity.get(), Object.keys(activity.get().days)[0])).toEqual({ questions: 3, reviews: 0 });
+      journal.update(id, { note: 'Edited on the laptop' });
+      await run();
+    });
+
+    await on(phone, async ({ journal, run }) => {
+      await run();
+      expect(journal.getAll()[0].note).toBe('Edited on the laptop');
+    });
+  });
+
+  it('sends deletions as tombstones and clears them once the server has them', async () => {
+    const id = await on(phone, async ({ journal, run }) => {
+      const e = journal.add({ bookId: 'deep-work', q: 'q', a: 'a' });
+      phone.threads = [thread()];
+      await run();
+      return e.id;
+    });
+    await on(laptop, ({ run }) => run());
+
+    await on(phone, async ({ journal, tombstones, run }) => {
+      journal.remove(id);
+      tombstones.add('threads', 't1');
+      phone.threads = [];
+      expect(tombstones.get().journal.map((t) => t.id)).toEqual([id]);
+      await run();
+      expect(tombstones.get()).toEqual({ journal: [], threads: [] });
+    });
+
+    await on(laptop, async ({ journal, run }) => {
+      await run();
+      expect(journal.getAll()).toEqual([]);
+      expect(laptop.threads).toEqual([]);
+    });
+  });
+
+  it('brings an entry back when it was edited after the deletion', async () => {
+    const id = await on(phone, async ({ journal, run }) => {
+      const e = journal.add({ bookId: 'deep-work', q: 'q', a: 'a' });
+      await run();
+      return e.id;
+    });
+    await on(laptop, ({ run }) => run());
+    await on(phone, async ({ journal, run }) => { journal.remove(id); await run(); });
+
+    // The laptop hasn't heard of the deletion yet and edits the entry afterwards
+    await on(laptop, async ({ journal, run }) => {
+      journal.update(id, { note: 'Still useful' });
+      await run();
+      expect(journal.getAll().map((e) => e.note)).toEqual(['Still useful']);
+    });
+    await on(phone, async ({ journal, run }) => {
+      await run();
+      expect(journal.getAll().map((e) => e.note)).toEqual(['Still useful']);
+    });
+  });
+
+  it('lets a deletion win over an edit made before it', async () => {
+    const id = await on(phone, async ({ journal, run }) => {
+      const e = journal.add({ bookId: 'deep-work', q: 'q', a: 'a' });
+      await run();
+      return e.id;
+    });
+    await on(laptop, async ({ journal, run }) => { await run(); journal.update(id, { note: 'Offline edit' }); });
+    await on(phone, async ({ journal, run }) => { journal.remove(id); await run(); });
+
+    await on(laptop, async ({ journal, run }) => {
+      await run();
+      expect(journal.getAll()).toEqual([]);
+    });
+  });
+
+  it('sends entries imported from a backup after the first sync', async () => {
+    const backup = { id: 'from-backup', ts: new Date(2023, 0, 1).getTime(), bookId: 'deep-work', q: 'Old question', a: 'Old answer' };
+    await on(phone, async ({ journal, run }) => {
+      await run();
+      expect(journal.importEntries([backup])).toMatchObject({ added: 1 });
+      await run();
+    });
+    await on(laptop, async ({ journal, run }) => {
+      await run();
+      expect(journal.getAll().map((e) => [e.id, e.ts])).toEqual([['from-backup', backup.ts]]);
+    });
+  });
+
+  it('keeps unfinished answers on the device until they finish', async () => {
+    await on(phone, async ({ run }) => {
+      phone.threads = [thread({ messages: [msg('q1', { role: 'user', content: 'Focus?' }), msg('a1', { ts: 2, content: 'Half an ans', status: 'streaming' })] })];
+      await run();
+    });
+    await on(laptop, async ({ run }) => {
+      await run();
+      expect(laptop.threads[0].messages.map((m) => m.id)).toEqual(['q1']);
+    });
+    await on(phone, async ({ run }) => {
+      phone.threads = [{ ...phone.threads[0], updatedAt: Date.now(), messages: [phone.threads[0].messages[0], msg('a1', { ts: 2, content: 'Half an answer.', status: 'done' })] }];
+      await run();
+    });
+    await on(laptop, async ({ run }) => {
+      await run();
+      expect(laptop.threads[0].messages.map((m) => [m.id, m.status])).toEqual([['q1', undefined], ['a1', 'done']]);
+    });
+  });
+});
+
+describe('mergeThread', () => {
+  const base = thread({ updatedAt: 10 });
+
+  it('keeps a finished answer over one still streaming, whichever copy is newer', () => {
+    const done = { ...base, updatedAt: 10, messages: [...base.messages, msg('a1', { content: 'Full answer.', status: 'done' })] };
+    const streaming = { ...base, updatedAt: 20, messages: [...base.messages, msg('a1', { content: 'Full', status: 'streaming' })] };
+    for (const [a, b] of [[done, streaming], [streaming, done]]) {
+      const merged = mergeThread(a, b);
+      expect(merged.messages.find((m) => m.id === 'a1')).toMatchObject({ content: 'Full answer.', status: 'done' });
+      expect(merged.updatedAt).toBe(20);
+    }
+  });
+
+  it('takes the newer copy of a finished answer and keeps messages from both sides', () => {
+    const a = { ...base, updatedAt: 10, messages: [...base.messages, msg('a1', { ts: 2, content: 'Old', status: 'error' }), msg('q2', { role: 'user', ts: 3, content: 'Phone question' })] };
+    const b = { ...base, updatedAt: 20, messages: [...base.messages, msg('a1', { ts: 2, content: 'Retried', status: 'done' }), msg('q3', { role: 'user', ts: 4, content: 'Laptop question' })] };
+    const merged = mergeThread(a, b);
+    expect(merged.messages.map((m) => [m.id, m.content])).toEqual([
+      ['q1', 'Focus?'], ['a1', 'Retried'], ['q2', 'Phone question'], ['q3', 'Laptop question'],
+    ]);
+  });
+});
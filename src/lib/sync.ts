@@ -0,0 +1,218 @@
+import { useSyncExternalStore } from 'react';
+import type { ChatMsg, Thread } from '../types';
+import { auth } from './auth';
+import { api, type SyncChanges } from './api';
+import { journal, type JournalEntry } from './journal';
+import { activity, type ActivityState } from './activity';
+import { readingSettings } from './reading';
+import { tombstones, type Tombstone } from './tombstones';
+import { t } from './i18n';
+
+// --- Cross-device sync of the journal, threads, activity and reading settings
+// One round trip: `POST /sync` (api.sync) sends everything changed locally since the last sync plus
+// deletions, with the server's cursor; the server answers with everything changed on its side
+// since that cursor (all of it on the first sync) and a new cursor. Both sides resolve
+// conflicts with the merge functions below, so they end up with the same copy:
+// - journal entries: the newer edit wins (`updatedAt`, else `ts`); a deletion wins over edits
+//   made before it, an edit made after a deletion brings the entry back
+// - threads: messages are merged by id, so questions asked on two devices all survive; a
+//   finished answer wins over one still streaming or queued; title follows the newer thread
+// - activity: each device's per-day counts take the larger value from either side (a device's
+//   own counts only grow) and a day's total sums the devices; goal and freezes follow the
+//   newer state, longest streak takes the max
+// - reading settings: the newer change wins
+// Answers that are still queued or streaming stay on this device until they finish, so
+// another device never sends the same queued question twice.
+
+export type SyncStatus = { state: 'idle' | 'syncing' | 'error'; lastSyncedAt?: number; error?: string };
+
+/** How sync reads and writes threads, which live in component state backed by IndexedDB */
+export type ThreadStore = {
+  get(): Thread[];
+  apply(changed: Thread[], removed: string[]): void;
+};
+
+// --- Merging
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const version = (e: JournalEntry) => e.updatedAt ?? e.ts;
+
+export function mergeJournal(local: JournalEntry[], remote: JournalEntry[], deleted: Tombstone[], localDeleted: Tombstone[] = []): JournalEntry[] {
+  const byId = new Map(local.map((e) => [e.id, e]));
+  const removedAt = new Map(localDeleted.map((t) => [t.id, t.ts]));
+  for (const e of remote) {
+    const mine = byId.get(e.id);
+    if ((removedAt.get(e.id) ?? -Infinity) >= version(e)) continue;
+    if (!mine || version(e) >= version(mine)) byId.set(e.id, e);
+  }
+  for (const t of deleted) {
+    const mine = byId.get(t.id);
+    if (mine && t.ts >= version(mine)) byId.delete(t.id);
+  }
+  return Array.from(byId.values());
+}
+
+const settled = (m: ChatMsg) => m.role === 'user' || (m.status !== 'queued' && m.status !== 'streaming');
+
+export function mergeThread(local: Thread, remote: Thread): Thread {
+  const newer = remote.updatedAt > local.updatedAt ? remote : local;
+  const older = newer === remote ? local : remote;
+  const byId = new Map(older.messages.map((m) => [m.id, m]));
+  for (const m of newer.messages) {
+    const other = byId.get(m.id);
+    // Keep the other copy only when it has finished and this one hasn't
+    if (!other || settled(m) || !settled(other)) byId.set(m.id, m);
+  }
+  return { ...newer, createdAt: Math.min(local.createdAt, remote.createdAt), messages: Array.from(byId.values()).sort((a, b) => a.ts - b.ts) };
+}
+
+/** Remote threads merged into local ones: the threads that changed and the ids to remove */
+export function mergeThreads(local: Thread[], remote: Thread[], deleted: Tombstone[], localDeleted: Tombstone[] = []): { changed: Thread[]; removed: string[] } {
+  const byId = new Map(local.map((t) => [t.id, t]));
+  const removedAt = new Map(localDeleted.map((t) => [t.id, t.ts]));
+  const changed: Thread[] = [];
+  for (const t of remote) {
+    if ((removedAt.get(t.id) ?? -Infinity) >= t.updatedAt) continue;
+    const mine = byId.get(t.id);
+    const merged = mine ? mergeThread(mine, t) : t;
+    if (!mine || !same(merged, mine)) changed.push(merged);
+  }
+  const removed = deleted.filter((d) => { const mine = byId.get(d.id); return mine && d.ts >= mine.updatedAt; }).map((d) => d.id);
+  return { changed, removed };
+}
+
+export function mergeActivity(local: ActivityState, remote: ActivityState): ActivityState {
+  const newer = (remote.updatedAt ?? 0) > (local.updatedAt ?? 0) ? remote : local;
+  const days = { ...local.days };
+  for (const [k, devices] of Object.entries(remote.days)) {
+    const merged = { ...days[k] };
+    for (const [device, d] of Object.entries(devices)) {
+      const mine = merged[device];
+      merged[device] = mine ? { questions: Math.max(mine.questions, d.questions), reviews: Math.max(mine.reviews, d.reviews) } : d;
+    }
+    days[k] = merged;
+  }
+  return {
+    days,
+    goal: newer.goal,
+    freezes: newer.freezes,
+    frozen: Array.from(new Set([...local.frozen, ...remote.frozen])).sort(),
+    longest: Math.max(local.longest, remote.longest),
+    ...(newer.updatedAt !== undefined ? { updatedAt: newer.updatedAt } : {}),
+  };
+}
+
+// --- Sync state: localStorage `syncMeta` remembers the account, server cursor and the time
+// up to which local changes have been sent
+
+type SyncMeta = { userId: string; cursor: string | null; pushedAt: number; lastSyncedAt?: number };
+
+const META_KEY = 'syncMeta';
+
+const readMeta = (userId: string): SyncMeta => {
+  try {
+    const data = JSON.parse(localStorage.getItem(META_KEY) || 'null');
+    // Another account (or none yet): start over with a full sync
+    if (data?.userId === userId) return data;
+  } catch {}
+  return { userId, cursor: null, pushedAt: 0 };
+};
+
+const writeMeta = (meta: SyncMeta) => {
+  try { localStorage.setItem(META_KEY, JSON.stringify(meta)); } catch (e) { console.warn('sync state save failed', e); }
+};
+
+const listeners = new Set<() => void>();
+let status: SyncStatus = (() => {
+  try {
+    const at = JSON.parse(localStorage.getItem(META_KEY) || 'null')?.lastSyncedAt;
+    return { state: 'idle', ...(typeof at === 'number' ? { lastSyncedAt: at } : {}) } as SyncStatus;
+  } catch {
+    return { state: 'idle' };
+  }
+})();
+
+const setStatus = (next: SyncStatus) => {
+  status = next;
+  listeners.forEach((l) => l());
+};
+
+// Drop unfinished answers; they are sent once they settle
+const outgoing = (t: Thread): Thread => ({ ...t, messages: t.messages.filter(settled) });
+
+async function syncOnce(threadStore: ThreadStore): Promise<void> {
+  const session = auth.get();
+  if (!session) return;
+  const meta = readMeta(session.user.id);
+  const startedAt = Date.now();
+  const deleted = tombstones.get();
+  const local = activity.get();
+  const reading = readingSettings.get();
+  const body: SyncChanges & { cursor: string | null } = {
+    cursor: meta.cursor,
+    journal: journal.getAll().filter((e) => version(e) > meta.pushedAt),
+    threads: threadStore.get().filter((t) => t.updatedAt > meta.pushedAt).map(outgoing),
+    ...((local.updatedAt ?? 1) > meta.pushedAt ? { activity: local } : {}),
+    ...((reading.updatedAt ?? 0) > meta.pushedAt ? { reading } : {}),
+    deleted,
+  };
+
+  const data = await api.sync(body);
+  // Signed out (or into another account) while the request was out: don't mix accounts
+  if (auth.get()?.user.id !== session.user.id) return;
+
+  // Merge into the current local copies, which may have changed during the request
+  const pending = tombstones.get();
+  if (data.journal.length || data.deleted.journal.length) {
+    const merged = mergeJournal(journal.getAll(), data.journal, data.deleted.journal, pending.journal);
+    if (!same(merged, journal.getAll())) journal.replaceAll(merged);
+  }
+  if (data.threads.length || data.deleted.threads.length) {
+    const { changed, removed } = mergeThreads(threadStore.get(), data.threads.map(outgoing), data.deleted.threads, pending.threads);
+    if (changed.length || removed.length) threadStore.apply(changed, removed);
+  }
+  if (data.activity) {
+    const merged = mergeActivity(activity.get(), data.activity);
+    if (!same(merged, activity.get())) activity.replace(merged);
+  }
+  if (data.reading) readingSettings.merge(data.reading);
+
+  tombstones.clear(deleted);
+  // Changes made while the request was out go with the next sync
+  writeMeta({ userId: session.user.id, cursor: data.cursor, pushedAt: startedAt, lastSyncedAt: Date.now() });
+}
+
+let running: Promise<void> | null = null;
+let again = false;
+
+export const sync = {
+  status: () => status,
+  /** Sync now, or once more right after the sync already running */
+  async run(threadStore: ThreadStore): Promise<void> {
+    if (!auth.get()) return;
+    if (running) { again = true; return running; }
+    setStatus({ ...status, state: 'syncing', error: undefined });
+    running = (async () => {
+      try {
+        do {
+          again = false;
+          await syncOnce(threadStore);
+        } while (again);
+        setStatus({ state: 'idle', lastSyncedAt: Date.now() });
+      } catch (e) {
+        console.warn('sync failed', e);
+        setStatus({ ...status, state: 'error', error: (e as Error)?.message || t('sync.failed') });
+      } finally {
+        running = null;
+      }
+    })();
+    return running;
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+export const useSyncStatus = () => useSyncExternalStore(sync.subscribe, sync.status);
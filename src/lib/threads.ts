@@ -0,0 +1,41 @@
+import type { ChatMsg, Thread } from '../types';
+import { STORES, getAll, put, remove } from './db';
+import { tombstones } from './tombstones';
+
+// --- Chat thread persistence (IndexedDB, one record per thread)
+
+export const loadThreads = async (): Promise<Thread[]> => {
+  const list = await getAll<Thread>(STORES.threads);
+  // An answer still "streaming" when the page closed was cut off
+  return list
+    .map((t) => ({ ...t, messages: t.messages.map((m) => (m.status === 'streaming' ? { ...m, status: 'stopped' as const } : m)) }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveThread = (thread: Thread) => put(STORES.threads, thread);
+
+// `remote` deletions came in through sync and need no tombstone of their own
+export const deleteThread = (id: string, { remote = false } = {}) => {
+  if (!remote) tombstones.add('threads', id);
+  return remove(STORES.threads, id);
+};
+
+/** Stored title of a thread with no question yet; shown translated, so it stays a fixed marker */
+export const UNTITLED = 'New chat';
+
+// Title from the first question, trimmed to fit the sidebar
+export const threadTitle = (messages: ChatMsg[]) => {
+  const first = messages.find((m) => m.role === 'user')?.content.trim() || UNTITLED;
+  return first.length > 60 ? first.slice(0, 59) + '…' : first;
+};
+
+/** Book answers still waiting to be asked (queued offline), oldest first across all threads */
+export const queuedAnswers = (threads: Thread[]) =>
+  threads
+    .flatMap((t) => t.messages.filter((m) => m.role === 'book' && m.status === 'queued').map((m) => ({ thread: t, msg: m })))
+    .sort((a, b) => a.msg.ts - b.msg.ts);
+
+export const newThread = (bookId: string): Thread => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), bookId, title: UNTITLED, createdAt: now, updatedAt: now, messages: [] };
+};
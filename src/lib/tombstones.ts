@@ -0,0 +1,41 @@
+// --- Deletions waiting to be synced
+// Deleting a journal entry or thread leaves a tombstone (id + time) in localStorage under
+// `syncDeleted`, so the next sync can delete it on the server and other devices too. The sync
+// layer drops tombstones once the server has them.
+
+export type TombstoneKind = 'journal' | 'threads';
+
+export type Tombstone = { id: string; ts: number };
+
+type Tombstones = Record<TombstoneKind, Tombstone[]>;
+
+const KEY = 'syncDeleted';
+
+const read = (): Tombstones => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '{}');
+    return { journal: Array.isArray(data?.journal) ? data.journal : [], threads: Array.isArray(data?.threads) ? data.threads : [] };
+  } catch {
+    return { journal: [], threads: [] };
+  }
+};
+
+const write = (t: Tombstones) => {
+  try { localStorage.setItem(KEY, JSON.stringify(t)); } catch (e) { console.warn('tombstone save failed', e); }
+};
+
+export const tombstones = {
+  // Read fresh each time: other tabs delete too, and nothing renders from this
+  get: read,
+  add(kind: TombstoneKind, id: string, ts = Date.now()) {
+    const t = read();
+    write({ ...t, [kind]: [...t[kind].filter((x) => x.id !== id), { id, ts }] });
+  },
+  /** Forget tombstones the server has acknowledged (same id, not deleted again since) */
+  clear(sent: Tombstones) {
+    const t = read();
+    const done = (kind: TombstoneKind, x: Tombstone) => sent[kind].some((s) => s.id === x.id && s.ts >= x.ts);
+    write({ journal: t.journal.filter((x) => !done('journal', x)), threads: t.threads.filter((x) => !done('threads', x)) });
+  },
+  reset: () => write({ journal: [], threads: [] }),
+};
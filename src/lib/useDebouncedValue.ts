@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+// Value that only updates once `value` has stopped changing for `delay` ms
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(t);
+  }, [value, delay]);
+  return debounced;
+}
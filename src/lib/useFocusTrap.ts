@@ -0,0 +1,37 @@
+import { useEffect, useRef, type KeyboardEvent } from 'react';
+import { focusables } from './a11y';
+
+/**
+ * Modal focus handling: while `open`, focus moves inside (to `[data-autofocus]` or the first
+ * control), Tab and Shift+Tab cycle within, Escape calls `onClose`, and closing hands focus
+ * back to whatever had it before. Spread the result onto the dialog element.
+ */
+export function useFocusTrap<T extends HTMLElement>(open: boolean, onClose: () => void) {
+  const ref = useRef<T | null>(null);
+
+  useEffect(() => {
+    const root = ref.current;
+    if (!open || !root) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const first = root.querySelector<HTMLElement>('[data-autofocus]') ?? focusables(root)[0] ?? root;
+    first.focus({ preventScroll: true });
+    return () => { if (previous?.isConnected) previous.focus({ preventScroll: true }); };
+  }, [open]);
+
+  const onKeyDown = (e: KeyboardEvent<T>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !ref.current) return;
+    const items = focusables(ref.current);
+    if (!items.length) { e.preventDefault(); return; }
+    const first = items[0], last = items[items.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || !ref.current.contains(active))) { e.preventDefault(); last.focus(); }
+    else if (!e.shiftKey && active === last) { e.preventDefault(); first.focus(); }
+  };
+
+  return { ref, onKeyDown, tabIndex: -1 };
+}
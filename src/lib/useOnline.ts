@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+
+// navigator.onLine, kept current by the window's online/offline events
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const isOnline = () => (typeof navigator === 'undefined' ? true : navigator.onLine);
+
+export const useOnline = () => useSyncExternalStore(subscribe, isOnline);
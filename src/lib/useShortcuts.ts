@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { isTypingTarget } from './a11y';
+
+const modalOpen = () =>
+  Array.from(document.querySelectorAll('[aria-modal="true"]')).some((el) => !el.closest('[inert]'));
+
+/**
+ * Page-wide single-key shortcuts, keyed by `KeyboardEvent.key`. Keys typed into a text field are
+ * left alone (except Escape), as are chords with ⌘/Ctrl/Alt and everything while a modal dialog is
+ * open. A handler that returns `false` declines the key, so the browser's default still runs.
+ */
+export function useShortcuts(handlers: Record<string, () => boolean | void>) {
+  const ref = useRef(handlers);
+  ref.current = handlers;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.metaKey || e.ctrlKey || e.altKey || e.isComposing) return;
+      if (e.key !== 'Escape' && isTypingTarget(e.target)) return;
+      if (modalOpen()) return;
+      const run = ref.current[e.key];
+      if (run && run() !== false) e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+}
@@ -0,0 +1,482 @@
+import type { Messages } from './en';
+
+// --- Arabic (العربية), right-to-left. Plural keys add `.two`, `.few` and `.many` (and `.zero` where it reads better).
+export const ar: Messages = {
+  // App shell
+  'nav.skip': 'انتقل إلى المحتوى',
+  'nav.beta': 'تجريبي',
+  'nav.search.label': 'ابحث في الكتب',
+  'nav.search.placeholder': 'ابحث عن كتب وأفكار وفصول…',
+  'nav.streak': 'اليوم {day}',
+  'nav.streak.label.one': 'سلسلة من يوم واحد، اعرض النشاط',
+  'nav.streak.label.other': 'سلسلة من {count} يوم، اعرض النشاط',
+  'nav.streak.label.two': 'سلسلة من يومين، اعرض النشاط',
+  'nav.streak.label.few': 'سلسلة من {count} أيام، اعرض النشاط',
+  'nav.streak.label.many': 'سلسلة من {count} يومًا، اعرض النشاط',
+  'nav.offline': 'غير متصل',
+  'nav.offline.title': 'أنت غير متصل بالإنترنت',
+  'nav.account': 'الحساب: {email}',
+  'nav.signIn': 'تسجيل الدخول',
+  'nav.signIn.title': 'سجّل الدخول للمزامنة',
+  'nav.due.one': 'بطاقة مستحقة',
+  'nav.due.other': '{count} مستحقة',
+  'nav.due.two': 'بطاقتان مستحقتان',
+  'nav.due.few': '{count} مستحقة',
+  'nav.due.many': '{count} مستحقة',
+  'nav.due.label.one': 'بطاقة واحدة مستحقة للمراجعة',
+  'nav.due.label.other': '{count} بطاقة مستحقة للمراجعة',
+  'nav.due.label.two': 'بطاقتان مستحقتان للمراجعة',
+  'nav.due.label.few': '{count} بطاقات مستحقة للمراجعة',
+  'nav.due.label.many': '{count} بطاقة مستحقة للمراجعة',
+  'nav.library': 'المكتبة',
+  'nav.settings': 'إعدادات القراءة واللغة',
+  'nav.settings.title': 'المظهر وحجم النص واللغة',
+  'nav.journal': 'اليوميات',
+  'nav.journal.open': 'افتح اليوميات',
+  'notFound': 'الصفحة غير موجودة.',
+  'notFound.home': 'العودة إلى الرئيسية',
+
+  // Chat home
+  'chat.offline.sending.one': 'جارٍ إرسال سؤال واحد في الانتظار…',
+  'chat.offline.sending.other': 'جارٍ إرسال {count} سؤال في الانتظار…',
+  'chat.offline.sending.two': 'جارٍ إرسال سؤالين في الانتظار…',
+  'chat.offline.sending.few': 'جارٍ إرسال {count} أسئلة في الانتظار…',
+  'chat.offline.sending.many': 'جارٍ إرسال {count} سؤالًا في الانتظار…',
+  'chat.offline.notice': 'أنت غير متصل. محادثاتك ويومياتك تعمل كالمعتاد، وستُرسل الأسئلة الجديدة عند عودة الاتصال.',
+  'chat.offline.queued.one': '(سؤال واحد في الانتظار)',
+  'chat.offline.queued.other': '({count} سؤال في الانتظار)',
+  'chat.offline.queued.two': '(سؤالان في الانتظار)',
+  'chat.offline.queued.few': '({count} أسئلة في الانتظار)',
+  'chat.offline.queued.many': '({count} سؤالًا في الانتظار)',
+  'chat.streak': 'اليوم {day} من سلسلة تعلّمك',
+  'hero.title': 'تعلّم أفضل مع مرشدك من الكتب',
+  'hero.subtitle': 'اطرح الأسئلة، واحصل على شروح واضحة، واحفظ الأفكار في يومياتك، وابنِ سلسلة تعلّم يومية.',
+  'resume.label': 'تابع محادثتك الأخيرة',
+  'resume.book': 'كتابك',
+  'resume.button': 'متابعة ←',
+  'weak.label': 'للمراجعة:',
+  'weak.aria': 'راجع {topic} من {book}',
+  'weak.missed.one': 'أخطأت فيه مرة واحدة في اختبارات {book}',
+  'weak.missed.other': 'أخطأت فيه {count} مرة في اختبارات {book}',
+  'weak.missed.two': 'أخطأت فيه مرتين في اختبارات {book}',
+  'weak.missed.few': 'أخطأت فيه {count} مرات في اختبارات {book}',
+  'weak.missed.many': 'أخطأت فيه {count} مرة في اختبارات {book}',
+  'chat.comparing': 'المقارنة بين:',
+  'chat.chattingWith': 'تتحدث مع:',
+  'chat.books.compare': 'كتب للمقارنة',
+  'chat.books.chat': 'كتاب للمحادثة',
+  'chat.book.compare': 'قارن {title}',
+  'chat.book.chat': 'تحدث مع {title}',
+  'chat.compare': 'قارن',
+  'chat.compare.pick': 'اختر كتابين على الأقل للمقارنة.',
+  'chat.quiz': 'اختبرني',
+  'chat.quiz.chapters': 'اختبرني في هذه الفصول',
+  'chat.chapter': 'الفصل:',
+  'chat.prompt.aria': 'اسأل: {text}',
+  'chat.tip.send': 'نصيحة: اضغط ⌘/Ctrl + Enter للإرسال',
+  'chat.tip.shortcuts': 'لعرض اختصارات لوحة المفاتيح',
+  'chat.tip.scope': 'إذا كان السؤال خارج الكتاب، فالرد هو:',
+  'chat.tip.scope.reply': 'لا أعرف. هذا خارج نطاق هذا الكتاب.',
+  'chat.tip.live': 'تصل الإجابات مباشرة من الكتاب.',
+  'chat.empty': 'جاهز متى كنت جاهزًا. حافظ على سلسلتك.',
+  'chat.empty.streak': 'جاهز متى كنت جاهزًا. حافظ على سلسلتك: اليوم {day}!',
+  'chat.empty.tip': 'نصيحة: ⌘/Ctrl + Enter للإرسال',
+  'composer.label': 'اسأل الكتاب',
+  'composer.placeholder': 'اختر كتابًا من الأعلى (أو ابدأ الكتابة مباشرة) واسأل عن فصل أو فكرة أو كيفية تطبيقها…',
+  'composer.placeholder.book': 'اسأل {title} عن فصل أو فكرة أو كيفية تطبيقها…',
+  'composer.placeholder.compare': 'اطرح السؤال نفسه على كل الكتب المختارة، مثل «كيف تختلف في موضوع التركيز؟»',
+  'composer.placeholder.short': 'اختر كتابًا من الأعلى (أو ابدأ الكتابة مباشرة) واسأل…',
+  'composer.placeholder.book.short': 'اسأل {title}…',
+
+  // Shared
+  'common.retry': 'أعد المحاولة',
+  'common.save': 'حفظ',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.edit': 'تعديل',
+  'common.dismiss': 'تجاهل',
+  'common.clear': 'مسح',
+  'common.loading': 'جارٍ التحميل…',
+  'book.fallback': 'كتاب',
+  'book.unknown': 'كتاب غير معروف',
+
+  // Composer
+  'composer.ask': 'اسأل',
+  'composer.stop': 'إيقاف',
+
+  // Transcript and answers
+  'transcript.title': 'المحادثة',
+  'transcript.you': 'أنت',
+  'transcript.previousQuestion': '(السؤال السابق)',
+  'transcript.openChecklist': 'افتح قائمة المهام',
+  'transcript.saveChecklist': 'احفظ كقائمة مهام',
+  'transcript.followUp': 'تابع: {text}',
+  'transcript.shareCard': 'بطاقة مشاركة',
+  'transcript.quickShare': 'مشاركة سريعة',
+  'transcript.quickShare.aria': 'شارك هذه الإجابة بسرعة',
+  'citation.source': 'المصدر',
+  'followUp.examples': 'أعطني أمثلة',
+  'followUp.plan': 'اجعلها خطة من 7 أيام',
+  'followUp.summary': 'لخّصها في 5 نقاط',
+  'answer.thinking': 'يفكر…',
+  'answer.queued': 'بانتظار الاتصال…',
+  'answer.stopped': 'توقف.',
+  'plans.title': 'خطة {days} أيام: {title}',
+
+  // Accessibility announcements
+  'a11y.answering': '{speaker} يجيب…',
+  'a11y.queued': 'أنت غير متصل. سيُرسل السؤال عند عودة الاتصال.',
+  'a11y.stopped': 'توقف {speaker} عن الإجابة.',
+  'a11y.error': 'تعذّر على {speaker} الإجابة.',
+  'a11y.answered': 'أجاب {speaker}: {text}',
+
+  // Thread history
+  'threads.title': 'المحادثات',
+  'threads.new': 'جديدة',
+  'threads.group': 'المحادثات مع {title}',
+  'threads.delete': 'احذف المحادثة «{title}»',
+  'threads.untitled': 'محادثة جديدة',
+
+  // Daily prompts
+  'prompt.generic.habit': 'أعطني عادة الدقيقتين لهذا اليوم',
+  'prompt.generic.example': 'اشرح هذا الفصل بمثال',
+  'prompt.generic.plan': 'حوّل هذا إلى خطة يومية',
+  'prompt.generic.mistake': 'ما الخطأ الذي يقع فيه الناس مع هذه الفكرة؟',
+  'prompt.generic.apply': 'كيف أطبّق هذا في 10 دقائق؟',
+  'prompt.thisBook': 'هذا الكتاب',
+  'prompt.thread': 'تعمّق أكثر في «{title}»',
+  'prompt.tag': 'ماذا يقول {title} أيضًا عن {topic}؟',
+  'prompt.chapter': 'ما الأفكار الرئيسية في «{title}»؟',
+  'prompt.reason.starter': 'من {title}',
+  'prompt.reason.thread': 'يتابع محادثة حديثة مع {title}',
+  'prompt.reason.tag': 'من ملاحظاتك الموسومة #{tag}',
+  'prompt.reason.chapter': '{chapter} من {title}، لم تستكشفه بعد',
+  'prompt.reason.generic': 'لـ {title}',
+
+  // Compare mode
+  'compare.speaker': 'المقارنة',
+  'compare.title': 'مقارنة',
+  'compare.synthesize': 'اجمع خلاصة المقارنة',
+  'compare.asking.one': 'جارٍ سؤال كتاب واحد…',
+  'compare.asking.other': 'جارٍ سؤال {count} كتاب…',
+  'compare.asking.two': 'جارٍ سؤال كتابين…',
+  'compare.asking.few': 'جارٍ سؤال {count} كتب…',
+  'compare.asking.many': 'جارٍ سؤال {count} كتابًا…',
+  'compare.answered.one': 'أجاب {answered} من كتاب واحد.',
+  'compare.answered.other': 'أجاب {answered} من {count} كتاب.',
+  'compare.answered.two': 'أجاب {answered} من كتابين.',
+  'compare.answered.few': 'أجاب {answered} من {count} كتب.',
+  'compare.answered.many': 'أجاب {answered} من {count} كتابًا.',
+
+  // Chapter scope
+  'chapters.title': 'الفصول',
+  'chapters.whole': 'الكتاب كاملًا',
+  'chapters.count.one': 'فصل واحد',
+  'chapters.count.other': '{count} فصل',
+  'chapters.count.two': 'فصلان',
+  'chapters.count.few': '{count} فصول',
+  'chapters.count.many': '{count} فصلًا',
+  'chapters.scope': 'نطاق الفصول: {label}',
+  'chapters.unavailable': 'غير متاح',
+  'chapters.loading': 'جارٍ تحميل الفصول…',
+  'chapters.none': 'لا توجد فصول',
+
+  // Errors
+  'error.notFound': 'غير موجود على الخادم.',
+  'error.tooMany': 'طلبات كثيرة جدًا. انتظر قليلًا ثم أعد المحاولة.',
+  'error.server': 'واجه الخادم مشكلة ({status}). أعد المحاولة بعد قليل.',
+  'error.rejected': 'رُفض الطلب ({status}).',
+  'error.offline': 'أنت غير متصل. أعد المحاولة عند عودة الاتصال.',
+  'error.network': 'تعذّر الوصول إلى الخادم. تحقق من اتصالك وأعد المحاولة.',
+  'error.invalid': 'أرسل الخادم بيانات بصيغة لا يفهمها هذا التطبيق.',
+  'error.timeout': 'استغرق الخادم وقتًا طويلًا للرد. أعد المحاولة.',
+  'error.expired': 'انتهت جلستك. سجّل الدخول مرة أخرى.',
+  'error.expired.retry': 'انتهت جلستك. سجّل الدخول مرة أخرى ثم أعد المحاولة.',
+  'error.json': 'أرسل الخادم ردًا ليس بصيغة JSON صالحة.',
+  'error.stalled': 'توقفت الإجابة. أعد المحاولة.',
+  'error.login': 'البريد الإلكتروني أو كلمة المرور غير صحيحة.',
+  'error.answer': 'عذرًا، حدث خطأ أثناء جلب الإجابة.',
+  'error.noAnswer': 'تعذّر على الكتاب الإجابة.',
+
+  // Library
+  'book.open': 'افتح {title} لـ{author}',
+  'book.cover': 'غلاف {title}',
+  'book.by': 'تأليف {author}',
+  'book.chat': 'تحدث مع هذا الكتاب',
+  'featured.title': 'مختارات',
+  'featured.all': 'عرض الكل',
+  'featured.label': 'كتب مختارة',
+  'library.error.books': 'تعذّر تحميل الكتب.',
+  'library.error': 'تعذّر تحميل المكتبة.',
+  'library.error.retry': 'تحقق من اتصالك وأعد المحاولة.',
+  'library.count.one': 'كتاب واحد',
+  'library.count.other': '{count} كتاب',
+  'library.count.zero': 'لا توجد كتب',
+  'library.count.two': 'كتابان',
+  'library.count.few': '{count} كتب',
+  'library.count.many': '{count} كتابًا',
+  'library.search': 'ابحث بالعنوان أو المؤلف أو الموضوع (لا بأس بالأخطاء الإملائية)…',
+  'library.author': 'المؤلف',
+  'library.authors.all': 'كل المؤلفين',
+  'library.themes.all': 'كل المواضيع',
+  'library.sort': 'الترتيب حسب',
+  'library.sort.title': 'العنوان',
+  'library.sort.recent': 'المحادثات الأحدث',
+  'library.sort.saved': 'الأكثر حفظًا',
+  'library.empty': 'لا توجد كتب تطابق بحثك.',
+  'library.more': 'تحميل المزيد',
+  'bookDetail.missing': 'لم نعثر على هذا الكتاب.',
+  'bookDetail.back': 'العودة إلى المكتبة',
+  'bookDetail.suggested': 'أسئلة مقترحة',
+  'bookDetail.suggest.core': 'ما الفكرة الأساسية في {title}؟',
+  'bookDetail.suggest.apply': 'كيف أطبّق {title} في 10 دقائق يوميًا؟',
+  'bookDetail.suggest.mistake': 'ما الخطأ الذي يقع فيه الناس مع نصائح هذا الكتاب؟',
+  'bookDetail.summarize': 'لخّص فصل «{title}»',
+  'bookDetail.noChapters': 'لا توجد قائمة فصول لهذا الكتاب بعد.',
+
+  // Journal entries
+  'journal.question': 'السؤال',
+  'journal.answer': 'الإجابة',
+  'journal.note': 'ملاحظتك',
+  'journal.note.placeholder': 'ماذا يعني هذا لك؟',
+  'journal.tags': 'الوسوم (مفصولة بفواصل)',
+  'journal.tags.placeholder': 'عادات، تركيز',
+  'journal.edited': 'معدّلة',
+  'journal.q': 'س: {q}',
+
+  // Journal drawer
+  'journal.export': 'تصدير',
+  'journal.export.copy': 'انسخ بصيغة Markdown',
+  'journal.export.md': 'Markdown (.md)',
+  'journal.export.pdf': 'طباعة / PDF',
+  'journal.export.anki': 'بطاقات Anki (.csv)',
+  'journal.export.json': 'نسخة احتياطية كاملة (.json)',
+  'journal.export.failed': 'فشل التصدير.',
+  'journal.copied': 'نُسخ بصيغة Markdown.',
+  'journal.import': 'استيراد',
+  'journal.import.added.one': 'استُورد مدخل جديد واحد',
+  'journal.import.added.other': 'استُورد {count} مدخل جديد',
+  'journal.import.added.two': 'استُورد مدخلان جديدان',
+  'journal.import.added.few': 'استُوردت {count} مدخلات جديدة',
+  'journal.import.added.many': 'استُورد {count} مدخلًا جديدًا',
+  'journal.import.updated': '{count} محدّثة',
+  'journal.import.skipped': '{count} موجودة مسبقًا',
+  'journal.import.invalid': '{count} غير مقروءة',
+  'journal.import.separator': '، ',
+  'journal.import.end': '.',
+  'journal.import.failed': 'فشل الاستيراد.',
+  'journal.search': 'ابحث في الأسئلة والإجابات والملاحظات…',
+  'journal.search.label': 'ابحث في اليوميات',
+  'journal.filter.book': 'الكتاب',
+  'journal.filter.books.all': 'كل الكتب',
+  'journal.filter.tag': 'الوسم',
+  'journal.filter.tags.all': 'كل الوسوم',
+  'journal.filter.from': 'من',
+  'journal.filter.to': 'إلى',
+  'journal.filter.to.between': 'إلى',
+  'journal.empty': 'لم تحفظ أي أفكار بعد. ضع ⭐ على الإجابات التي تعجبك لتجمعها هنا.',
+  'journal.empty.filtered': 'لا توجد مدخلات تطابق هذه المرشحات.',
+  'plans.heading': 'الخطط',
+
+  // Journal export
+  'journal.exported': 'صُدّرت في {date}',
+  'journal.entries.one': 'مدخل واحد',
+  'journal.entries.other': '{count} مدخل',
+  'journal.entries.zero': 'لا توجد مدخلات',
+  'journal.entries.two': 'مدخلان',
+  'journal.entries.few': '{count} مدخلات',
+  'journal.entries.many': '{count} مدخلًا',
+  'journal.anki.note': 'ملاحظة: {note}',
+  'journal.import.json': 'هذا الملف ليس بصيغة JSON صالحة.',
+  'journal.import.kind': 'هذا الملف ليس نسخة احتياطية لليوميات.',
+
+  // Plans
+  'plan.dayOf': 'اليوم {day} من {days}',
+  'plan.day': 'اليوم {day}',
+  'plan.today': 'اليوم',
+  'plan.missing': 'حُذفت هذه الخطة أو لم تُحفظ على هذا الجهاز.',
+  'plan.openJournal': 'افتح اليوميات',
+  'plan.started': 'بدأت في {date}',
+  'plan.complete': 'اكتملت الخطة 🎉',
+  'plan.progress': 'أُنجزت {done} من {total} مهام',
+  'plan.reminder.on': 'التذكير اليومي مفعّل',
+  'plan.reminder.off': 'ذكّرني يوميًا',
+  'plan.reminder.time': 'وقت التذكير',
+  'plan.reminder.blocked': 'الإشعارات محظورة لهذا الموقع. اسمح بها من إعدادات المتصفح لتصلك التذكيرات.',
+  'plan.reminder.unsupported': 'لا يستطيع هذا المتصفح عرض التذكيرات.',
+  'plan.reminder.body': 'حان وقت خطة اليوم.',
+  'plan.delete.confirm': 'هل تريد حذف هذه الخطة؟',
+
+  // Voice
+  'voice.mic': 'اسأل بالصوت',
+  'voice.mic.stop': 'أوقف الإدخال الصوتي',
+  'voice.mic.listening': 'أستمع… انقر للإيقاف',
+  'voice.listen': 'استمع',
+  'voice.stop': 'أوقف القراءة',
+  'voice.settings': 'إعدادات الصوت',
+  'voice.rate': 'سرعة القراءة',
+  'voice.voice': 'الصوت',
+  'voice.default': 'الصوت الافتراضي',
+  'voice.error.blocked': 'الوصول إلى الميكروفون محظور.',
+  'voice.error.stopped': 'توقف الإدخال الصوتي عن العمل.',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.focus': 'انتقل إلى مربع السؤال',
+  'shortcuts.send': 'أرسل السؤال',
+  'shortcuts.stop': 'أوقف الإجابة الجارية أو أغلق نافذة الحوار',
+  'shortcuts.journal': 'افتح اليوميات',
+  'shortcuts.help': 'اعرض هذه القائمة',
+  'shortcuts.tab': 'تنقّل بين عناصر التحكم (Shift+Tab للرجوع)',
+
+  // Reading and language settings
+  'reading.title': 'إعدادات القراءة',
+  'reading.theme': 'المظهر',
+  'reading.theme.system': 'النظام',
+  'reading.theme.light': 'فاتح',
+  'reading.theme.dark': 'داكن',
+  'reading.size': 'حجم النص',
+  'reading.size.px': '{px} بكسل',
+  'reading.spacing': 'تباعد الأسطر',
+  'reading.spacing.compact': 'متقارب',
+  'reading.spacing.normal': 'عادي',
+  'reading.spacing.relaxed': 'متباعد',
+  'reading.dyslexic': 'خط مناسب لعسر القراءة',
+  'reading.dyslexic.hint': 'يستخدم OpenDyslexic أو Atkinson Hyperlegible إن كانا مثبّتين، مع تباعد أكبر بين الحروف والكلمات.',
+  'reading.preview': 'معاينة',
+  'reading.preview.text': 'الانتباه هو أندر أشكال الكرم وأصفاها. اختر فكرة واحدة من قراءة اليوم وجرّبها قبل أن ينتهي اليوم؛ فالتجارب الصغيرة تعلّم أكثر من الملاحظات الطويلة.',
+  'reading.saved': 'تُحفظ على هذا الجهاز وتُزامَن عند تسجيل الدخول.',
+  'reading.reset': 'إعادة الضبط',
+  'language.interface': 'لغة الواجهة',
+  'language.answers': 'تجيب الكتب باللغة',
+  'language.answers.auto': 'لغة الواجهة نفسها',
+
+  // Focused reading view
+  'reading.focus': 'تركيز',
+  'reading.focus.answer': 'اقرأ هذه الإجابة في وضع التركيز',
+  'reading.focus.entry': 'اقرأ هذا المدخل في وضع التركيز',
+  'reading.smaller': 'نص أصغر',
+  'reading.larger': 'نص أكبر',
+  'reading.close': 'أغلق عرض القراءة',
+
+  // Quizzes
+  'quiz.title': 'اختبار',
+  'quiz.title.book': 'اختبار: {title}',
+  'quiz.failed': 'تعذّر علينا إنشاء اختبار لهذا الكتاب الآن.',
+  'quiz.offline': 'تحتاج الاختبارات إلى اتصال. أعد المحاولة عند عودة الاتصال.',
+  'quiz.retry': 'أعد المحاولة',
+  'quiz.loading': 'جارٍ إعداد اختبارك…',
+  'quiz.score': '{score} / {total}',
+  'quiz.perfect': 'علامة كاملة!',
+  'quiz.missed': 'ستظهر المواضيع التي أخطأت فيها كأسئلة مقترحة في الصفحة الرئيسية.',
+  'quiz.new': 'اختبار جديد',
+  'quiz.answer.label': 'الإجابة عن السؤال {n}',
+  'quiz.answer.placeholder': 'إجابتك…',
+  'quiz.model': 'الإجابة النموذجية:',
+  'quiz.override.wrong': 'في الحقيقة أخطأت فيها',
+  'quiz.override.right': 'أجبت عنها بشكل صحيح',
+  'quiz.ask': 'اسأل الكتاب عن هذا',
+  'quiz.check': 'تحقق من الإجابات',
+  'quiz.answered': 'أُجيب عن {answered} من {total}',
+  'quiz.recent': 'النتائج الأخيرة',
+  'quiz.weak.question': 'ساعدني على فهم «{topic}»، فقد أخطأت فيه في اختبار',
+
+  // Flashcard review
+  'review.title': 'مراجعة',
+  'review.again': 'مرة أخرى',
+  'review.hard': 'صعب',
+  'review.good': 'جيد',
+  'review.easy': 'سهل',
+  'review.complete.one': 'اكتملت الجلسة: راجعت بطاقة واحدة',
+  'review.complete.other': 'اكتملت الجلسة: راجعت {count} بطاقة',
+  'review.complete.two': 'اكتملت الجلسة: راجعت بطاقتين',
+  'review.complete.few': 'اكتملت الجلسة: راجعت {count} بطاقات',
+  'review.complete.many': 'اكتملت الجلسة: راجعت {count} بطاقة',
+  'review.goal': 'تُحتسب ضمن هدف اليوم.',
+  'review.none': 'لا شيء مستحق اليوم. عد غدًا!',
+  'review.empty': 'احفظ الإجابات في يومياتك (⭐) وستتحول هنا إلى بطاقات تعليمية.',
+  'review.back': 'العودة إلى المحادثة',
+  'review.cloze': 'املأ الفراغ',
+  'review.show': 'أظهر الإجابة',
+
+  // Activity
+  'activity.title': 'النشاط',
+  'activity.goal.done': 'تحقق الهدف اليومي ✓',
+  'activity.goal.today.one': 'اليوم: {questions}/{goalQuestions} أسئلة أو {reviews}/{count} مراجعة',
+  'activity.goal.today.other': 'اليوم: {questions}/{goalQuestions} أسئلة أو {reviews}/{count} مراجعة',
+  'activity.goal.today.two': 'اليوم: {questions}/{goalQuestions} أسئلة أو {reviews}/{count} مراجعات',
+  'activity.goal.today.few': 'اليوم: {questions}/{goalQuestions} أسئلة أو {reviews}/{count} مراجعات',
+  'activity.goal.today.many': 'اليوم: {questions}/{goalQuestions} أسئلة أو {reviews}/{count} مراجعة',
+  'activity.current': 'السلسلة الحالية',
+  'activity.longest': 'أطول سلسلة',
+  'activity.freezes': 'تجميدات السلسلة (الحد الأقصى {max})',
+  'activity.stat': '{icon} {n}',
+  'activity.goal': 'الهدف اليومي',
+  'activity.goal.questions.label': 'الأسئلة يوميًا',
+  'activity.goal.questions.one': 'سؤال واحد',
+  'activity.goal.questions.other': '{count} سؤال',
+  'activity.goal.questions.two': 'سؤالان',
+  'activity.goal.questions.few': '{count} أسئلة',
+  'activity.goal.questions.many': '{count} سؤالًا',
+  'activity.goal.or': 'أو',
+  'activity.goal.reviews.label': 'المراجعات يوميًا',
+  'activity.goal.reviews.one': 'مراجعة واحدة',
+  'activity.goal.reviews.other': '{count} مراجعة',
+  'activity.goal.reviews.two': 'مراجعتان',
+  'activity.goal.reviews.few': '{count} مراجعات',
+  'activity.goal.reviews.many': '{count} مراجعة',
+  'activity.goal.perDay': 'يوميًا',
+  'activity.freeze.hint': 'كل سلسلة من 7 أيام تمنحك تجميدًا واحدًا. يغطي التجميد يومًا فائتًا تلقائيًا لتستمر سلسلتك.',
+  'activity.weeks.one': 'آخر أسبوع',
+  'activity.weeks.other': 'آخر {count} أسبوع',
+  'activity.weeks.two': 'آخر أسبوعين',
+  'activity.weeks.few': 'آخر {count} أسابيع',
+  'activity.weeks.many': 'آخر {count} أسبوعًا',
+  'activity.day.frozen': 'تجميد السلسلة',
+  'activity.day.one': 'نشاط واحد',
+  'activity.day.other': '{count} نشاط',
+  'activity.day.two': 'نشاطان',
+  'activity.day.few': '{count} أنشطة',
+  'activity.day.many': '{count} نشاطًا',
+  'activity.day.met.one': 'نشاط واحد، تحقق الهدف',
+  'activity.day.met.other': '{count} نشاط، تحقق الهدف',
+  'activity.day.met.two': 'نشاطان، تحقق الهدف',
+  'activity.day.met.few': '{count} أنشطة، تحقق الهدف',
+  'activity.day.met.many': '{count} نشاطًا، تحقق الهدف',
+  'activity.legend.active': 'نشط',
+  'activity.legend.met': 'تحقق الهدف',
+  'activity.legend.freeze': 'تجميد',
+
+  // Account
+  'account.title': 'الحساب',
+  'account.signedInAs': 'مسجّل الدخول باسم',
+  'account.syncing': 'جارٍ المزامنة…',
+  'account.synced': 'تمت المزامنة في {date}',
+  'account.notSynced': 'لم تتم المزامنة بعد',
+  'sync.failed': 'فشلت المزامنة',
+  'account.sync.hint': 'تتزامن يومياتك ومحادثاتك وسلسلتك بين أجهزتك عبر هذا الحساب.',
+  'account.syncNow': 'زامن الآن',
+  'account.signOut': 'تسجيل الخروج',
+  'account.signOut.hint': 'عند تسجيل الخروج يبقى كل شيء على هذا الجهاز.',
+  'account.signIn.hint': 'سجّل الدخول لتبقى يومياتك ومحادثاتك وسلسلتك متزامنة على كل أجهزتك.',
+  'account.signIn.failed': 'تعذّر تسجيل الدخول. أعد المحاولة.',
+  'account.email': 'البريد الإلكتروني',
+  'account.password': 'كلمة المرور',
+  'account.signingIn': 'جارٍ تسجيل الدخول…',
+
+  // Share cards
+  'share.title': 'Talk to the Book',
+  'share.text': 'من {title} — Talk to the Book',
+  'share.saved': 'حُفظت صورة PNG في التنزيلات.',
+  'share.failed': 'تعذّر إنشاء الصورة. جرّب قالبًا آخر.',
+  'share.select': 'حدّد مقطعًا لإبرازه على البطاقة',
+  'share.highlight': 'المقطع المُبرز',
+  'share.noHighlight': 'لم يُحدَّد أي مقطع، لذا تستخدم البطاقة بداية الإجابة.',
+  'share.share': 'شارك الصورة',
+  'share.download': 'نزّل PNG',
+  'share.template.quote': 'اقتباس',
+  'share.template.bullets': 'نقاط',
+  'share.template.story': 'قصة 9:16',
+  'share.template.square': 'مربع',
+};
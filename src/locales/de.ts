@@ -0,0 +1,423 @@
+import type { Messages } from './en';
+
+// --- German (Deutsch)
+export const de: Messages = {
+  // App shell
+  'nav.skip': 'Zum Inhalt springen',
+  'nav.beta': 'Beta',
+  'nav.search.label': 'Bücher suchen',
+  'nav.search.placeholder': 'Bücher, Ideen, Kapitel suchen…',
+  'nav.streak': 'Tag {day}',
+  'nav.streak.label.one': 'Serie von {count} Tag, Aktivität ansehen',
+  'nav.streak.label.other': 'Serie von {count} Tagen, Aktivität ansehen',
+  'nav.offline': 'Offline',
+  'nav.offline.title': 'Du bist offline',
+  'nav.account': 'Konto: {email}',
+  'nav.signIn': 'Anmelden',
+  'nav.signIn.title': 'Zum Synchronisieren anmelden',
+  'nav.due.one': '{count} fällig',
+  'nav.due.other': '{count} fällig',
+  'nav.due.label.one': '{count} Karte zur Wiederholung fällig',
+  'nav.due.label.other': '{count} Karten zur Wiederholung fällig',
+  'nav.library': 'Bibliothek',
+  'nav.settings': 'Lese- und Spracheinstellungen',
+  'nav.settings.title': 'Design, Textgröße und Sprache',
+  'nav.journal': 'Journal',
+  'nav.journal.open': 'Journal öffnen',
+  'notFound': 'Seite nicht gefunden.',
+  'notFound.home': 'Zur Startseite',
+
+  // Chat home
+  'chat.offline.sending.one': '{count} wartende Frage wird gesendet…',
+  'chat.offline.sending.other': '{count} wartende Fragen werden gesendet…',
+  'chat.offline.notice': 'Du bist offline. Chats und Journal funktionieren weiter, und neue Fragen werden gesendet, sobald du wieder verbunden bist.',
+  'chat.offline.queued.one': '({count} wartet)',
+  'chat.offline.queued.other': '({count} warten)',
+  'chat.streak': 'Tag {day} deiner Lernserie',
+  'hero.title': 'Besser lernen mit deinem Buch-Mentor',
+  'hero.subtitle': 'Stell Fragen, bekomm verständliche Erklärungen, halte Erkenntnisse im Journal fest und baue eine tägliche Lernserie auf.',
+  'resume.label': 'Letzten Chat fortsetzen',
+  'resume.book': 'Dein Buch',
+  'resume.button': 'Fortsetzen →',
+  'weak.label': 'Zum Wiederholen:',
+  'weak.aria': '{topic} aus {book} wiederholen',
+  'weak.missed.one': '{count}-mal in Quizzen zu {book} falsch beantwortet',
+  'weak.missed.other': '{count}-mal in Quizzen zu {book} falsch beantwortet',
+  'chat.comparing': 'Vergleich:',
+  'chat.chattingWith': 'Im Gespräch mit:',
+  'chat.books.compare': 'Bücher zum Vergleichen',
+  'chat.books.chat': 'Buch für den Chat',
+  'chat.book.compare': '{title} vergleichen',
+  'chat.book.chat': 'Mit {title} chatten',
+  'chat.compare': 'Vergleichen',
+  'chat.compare.pick': 'Wähle mindestens zwei Bücher zum Vergleichen.',
+  'chat.quiz': 'Frag mich ab',
+  'chat.quiz.chapters': 'Frag mich zu diesen Kapiteln ab',
+  'chat.chapter': 'Kapitel:',
+  'chat.prompt.aria': 'Fragen: {text}',
+  'chat.tip.send': 'Tipp: ⌘/Strg + Enter zum Senden',
+  'chat.tip.shortcuts': 'für Tastenkürzel',
+  'chat.tip.scope': 'Liegt etwas außerhalb des Buchs, lautet die Antwort:',
+  'chat.tip.scope.reply': 'Das weiß ich nicht. Das steht nicht in diesem Buch.',
+  'chat.tip.live': 'Antworten kommen live aus dem Buch.',
+  'chat.empty': 'Bereit, wenn du es bist. Bleib an deiner Serie dran.',
+  'chat.empty.streak': 'Bereit, wenn du es bist. Bleib an deiner Serie dran: Tag {day}!',
+  'chat.empty.tip': 'Tipp: ⌘/Strg + Enter zum Senden',
+  'composer.label': 'Frag das Buch',
+  'composer.placeholder': 'Wähle oben ein Buch (oder schreib einfach los) und frag nach einem Kapitel, einer Idee oder wie du sie anwendest…',
+  'composer.placeholder.book': 'Frag {title} nach einem Kapitel, einer Idee oder wie du sie anwendest…',
+  'composer.placeholder.compare': 'Stell allen gewählten Büchern dieselbe Frage, z. B. „Wie unterscheiden sie sich beim Thema Fokus?“',
+  'composer.placeholder.short': 'Wähle oben ein Buch (oder schreib einfach los) und frag…',
+  'composer.placeholder.book.short': 'Frag {title}…',
+
+  // Shared
+  'common.retry': 'Erneut versuchen',
+  'common.save': 'Speichern',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.delete': 'Löschen',
+  'common.edit': 'Bearbeiten',
+  'common.dismiss': 'Ausblenden',
+  'common.clear': 'Leeren',
+  'common.loading': 'Wird geladen…',
+  'book.fallback': 'Buch',
+  'book.unknown': 'Unbekanntes Buch',
+
+  // Composer
+  'composer.ask': 'Fragen',
+  'composer.stop': 'Stopp',
+
+  // Transcript and answers
+  'transcript.title': 'Unterhaltung',
+  'transcript.you': 'Du',
+  'transcript.previousQuestion': '(vorherige Frage)',
+  'transcript.openChecklist': 'Checkliste öffnen',
+  'transcript.saveChecklist': 'Als Checkliste speichern',
+  'transcript.followUp': 'Nachfragen: {text}',
+  'transcript.shareCard': 'Teilkarte',
+  'transcript.quickShare': 'Schnell teilen',
+  'transcript.quickShare.aria': 'Diese Antwort schnell teilen',
+  'citation.source': 'Quelle',
+  'followUp.examples': 'Gib mir Beispiele',
+  'followUp.plan': 'Mach daraus einen 7-Tage-Plan',
+  'followUp.summary': 'Fass es in 5 Punkten zusammen',
+  'answer.thinking': 'Denke nach…',
+  'answer.queued': 'Warte auf Verbindung…',
+  'answer.stopped': 'Angehalten.',
+  'plans.title': '{days}-Tage-Plan: {title}',
+
+  // Accessibility announcements
+  'a11y.answering': '{speaker} antwortet…',
+  'a11y.queued': 'Du bist offline. Die Frage wird gesendet, sobald du wieder verbunden bist.',
+  'a11y.stopped': '{speaker} hat aufgehört zu antworten.',
+  'a11y.error': '{speaker} konnte nicht antworten.',
+  'a11y.answered': '{speaker} hat geantwortet: {text}',
+
+  // Thread history
+  'threads.title': 'Chats',
+  'threads.new': 'Neu',
+  'threads.group': 'Chats mit {title}',
+  'threads.delete': 'Chat „{title}“ löschen',
+  'threads.untitled': 'Neuer Chat',
+
+  // Daily prompts
+  'prompt.generic.habit': 'Gib mir die 2-Minuten-Gewohnheit für heute',
+  'prompt.generic.example': 'Erklär dieses Kapitel mit einem Beispiel',
+  'prompt.generic.plan': 'Mach daraus einen Tagesplan',
+  'prompt.generic.mistake': 'Welchen Fehler machen Leute bei dieser Idee?',
+  'prompt.generic.apply': 'Wie wende ich das in 10 Minuten an?',
+  'prompt.thisBook': 'diesem Buch',
+  'prompt.thread': 'Geh bei „{title}“ einen Schritt weiter',
+  'prompt.tag': 'Was sagt {title} noch über {topic}?',
+  'prompt.chapter': 'Was sind die Kernideen in „{title}“?',
+  'prompt.reason.starter': 'Aus {title}',
+  'prompt.reason.thread': 'Setzt einen aktuellen Chat mit {title} fort',
+  'prompt.reason.tag': 'Aus deinen #{tag}-Notizen',
+  'prompt.reason.chapter': '{chapter} aus {title}, noch nicht erkundet',
+  'prompt.reason.generic': 'Für {title}',
+
+  // Compare mode
+  'compare.speaker': 'Der Vergleich',
+  'compare.title': 'Vergleich',
+  'compare.synthesize': 'Vergleich zusammenführen',
+  'compare.asking.one': '{count} Buch wird gefragt…',
+  'compare.asking.other': '{count} Bücher werden gefragt…',
+  'compare.answered.one': '{answered} von {count} Buch hat geantwortet.',
+  'compare.answered.other': '{answered} von {count} Büchern haben geantwortet.',
+
+  // Chapter scope
+  'chapters.title': 'Kapitel',
+  'chapters.whole': 'Ganzes Buch',
+  'chapters.count.one': '{count} Kapitel',
+  'chapters.count.other': '{count} Kapitel',
+  'chapters.scope': 'Kapitelauswahl: {label}',
+  'chapters.unavailable': 'nicht verfügbar',
+  'chapters.loading': 'Kapitel werden geladen…',
+  'chapters.none': 'Keine Kapitel',
+
+  // Errors
+  'error.notFound': 'Auf dem Server nicht gefunden.',
+  'error.tooMany': 'Zu viele Anfragen. Warte kurz und versuch es erneut.',
+  'error.server': 'Beim Server ist ein Problem aufgetreten ({status}). Versuch es gleich noch einmal.',
+  'error.rejected': 'Die Anfrage wurde abgelehnt ({status}).',
+  'error.offline': 'Du bist offline. Versuch es erneut, sobald du wieder online bist.',
+  'error.network': 'Der Server ist nicht erreichbar. Prüf deine Verbindung und versuch es erneut.',
+  'error.invalid': 'Der Server hat Daten in einem Format gesendet, das diese App nicht versteht.',
+  'error.timeout': 'Der Server hat zu lange gebraucht. Versuch es erneut.',
+  'error.expired': 'Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.',
+  'error.expired.retry': 'Deine Sitzung ist abgelaufen. Melde dich erneut an und versuch es noch einmal.',
+  'error.json': 'Die Antwort des Servers war kein gültiges JSON.',
+  'error.stalled': 'Die Antwort ist hängen geblieben. Versuch es erneut.',
+  'error.login': 'E-Mail oder Passwort ist falsch.',
+  'error.answer': 'Entschuldigung, beim Abrufen der Antwort ist etwas schiefgelaufen.',
+  'error.noAnswer': 'Das Buch konnte nicht antworten.',
+
+  // Library
+  'book.open': '{title} von {author} öffnen',
+  'book.cover': 'Cover von {title}',
+  'book.by': 'von {author}',
+  'book.chat': 'Mit diesem Buch chatten',
+  'featured.title': 'Empfohlen',
+  'featured.all': 'Alle ansehen',
+  'featured.label': 'Empfohlene Bücher',
+  'library.error.books': 'Bücher konnten nicht geladen werden.',
+  'library.error': 'Die Bibliothek konnte nicht geladen werden.',
+  'library.error.retry': 'Prüf deine Verbindung und versuch es erneut.',
+  'library.count.one': '{count} Buch',
+  'library.count.other': '{count} Bücher',
+  'library.search': 'Nach Titel, Autor oder Thema suchen (Tippfehler sind kein Problem)…',
+  'library.author': 'Autor',
+  'library.authors.all': 'Alle Autoren',
+  'library.themes.all': 'Alle Themen',
+  'library.sort': 'Sortieren nach',
+  'library.sort.title': 'Titel',
+  'library.sort.recent': 'Zuletzt gechattet',
+  'library.sort.saved': 'Am häufigsten gespeichert',
+  'library.empty': 'Keine Bücher passen zu deiner Suche.',
+  'library.more': 'Mehr laden',
+  'bookDetail.missing': 'Dieses Buch haben wir nicht gefunden.',
+  'bookDetail.back': 'Zurück zur Bibliothek',
+  'bookDetail.suggested': 'Vorgeschlagene Fragen',
+  'bookDetail.suggest.core': 'Was ist die Kernidee von {title}?',
+  'bookDetail.suggest.apply': 'Wie wende ich {title} in 10 Minuten am Tag an?',
+  'bookDetail.suggest.mistake': 'Welchen Fehler machen Leute bei den Ratschlägen dieses Buchs?',
+  'bookDetail.summarize': 'Fass das Kapitel „{title}“ zusammen',
+  'bookDetail.noChapters': 'Für dieses Buch gibt es noch kein Inhaltsverzeichnis.',
+
+  // Journal entries
+  'journal.question': 'Frage',
+  'journal.answer': 'Antwort',
+  'journal.note': 'Deine Notiz',
+  'journal.note.placeholder': 'Was bedeutet das für dich?',
+  'journal.tags': 'Tags (durch Kommas getrennt)',
+  'journal.tags.placeholder': 'Gewohnheiten, Fokus',
+  'journal.edited': 'bearbeitet',
+  'journal.q': 'F: {q}',
+
+  // Journal drawer
+  'journal.export': 'Exportieren',
+  'journal.export.copy': 'Als Markdown kopieren',
+  'journal.export.md': 'Markdown (.md)',
+  'journal.export.pdf': 'Drucken / PDF',
+  'journal.export.anki': 'Anki-Karten (.csv)',
+  'journal.export.json': 'Vollständige Sicherung (.json)',
+  'journal.export.failed': 'Export fehlgeschlagen.',
+  'journal.copied': 'Als Markdown kopiert.',
+  'journal.import': 'Importieren',
+  'journal.import.added.one': '{count} neuer Eintrag importiert',
+  'journal.import.added.other': '{count} neue Einträge importiert',
+  'journal.import.updated': '{count} aktualisiert',
+  'journal.import.skipped': '{count} schon vorhanden',
+  'journal.import.invalid': '{count} nicht lesbar',
+  'journal.import.separator': ', ',
+  'journal.import.end': '.',
+  'journal.import.failed': 'Import fehlgeschlagen.',
+  'journal.search': 'Fragen, Antworten, Notizen durchsuchen…',
+  'journal.search.label': 'Journal durchsuchen',
+  'journal.filter.book': 'Buch',
+  'journal.filter.books.all': 'Alle Bücher',
+  'journal.filter.tag': 'Tag',
+  'journal.filter.tags.all': 'Alle Tags',
+  'journal.filter.from': 'Von',
+  'journal.filter.to': 'Bis',
+  'journal.filter.to.between': 'bis',
+  'journal.empty': 'Noch keine Erkenntnisse gespeichert. Markiere Antworten, die dir gefallen, mit ⭐, um sie hier zu sammeln.',
+  'journal.empty.filtered': 'Keine Einträge passen zu diesen Filtern.',
+  'plans.heading': 'Pläne',
+
+  // Journal export
+  'journal.exported': 'Exportiert am {date}',
+  'journal.entries.one': '{count} Eintrag',
+  'journal.entries.other': '{count} Einträge',
+  'journal.anki.note': 'Notiz: {note}',
+  'journal.import.json': 'Diese Datei ist kein gültiges JSON.',
+  'journal.import.kind': 'Diese Datei ist keine Journal-Sicherung.',
+
+  // Plans
+  'plan.dayOf': 'Tag {day} von {days}',
+  'plan.day': 'Tag {day}',
+  'plan.today': 'Heute',
+  'plan.missing': 'Dieser Plan wurde gelöscht oder nie auf diesem Gerät gespeichert.',
+  'plan.openJournal': 'Journal öffnen',
+  'plan.started': 'begonnen am {date}',
+  'plan.complete': 'Plan abgeschlossen 🎉',
+  'plan.progress': '{done} von {total} Aufgaben erledigt',
+  'plan.reminder.on': 'Tägliche Erinnerung ist an',
+  'plan.reminder.off': 'Erinnere mich täglich',
+  'plan.reminder.time': 'Uhrzeit der Erinnerung',
+  'plan.reminder.blocked': 'Benachrichtigungen sind für diese Seite blockiert. Erlaube sie in den Browsereinstellungen, um Erinnerungen zu erhalten.',
+  'plan.reminder.unsupported': 'Dieser Browser kann keine Erinnerungen anzeigen.',
+  'plan.reminder.body': 'Zeit für den heutigen Plan.',
+  'plan.delete.confirm': 'Diesen Plan löschen?',
+
+  // Voice
+  'voice.mic': 'Per Sprache fragen',
+  'voice.mic.stop': 'Spracheingabe beenden',
+  'voice.mic.listening': 'Höre zu… tippen zum Beenden',
+  'voice.listen': 'Anhören',
+  'voice.stop': 'Vorlesen beenden',
+  'voice.settings': 'Spracheinstellungen',
+  'voice.rate': 'Lesegeschwindigkeit',
+  'voice.voice': 'Stimme',
+  'voice.default': 'Standardstimme',
+  'voice.error.blocked': 'Der Zugriff auf das Mikrofon ist blockiert.',
+  'voice.error.stopped': 'Die Spracheingabe funktioniert nicht mehr.',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.focus': 'Zum Fragefeld springen',
+  'shortcuts.send': 'Frage senden',
+  'shortcuts.stop': 'Laufende Antwort stoppen oder Dialog schließen',
+  'shortcuts.journal': 'Journal öffnen',
+  'shortcuts.help': 'Diese Liste anzeigen',
+  'shortcuts.tab': 'Zwischen Bedienelementen wechseln (Umschalt+Tab geht zurück)',
+
+  // Reading and language settings
+  'reading.title': 'Leseeinstellungen',
+  'reading.theme': 'Design',
+  'reading.theme.system': 'System',
+  'reading.theme.light': 'Hell',
+  'reading.theme.dark': 'Dunkel',
+  'reading.size': 'Textgröße',
+  'reading.size.px': '{px} Pixel',
+  'reading.spacing': 'Zeilenabstand',
+  'reading.spacing.compact': 'Kompakt',
+  'reading.spacing.normal': 'Normal',
+  'reading.spacing.relaxed': 'Weit',
+  'reading.dyslexic': 'Legasthenie-freundliche Schrift',
+  'reading.dyslexic.hint': 'Nutzt OpenDyslexic oder Atkinson Hyperlegible, falls installiert, mit mehr Buchstaben- und Wortabstand.',
+  'reading.preview': 'Vorschau',
+  'reading.preview.text': 'Aufmerksamkeit ist die seltenste und reinste Form der Großzügigkeit. Nimm eine Idee aus der heutigen Lektüre und probiere sie vor Tagesende aus; kleine Experimente lehren mehr als lange Notizen.',
+  'reading.saved': 'Wird auf diesem Gerät gespeichert und nach der Anmeldung synchronisiert.',
+  'reading.reset': 'Zurücksetzen',
+  'language.interface': 'Sprache der Oberfläche',
+  'language.answers': 'Bücher antworten auf',
+  'language.answers.auto': 'Wie die Oberfläche',
+
+  // Focused reading view
+  'reading.focus': 'Fokus',
+  'reading.focus.answer': 'Diese Antwort in der Fokusansicht lesen',
+  'reading.focus.entry': 'Diesen Eintrag in der Fokusansicht lesen',
+  'reading.smaller': 'Kleinerer Text',
+  'reading.larger': 'Größerer Text',
+  'reading.close': 'Leseansicht schließen',
+
+  // Quizzes
+  'quiz.title': 'Quiz',
+  'quiz.title.book': 'Quiz: {title}',
+  'quiz.failed': 'Für dieses Buch konnten wir gerade kein Quiz erstellen.',
+  'quiz.offline': 'Quizze brauchen eine Verbindung. Versuch es erneut, sobald du wieder online bist.',
+  'quiz.retry': 'Erneut versuchen',
+  'quiz.loading': 'Dein Quiz wird erstellt…',
+  'quiz.score': '{score} / {total}',
+  'quiz.perfect': 'Volle Punktzahl!',
+  'quiz.missed': 'Verpasste Themen erscheinen auf der Startseite als vorgeschlagene Fragen.',
+  'quiz.new': 'Neues Quiz',
+  'quiz.answer.label': 'Antwort auf Frage {n}',
+  'quiz.answer.placeholder': 'Deine Antwort…',
+  'quiz.model': 'Musterantwort:',
+  'quiz.override.wrong': 'Eigentlich falsch',
+  'quiz.override.right': 'Ich hatte es richtig',
+  'quiz.ask': 'Das Buch dazu fragen',
+  'quiz.check': 'Antworten prüfen',
+  'quiz.answered': '{answered} von {total} beantwortet',
+  'quiz.recent': 'Letzte Ergebnisse',
+  'quiz.weak.question': 'Hilf mir, „{topic}“ zu verstehen – das habe ich im Quiz falsch beantwortet',
+
+  // Flashcard review
+  'review.title': 'Wiederholen',
+  'review.again': 'Nochmal',
+  'review.hard': 'Schwer',
+  'review.good': 'Gut',
+  'review.easy': 'Leicht',
+  'review.complete.one': 'Sitzung abgeschlossen: {count} Karte wiederholt',
+  'review.complete.other': 'Sitzung abgeschlossen: {count} Karten wiederholt',
+  'review.goal': 'Zählt für dein heutiges Ziel.',
+  'review.none': 'Heute ist nichts fällig. Komm morgen wieder!',
+  'review.empty': 'Speichere Antworten in deinem Journal (⭐), dann werden sie hier zu Karteikarten.',
+  'review.back': 'Zurück zum Chat',
+  'review.cloze': 'Lücke füllen',
+  'review.show': 'Antwort zeigen',
+
+  // Activity
+  'activity.title': 'Aktivität',
+  'activity.goal.done': 'Tagesziel erreicht ✓',
+  'activity.goal.today.one': 'Heute: {questions}/{goalQuestions} Fragen oder {reviews}/{count} Wiederholung',
+  'activity.goal.today.other': 'Heute: {questions}/{goalQuestions} Fragen oder {reviews}/{count} Wiederholungen',
+  'activity.current': 'Aktuelle Serie',
+  'activity.longest': 'Längste Serie',
+  'activity.freezes': 'Serienschutz (max. {max})',
+  'activity.stat': '{icon} {n}',
+  'activity.goal': 'Tagesziel',
+  'activity.goal.questions.label': 'Fragen pro Tag',
+  'activity.goal.questions.one': '{count} Frage',
+  'activity.goal.questions.other': '{count} Fragen',
+  'activity.goal.or': 'oder',
+  'activity.goal.reviews.label': 'Wiederholungen pro Tag',
+  'activity.goal.reviews.one': '{count} Wiederholung',
+  'activity.goal.reviews.other': '{count} Wiederholungen',
+  'activity.goal.perDay': 'pro Tag',
+  'activity.freeze.hint': 'Jede 7-Tage-Serie bringt dir einen Serienschutz. Er überbrückt automatisch einen verpassten Tag, damit deine Serie bestehen bleibt.',
+  'activity.weeks.one': 'Letzte {count} Woche',
+  'activity.weeks.other': 'Letzte {count} Wochen',
+  'activity.day.frozen': 'Serienschutz genutzt',
+  'activity.day.one': '{count} Aktivität',
+  'activity.day.other': '{count} Aktivitäten',
+  'activity.day.met.one': '{count} Aktivität, Ziel erreicht',
+  'activity.day.met.other': '{count} Aktivitäten, Ziel erreicht',
+  'activity.legend.active': 'Aktiv',
+  'activity.legend.met': 'Ziel erreicht',
+  'activity.legend.freeze': 'Serienschutz',
+
+  // Account
+  'account.title': 'Konto',
+  'account.signedInAs': 'Angemeldet als',
+  'account.syncing': 'Synchronisiere…',
+  'account.synced': 'Synchronisiert am {date}',
+  'account.notSynced': 'Noch nicht synchronisiert',
+  'sync.failed': 'Synchronisierung fehlgeschlagen',
+  'account.sync.hint': 'Journal, Chats und Serie werden mit diesem Konto zwischen deinen Geräten synchronisiert.',
+  'account.syncNow': 'Jetzt synchronisieren',
+  'account.signOut': 'Abmelden',
+  'account.signOut.hint': 'Nach dem Abmelden bleibt alles auf diesem Gerät.',
+  'account.signIn.hint': 'Melde dich an, um Journal, Chats und Serie auf all deinen Geräten synchron zu halten.',
+  'account.signIn.failed': 'Anmeldung fehlgeschlagen. Versuch es erneut.',
+  'account.email': 'E-Mail',
+  'account.password': 'Passwort',
+  'account.signingIn': 'Anmeldung läuft…',
+
+  // Share cards
+  'share.title': 'Talk to the Book',
+  'share.text': 'Aus {title} — Talk to the Book',
+  'share.saved': 'PNG in deinen Downloads gespeichert.',
+  'share.failed': 'Das Bild konnte nicht erstellt werden. Probier eine andere Vorlage.',
+  'share.select': 'Markiere eine Stelle, die auf der Karte hervorgehoben werden soll',
+  'share.highlight': 'Hervorgehobene Stelle',
+  'share.noHighlight': 'Keine Stelle markiert, daher nutzt die Karte den Anfang der Antwort.',
+  'share.share': 'Bild teilen',
+  'share.download': 'PNG herunterladen',
+  'share.template.quote': 'Zitat',
+  'share.template.bullets': 'Stichpunkte',
+  'share.template.story': 'Story 9:16',
+  'share.template.square': 'Quadratisch',
+};
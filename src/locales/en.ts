@@ -0,0 +1,427 @@
+// --- English: the source catalog. Every other locale defines the same keys (src/lib/i18n.ts).
+// `{name}` is a placeholder; keys ending in `.one` / `.other` are plural forms used with `tn`.
+export const en = {
+  // App shell
+  'nav.skip': 'Skip to content',
+  'nav.beta': 'beta',
+  'nav.search.label': 'Search books',
+  'nav.search.placeholder': 'Search books, ideas, chapters…',
+  'nav.streak': 'Day {day}',
+  'nav.streak.label.one': '{count}-day streak, view activity',
+  'nav.streak.label.other': '{count}-day streak, view activity',
+  'nav.offline': 'Offline',
+  'nav.offline.title': 'You’re offline',
+  'nav.account': 'Account: {email}',
+  'nav.signIn': 'Sign in',
+  'nav.signIn.title': 'Sign in to sync',
+  'nav.due.one': '{count} due',
+  'nav.due.other': '{count} due',
+  'nav.due.label.one': '{count} flashcard due for review',
+  'nav.due.label.other': '{count} flashcards due for review',
+  'nav.library': 'Library',
+  'nav.settings': 'Reading and language settings',
+  'nav.settings.title': 'Theme, text size and language',
+  'nav.journal': 'Journal',
+  'nav.journal.open': 'Open journal',
+  'notFound': 'Page not found.',
+  'notFound.home': 'Go home',
+
+  // Chat home
+  'chat.offline.sending.one': 'Sending {count} queued question…',
+  'chat.offline.sending.other': 'Sending {count} queued questions…',
+  'chat.offline.notice': 'You’re offline. Your threads and journal still work, and questions you ask are sent when you reconnect.',
+  'chat.offline.queued.one': '({count} queued)',
+  'chat.offline.queued.other': '({count} queued)',
+  'chat.streak': 'Day {day} learning streak',
+  'hero.title': 'Learn smarter with your book mentor',
+  'hero.subtitle': 'Ask questions, get friendly explanations, save insights to your journal, and build a daily learning streak.',
+  'resume.label': 'Resume your last chat',
+  'resume.book': 'Your book',
+  'resume.button': 'Resume →',
+  'weak.label': 'Brush up:',
+  'weak.aria': 'Brush up on {topic} from {book}',
+  'weak.missed.one': 'Missed {count}× in {book} quizzes',
+  'weak.missed.other': 'Missed {count}× in {book} quizzes',
+  'chat.comparing': 'Comparing:',
+  'chat.chattingWith': 'Chatting with:',
+  'chat.books.compare': 'Books to compare',
+  'chat.books.chat': 'Book to chat with',
+  'chat.book.compare': 'Compare {title}',
+  'chat.book.chat': 'Chat with {title}',
+  'chat.compare': 'Compare',
+  'chat.compare.pick': 'Pick at least two books to compare.',
+  'chat.quiz': 'Quiz me',
+  'chat.quiz.chapters': 'Quiz me on these chapters',
+  'chat.chapter': 'Chapter:',
+  'chat.prompt.aria': 'Ask: {text}',
+  'chat.tip.send': 'Tip: Press ⌘/Ctrl + Enter to send',
+  'chat.tip.shortcuts': 'for shortcuts',
+  'chat.tip.scope': 'Out-of-scope replies with:',
+  'chat.tip.scope.reply': 'I don’t know. That’s outside this book.',
+  'chat.tip.live': 'Answers stream live from the book.',
+  'chat.empty': 'Ready when you are. Keep your streak going.',
+  'chat.empty.streak': 'Ready when you are. Keep your streak going — Day {day}!',
+  'chat.empty.tip': 'Pro tip: ⌘/Ctrl + Enter to send',
+  'composer.label': 'Ask the book',
+  'composer.placeholder': 'Pick a book above (or just type) and ask about a chapter, idea, or how to apply it…',
+  'composer.placeholder.book': 'Ask {title} about a chapter, idea, or application…',
+  'composer.placeholder.compare': 'Ask all selected books the same question, e.g. “How do they differ on focus?”',
+  'composer.placeholder.short': 'Pick a book above (or just type) and ask…',
+  'composer.placeholder.book.short': 'Ask {title}…',
+
+  // Shared
+  'common.retry': 'Retry',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.dismiss': 'Dismiss',
+  'common.clear': 'Clear',
+  'common.loading': 'Loading…',
+  'book.fallback': 'Book',
+  'book.unknown': 'Unknown book',
+
+  // Composer
+  'composer.ask': 'Ask',
+  'composer.stop': 'Stop',
+
+  // Transcript and answers
+  'transcript.title': 'Conversation',
+  'transcript.you': 'You',
+  'transcript.previousQuestion': '(previous question)',
+  'transcript.openChecklist': 'Open checklist',
+  'transcript.saveChecklist': 'Save as checklist',
+  'transcript.followUp': 'Follow-up: {text}',
+  'transcript.shareCard': 'Share card',
+  'transcript.quickShare': 'Quick Share',
+  'transcript.quickShare.aria': 'Quick share this answer',
+  'citation.source': 'Source',
+  'followUp.examples': 'Give me examples',
+  'followUp.plan': 'Make a 7-day plan',
+  'followUp.summary': 'Summarize in 5 bullets',
+  'answer.thinking': 'Thinking…',
+  'answer.queued': 'Waiting for a connection…',
+  'answer.stopped': 'Stopped.',
+  'plans.title': '{days}-day plan: {title}',
+
+  // Accessibility announcements
+  'a11y.answering': '{speaker} is answering…',
+  'a11y.queued': 'You’re offline. The question will be sent when you reconnect.',
+  'a11y.stopped': '{speaker} stopped answering.',
+  'a11y.error': '{speaker} couldn’t answer.',
+  'a11y.answered': '{speaker} answered: {text}',
+
+  // Thread history
+  'threads.title': 'Chats',
+  'threads.new': 'New',
+  'threads.group': 'Chats with {title}',
+  'threads.delete': 'Delete chat “{title}”',
+  'threads.untitled': 'New chat',
+
+  // Daily prompts
+  'prompt.generic.habit': 'Give me today’s 2-minute habit',
+  'prompt.generic.example': 'Explain this chapter with an example',
+  'prompt.generic.plan': 'Turn this into a daily plan',
+  'prompt.generic.mistake': 'What mistake do people make with this idea?',
+  'prompt.generic.apply': 'How do I apply this in 10 minutes?',
+  'prompt.thisBook': 'this book',
+  'prompt.thread': 'Go one step further on “{title}”',
+  'prompt.tag': 'What else does {title} say about {topic}?',
+  'prompt.chapter': 'What are the key ideas of “{title}”?',
+  'prompt.reason.starter': 'From {title}',
+  'prompt.reason.thread': 'Continues a recent chat with {title}',
+  'prompt.reason.tag': 'From your #{tag} notes',
+  'prompt.reason.chapter': '{chapter} of {title}, not explored yet',
+  'prompt.reason.generic': 'For {title}',
+
+  // Compare mode
+  'compare.speaker': 'The comparison',
+  'compare.title': 'Comparison',
+  'compare.synthesize': 'Synthesize comparison',
+  'compare.asking.one': 'Asking {count} book…',
+  'compare.asking.other': 'Asking {count} books…',
+  'compare.answered.one': '{answered} of {count} book answered.',
+  'compare.answered.other': '{answered} of {count} books answered.',
+
+  // Chapter scope
+  'chapters.title': 'Chapters',
+  'chapters.whole': 'Whole book',
+  'chapters.count.one': '{count} chapter',
+  'chapters.count.other': '{count} chapters',
+  'chapters.scope': 'Chapter scope: {label}',
+  'chapters.unavailable': 'unavailable',
+  'chapters.loading': 'Loading chapters…',
+  'chapters.none': 'No chapters',
+
+  // Errors
+  'error.notFound': 'That wasn’t found on the server.',
+  'error.tooMany': 'Too many requests. Wait a moment and try again.',
+  'error.server': 'The server had a problem ({status}). Try again in a moment.',
+  'error.rejected': 'The request was rejected ({status}).',
+  'error.offline': 'You’re offline. Try again once you’re back online.',
+  'error.network': 'Couldn’t reach the server. Check your connection and try again.',
+  'error.invalid': 'The server sent data in a format this app doesn’t understand.',
+  'error.timeout': 'The server took too long to respond. Try again.',
+  'error.expired': 'Your session has expired. Sign in again.',
+  'error.expired.retry': 'Your session has expired. Sign in again, then retry.',
+  'error.json': 'The server sent a response that isn’t valid JSON.',
+  'error.stalled': 'The answer stalled. Try again.',
+  'error.login': 'Wrong email or password.',
+  'error.answer': 'Sorry, something went wrong while fetching the answer.',
+  'error.noAnswer': 'The book could not answer.',
+
+  // Library
+  'book.open': 'Open {title} by {author}',
+  'book.cover': 'Cover of {title}',
+  'book.by': 'by {author}',
+  'book.chat': 'Chat with this book',
+  'featured.title': 'Featured',
+  'featured.all': 'View all',
+  'featured.label': 'Featured books',
+  'library.error.books': 'Couldn’t load books.',
+  'library.error': 'Couldn’t load the library.',
+  'library.error.retry': 'Check your connection and try again.',
+  'library.count.one': '{count} book',
+  'library.count.other': '{count} books',
+  'library.search': 'Search title, author or theme (typos are fine)…',
+  'library.author': 'Author',
+  'library.authors.all': 'All authors',
+  'library.themes.all': 'All themes',
+  'library.sort': 'Sort by',
+  'library.sort.title': 'Title',
+  'library.sort.recent': 'Recently chatted',
+  'library.sort.saved': 'Most saved',
+  'library.empty': 'No books match your search.',
+  'library.more': 'Load more',
+  'bookDetail.missing': 'We couldn’t find that book.',
+  'bookDetail.back': 'Back to the library',
+  'bookDetail.suggested': 'Suggested questions',
+  'bookDetail.suggest.core': 'What is the core idea of {title}?',
+  'bookDetail.suggest.apply': 'How do I apply {title} in 10 minutes a day?',
+  'bookDetail.suggest.mistake': 'What mistake do people make with this book’s advice?',
+  'bookDetail.summarize': 'Summarize the chapter “{title}”',
+  'bookDetail.noChapters': 'No chapter list for this book yet.',
+
+  // Journal entries
+  'journal.question': 'Question',
+  'journal.answer': 'Answer',
+  'journal.note': 'Your note',
+  'journal.note.placeholder': 'What does this mean for you?',
+  'journal.tags': 'Tags (comma separated)',
+  'journal.tags.placeholder': 'habits, focus',
+  'journal.edited': 'edited',
+  'journal.q': 'Q: {q}',
+
+  // Journal drawer
+  'journal.export': 'Export',
+  'journal.export.copy': 'Copy as Markdown',
+  'journal.export.md': 'Markdown (.md)',
+  'journal.export.pdf': 'Print / PDF',
+  'journal.export.anki': 'Anki flashcards (.csv)',
+  'journal.export.json': 'Full backup (.json)',
+  'journal.export.failed': 'Export failed.',
+  'journal.copied': 'Copied as Markdown.',
+  'journal.import': 'Import',
+  'journal.import.added.one': 'Imported {count} new entry',
+  'journal.import.added.other': 'Imported {count} new entries',
+  'journal.import.updated': 'updated {count}',
+  'journal.import.skipped': '{count} already here',
+  'journal.import.invalid': '{count} unreadable',
+  'journal.import.separator': ', ',
+  'journal.import.end': '.',
+  'journal.import.failed': 'Import failed.',
+  'journal.search': 'Search questions, answers, notes…',
+  'journal.search.label': 'Search the journal',
+  'journal.filter.book': 'Book',
+  'journal.filter.books.all': 'All books',
+  'journal.filter.tag': 'Tag',
+  'journal.filter.tags.all': 'All tags',
+  'journal.filter.from': 'From',
+  'journal.filter.to': 'To',
+  'journal.filter.to.between': 'to',
+  'journal.empty': 'No saved insights yet. ⭐ answers you like to add them here.',
+  'journal.empty.filtered': 'No entries match these filters.',
+  'plans.heading': 'Plans',
+
+  // Journal export
+  'journal.exported': 'Exported {date}',
+  'journal.entries.one': '{count} entry',
+  'journal.entries.other': '{count} entries',
+  'journal.anki.note': 'Note: {note}',
+  'journal.import.json': 'This file is not valid JSON.',
+  'journal.import.kind': 'This file is not a journal backup.',
+
+  // Plans
+  'plan.dayOf': 'Day {day} of {days}',
+  'plan.day': 'Day {day}',
+  'plan.today': 'Today',
+  'plan.missing': 'This plan was deleted or never saved on this device.',
+  'plan.openJournal': 'Open the journal',
+  'plan.started': 'started {date}',
+  'plan.complete': 'Plan complete 🎉',
+  'plan.progress': '{done} of {total} tasks done',
+  'plan.reminder.on': 'Daily reminder on',
+  'plan.reminder.off': 'Remind me daily',
+  'plan.reminder.time': 'Reminder time',
+  'plan.reminder.blocked': 'Notifications are blocked for this site. Allow them in the browser settings to get reminders.',
+  'plan.reminder.unsupported': 'This browser can’t show reminders.',
+  'plan.reminder.body': 'Check in on today’s plan.',
+  'plan.delete.confirm': 'Delete this plan?',
+
+  // Voice
+  'voice.mic': 'Ask by voice',
+  'voice.mic.stop': 'Stop voice input',
+  'voice.mic.listening': 'Listening… tap to stop',
+  'voice.listen': 'Listen',
+  'voice.stop': 'Stop reading',
+  'voice.settings': 'Voice settings',
+  'voice.rate': 'Reading speed',
+  'voice.voice': 'Voice',
+  'voice.default': 'Default voice',
+  'voice.error.blocked': 'Microphone access is blocked.',
+  'voice.error.stopped': 'Voice input stopped working.',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.focus': 'Focus the question box',
+  'shortcuts.send': 'Send the question',
+  'shortcuts.stop': 'Stop the answer that’s streaming, or close a dialog',
+  'shortcuts.journal': 'Open the journal',
+  'shortcuts.help': 'Show this list',
+  'shortcuts.tab': 'Move between controls (Shift+Tab goes back)',
+
+  // Reading and language settings
+  'reading.title': 'Reading settings',
+  'reading.theme': 'Theme',
+  'reading.theme.system': 'System',
+  'reading.theme.light': 'Light',
+  'reading.theme.dark': 'Dark',
+  'reading.size': 'Text size',
+  'reading.size.px': '{px} pixels',
+  'reading.spacing': 'Line spacing',
+  'reading.spacing.compact': 'Compact',
+  'reading.spacing.normal': 'Normal',
+  'reading.spacing.relaxed': 'Relaxed',
+  'reading.dyslexic': 'Dyslexia-friendly font',
+  'reading.dyslexic.hint': 'Uses OpenDyslexic or Atkinson Hyperlegible if installed, with wider letter and word spacing.',
+  'reading.preview': 'Preview',
+  'reading.preview.text': 'Attention is the rarest and purest form of generosity. Pick one idea from today’s reading and try it before the day ends; small experiments teach more than long notes.',
+  'reading.saved': 'Saved on this device and synced when you’re signed in.',
+  'reading.reset': 'Reset',
+  'language.interface': 'Interface language',
+  'language.answers': 'Books answer in',
+  'language.answers.auto': 'Same as the interface',
+
+  // Focused reading view
+  'reading.focus': 'Focus',
+  'reading.focus.answer': 'Read this answer in focus view',
+  'reading.focus.entry': 'Read this entry in focus view',
+  'reading.smaller': 'Smaller text',
+  'reading.larger': 'Larger text',
+  'reading.close': 'Close reading view',
+
+  // Quizzes
+  'quiz.title': 'Quiz',
+  'quiz.title.book': 'Quiz: {title}',
+  'quiz.failed': 'We couldn’t make a quiz for this book right now.',
+  'quiz.offline': 'Quizzes need a connection. Try again once you’re back online.',
+  'quiz.retry': 'Try again',
+  'quiz.loading': 'Writing your quiz…',
+  'quiz.score': '{score} / {total}',
+  'quiz.perfect': 'Perfect score!',
+  'quiz.missed': 'Missed topics show up as suggested questions on the home page.',
+  'quiz.new': 'New quiz',
+  'quiz.answer.label': 'Answer to question {n}',
+  'quiz.answer.placeholder': 'Your answer…',
+  'quiz.model': 'Model answer:',
+  'quiz.override.wrong': 'Actually, I got this wrong',
+  'quiz.override.right': 'I got this right',
+  'quiz.ask': 'Ask the book about this',
+  'quiz.check': 'Check answers',
+  'quiz.answered': '{answered} of {total} answered',
+  'quiz.recent': 'Recent results',
+  'quiz.weak.question': 'Help me understand “{topic}” — I got it wrong in a quiz',
+
+  // Flashcard review
+  'review.title': 'Review',
+  'review.again': 'Again',
+  'review.hard': 'Hard',
+  'review.good': 'Good',
+  'review.easy': 'Easy',
+  'review.complete.one': 'Session complete — {count} card reviewed',
+  'review.complete.other': 'Session complete — {count} cards reviewed',
+  'review.goal': 'That counts toward today’s goal.',
+  'review.none': 'Nothing due today. Come back tomorrow!',
+  'review.empty': 'Save answers to your journal (⭐) and they become flashcards here.',
+  'review.back': 'Back to chat',
+  'review.cloze': 'Fill the gap',
+  'review.show': 'Show answer',
+
+  // Activity
+  'activity.title': 'Activity',
+  'activity.goal.done': 'Daily goal done ✓',
+  'activity.goal.today.one': 'Today: {questions}/{goalQuestions} questions or {reviews}/{count} review',
+  'activity.goal.today.other': 'Today: {questions}/{goalQuestions} questions or {reviews}/{count} reviews',
+  'activity.current': 'Current streak',
+  'activity.longest': 'Longest streak',
+  'activity.freezes': 'Streak freezes (max {max})',
+  'activity.stat': '{icon} {n}',
+  'activity.goal': 'Daily goal',
+  'activity.goal.questions.label': 'Questions per day',
+  'activity.goal.questions.one': '{count} question',
+  'activity.goal.questions.other': '{count} questions',
+  'activity.goal.or': 'or',
+  'activity.goal.reviews.label': 'Reviews per day',
+  'activity.goal.reviews.one': '{count} review',
+  'activity.goal.reviews.other': '{count} reviews',
+  'activity.goal.perDay': 'a day',
+  'activity.freeze.hint': 'Every 7-day streak earns a freeze. A freeze covers a missed day automatically, so the streak survives it.',
+  'activity.weeks.one': 'Last {count} week',
+  'activity.weeks.other': 'Last {count} weeks',
+  'activity.day.frozen': 'streak freeze',
+  'activity.day.one': '{count} activity',
+  'activity.day.other': '{count} activities',
+  'activity.day.met.one': '{count} activity, goal met',
+  'activity.day.met.other': '{count} activities, goal met',
+  'activity.legend.active': 'Active',
+  'activity.legend.met': 'Goal met',
+  'activity.legend.freeze': 'Freeze',
+
+  // Account
+  'account.title': 'Account',
+  'account.signedInAs': 'Signed in as',
+  'account.syncing': 'Syncing…',
+  'account.synced': 'Synced {date}',
+  'account.notSynced': 'Not synced yet',
+  'sync.failed': 'Sync failed',
+  'account.sync.hint': 'Your journal, chats and streak sync across devices signed in to this account.',
+  'account.syncNow': 'Sync now',
+  'account.signOut': 'Sign out',
+  'account.signOut.hint': 'Signing out keeps everything on this device.',
+  'account.signIn.hint': 'Sign in to keep your journal, chats and streak in sync across your devices.',
+  'account.signIn.failed': 'Sign-in failed. Try again.',
+  'account.email': 'Email',
+  'account.password': 'Password',
+  'account.signingIn': 'Signing in…',
+
+  // Share cards
+  'share.title': 'Talk to the Book',
+  'share.text': 'From {title} — Talk to the Book',
+  'share.saved': 'PNG saved to your downloads.',
+  'share.failed': 'Couldn’t create the image. Try another template.',
+  'share.select': 'Select a passage to feature it on the card',
+  'share.highlight': 'Highlighted passage',
+  'share.noHighlight': 'No passage selected, so the card uses the start of the answer.',
+  'share.share': 'Share image',
+  'share.download': 'Download PNG',
+  'share.template.quote': 'Quote',
+  'share.template.bullets': 'Bullet list',
+  'share.template.story': 'Story 9:16',
+  'share.template.square': 'Square',
+};
+
+export type MessageKey = keyof typeof en;
+
+/** A locale's catalog: every key, plus any extra plural forms (`.zero`, `.two`, `.few`, `.many`) it needs */
+export type Messages = Record<MessageKey, string> & { [key: string]: string };
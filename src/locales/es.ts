@@ -0,0 +1,423 @@
+import type { Messages } from './en';
+
+// --- Spanish (español)
+export const es: Messages = {
+  // App shell
+  'nav.skip': 'Saltar al contenido',
+  'nav.beta': 'beta',
+  'nav.search.label': 'Buscar libros',
+  'nav.search.placeholder': 'Busca libros, ideas, capítulos…',
+  'nav.streak': 'Día {day}',
+  'nav.streak.label.one': 'Racha de {count} día, ver actividad',
+  'nav.streak.label.other': 'Racha de {count} días, ver actividad',
+  'nav.offline': 'Sin conexión',
+  'nav.offline.title': 'Estás sin conexión',
+  'nav.account': 'Cuenta: {email}',
+  'nav.signIn': 'Iniciar sesión',
+  'nav.signIn.title': 'Inicia sesión para sincronizar',
+  'nav.due.one': '{count} pendiente',
+  'nav.due.other': '{count} pendientes',
+  'nav.due.label.one': '{count} tarjeta pendiente de repaso',
+  'nav.due.label.other': '{count} tarjetas pendientes de repaso',
+  'nav.library': 'Biblioteca',
+  'nav.settings': 'Ajustes de lectura e idioma',
+  'nav.settings.title': 'Tema, tamaño de texto e idioma',
+  'nav.journal': 'Diario',
+  'nav.journal.open': 'Abrir el diario',
+  'notFound': 'Página no encontrada.',
+  'notFound.home': 'Ir al inicio',
+
+  // Chat home
+  'chat.offline.sending.one': 'Enviando {count} pregunta en cola…',
+  'chat.offline.sending.other': 'Enviando {count} preguntas en cola…',
+  'chat.offline.notice': 'Estás sin conexión. Tus conversaciones y tu diario siguen funcionando, y las preguntas que hagas se enviarán al reconectar.',
+  'chat.offline.queued.one': '({count} en cola)',
+  'chat.offline.queued.other': '({count} en cola)',
+  'chat.streak': 'Día {day} de tu racha de aprendizaje',
+  'hero.title': 'Aprende mejor con tu mentor de libros',
+  'hero.subtitle': 'Haz preguntas, recibe explicaciones cercanas, guarda ideas en tu diario y construye una racha diaria de aprendizaje.',
+  'resume.label': 'Retomar tu última conversación',
+  'resume.book': 'Tu libro',
+  'resume.button': 'Retomar →',
+  'weak.label': 'Para repasar:',
+  'weak.aria': 'Repasar {topic} de {book}',
+  'weak.missed.one': 'Fallado {count} vez en cuestionarios de {book}',
+  'weak.missed.other': 'Fallado {count} veces en cuestionarios de {book}',
+  'chat.comparing': 'Comparando:',
+  'chat.chattingWith': 'Conversando con:',
+  'chat.books.compare': 'Libros para comparar',
+  'chat.books.chat': 'Libro con el que conversar',
+  'chat.book.compare': 'Comparar {title}',
+  'chat.book.chat': 'Conversar con {title}',
+  'chat.compare': 'Comparar',
+  'chat.compare.pick': 'Elige al menos dos libros para comparar.',
+  'chat.quiz': 'Ponme a prueba',
+  'chat.quiz.chapters': 'Ponme a prueba con estos capítulos',
+  'chat.chapter': 'Capítulo:',
+  'chat.prompt.aria': 'Preguntar: {text}',
+  'chat.tip.send': 'Consejo: pulsa ⌘/Ctrl + Intro para enviar',
+  'chat.tip.shortcuts': 'para ver los atajos',
+  'chat.tip.scope': 'Si algo queda fuera del libro, responde:',
+  'chat.tip.scope.reply': 'No lo sé. Eso queda fuera de este libro.',
+  'chat.tip.live': 'Las respuestas llegan en directo desde el libro.',
+  'chat.empty': 'Cuando quieras. Mantén tu racha.',
+  'chat.empty.streak': 'Cuando quieras. Mantén tu racha: ¡día {day}!',
+  'chat.empty.tip': 'Truco: ⌘/Ctrl + Intro para enviar',
+  'composer.label': 'Pregunta al libro',
+  'composer.placeholder': 'Elige un libro arriba (o simplemente escribe) y pregunta por un capítulo, una idea o cómo aplicarla…',
+  'composer.placeholder.book': 'Pregunta a {title} por un capítulo, una idea o cómo aplicarla…',
+  'composer.placeholder.compare': 'Haz la misma pregunta a todos los libros elegidos, p. ej. «¿En qué se diferencian sobre la concentración?»',
+  'composer.placeholder.short': 'Elige un libro arriba (o simplemente escribe) y pregunta…',
+  'composer.placeholder.book.short': 'Pregunta a {title}…',
+
+  // Shared
+  'common.retry': 'Reintentar',
+  'common.save': 'Guardar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+  'common.edit': 'Editar',
+  'common.dismiss': 'Descartar',
+  'common.clear': 'Borrar',
+  'common.loading': 'Cargando…',
+  'book.fallback': 'Libro',
+  'book.unknown': 'Libro desconocido',
+
+  // Composer
+  'composer.ask': 'Preguntar',
+  'composer.stop': 'Detener',
+
+  // Transcript and answers
+  'transcript.title': 'Conversación',
+  'transcript.you': 'Tú',
+  'transcript.previousQuestion': '(pregunta anterior)',
+  'transcript.openChecklist': 'Abrir lista de tareas',
+  'transcript.saveChecklist': 'Guardar como lista de tareas',
+  'transcript.followUp': 'Seguir con: {text}',
+  'transcript.shareCard': 'Tarjeta para compartir',
+  'transcript.quickShare': 'Compartir rápido',
+  'transcript.quickShare.aria': 'Compartir esta respuesta rápidamente',
+  'citation.source': 'Fuente',
+  'followUp.examples': 'Dame ejemplos',
+  'followUp.plan': 'Haz un plan de 7 días',
+  'followUp.summary': 'Resúmelo en 5 puntos',
+  'answer.thinking': 'Pensando…',
+  'answer.queued': 'Esperando conexión…',
+  'answer.stopped': 'Detenido.',
+  'plans.title': 'Plan de {days} días: {title}',
+
+  // Accessibility announcements
+  'a11y.answering': '{speaker} está respondiendo…',
+  'a11y.queued': 'Estás sin conexión. La pregunta se enviará al reconectar.',
+  'a11y.stopped': '{speaker} dejó de responder.',
+  'a11y.error': '{speaker} no pudo responder.',
+  'a11y.answered': '{speaker} respondió: {text}',
+
+  // Thread history
+  'threads.title': 'Conversaciones',
+  'threads.new': 'Nueva',
+  'threads.group': 'Conversaciones con {title}',
+  'threads.delete': 'Eliminar la conversación «{title}»',
+  'threads.untitled': 'Nueva conversación',
+
+  // Daily prompts
+  'prompt.generic.habit': 'Dame el hábito de 2 minutos de hoy',
+  'prompt.generic.example': 'Explica este capítulo con un ejemplo',
+  'prompt.generic.plan': 'Convierte esto en un plan diario',
+  'prompt.generic.mistake': '¿Qué error comete la gente con esta idea?',
+  'prompt.generic.apply': '¿Cómo lo aplico en 10 minutos?',
+  'prompt.thisBook': 'este libro',
+  'prompt.thread': 'Ve un paso más allá con «{title}»',
+  'prompt.tag': '¿Qué más dice {title} sobre {topic}?',
+  'prompt.chapter': '¿Cuáles son las ideas clave de «{title}»?',
+  'prompt.reason.starter': 'De {title}',
+  'prompt.reason.thread': 'Continúa una conversación reciente con {title}',
+  'prompt.reason.tag': 'De tus notas #{tag}',
+  'prompt.reason.chapter': '{chapter} de {title}, aún sin explorar',
+  'prompt.reason.generic': 'Para {title}',
+
+  // Compare mode
+  'compare.speaker': 'La comparación',
+  'compare.title': 'Comparación',
+  'compare.synthesize': 'Sintetizar la comparación',
+  'compare.asking.one': 'Preguntando a {count} libro…',
+  'compare.asking.other': 'Preguntando a {count} libros…',
+  'compare.answered.one': '{answered} de {count} libro ha respondido.',
+  'compare.answered.other': '{answered} de {count} libros han respondido.',
+
+  // Chapter scope
+  'chapters.title': 'Capítulos',
+  'chapters.whole': 'Libro completo',
+  'chapters.count.one': '{count} capítulo',
+  'chapters.count.other': '{count} capítulos',
+  'chapters.scope': 'Alcance por capítulos: {label}',
+  'chapters.unavailable': 'no disponible',
+  'chapters.loading': 'Cargando capítulos…',
+  'chapters.none': 'Sin capítulos',
+
+  // Errors
+  'error.notFound': 'No se encontró en el servidor.',
+  'error.tooMany': 'Demasiadas solicitudes. Espera un momento y vuelve a intentarlo.',
+  'error.server': 'El servidor tuvo un problema ({status}). Inténtalo de nuevo en un momento.',
+  'error.rejected': 'La solicitud fue rechazada ({status}).',
+  'error.offline': 'Estás sin conexión. Inténtalo de nuevo cuando vuelvas a estar en línea.',
+  'error.network': 'No se pudo contactar con el servidor. Revisa tu conexión y vuelve a intentarlo.',
+  'error.invalid': 'El servidor envió datos en un formato que esta aplicación no entiende.',
+  'error.timeout': 'El servidor tardó demasiado en responder. Vuelve a intentarlo.',
+  'error.expired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'error.expired.retry': 'Tu sesión ha caducado. Vuelve a iniciar sesión y reinténtalo.',
+  'error.json': 'El servidor envió una respuesta que no es JSON válido.',
+  'error.stalled': 'La respuesta se quedó atascada. Vuelve a intentarlo.',
+  'error.login': 'Correo o contraseña incorrectos.',
+  'error.answer': 'Lo sentimos, algo salió mal al obtener la respuesta.',
+  'error.noAnswer': 'El libro no pudo responder.',
+
+  // Library
+  'book.open': 'Abrir {title} de {author}',
+  'book.cover': 'Portada de {title}',
+  'book.by': 'de {author}',
+  'book.chat': 'Conversar con este libro',
+  'featured.title': 'Destacados',
+  'featured.all': 'Ver todos',
+  'featured.label': 'Libros destacados',
+  'library.error.books': 'No se pudieron cargar los libros.',
+  'library.error': 'No se pudo cargar la biblioteca.',
+  'library.error.retry': 'Revisa tu conexión y vuelve a intentarlo.',
+  'library.count.one': '{count} libro',
+  'library.count.other': '{count} libros',
+  'library.search': 'Busca por título, autor o tema (no pasa nada si hay erratas)…',
+  'library.author': 'Autor',
+  'library.authors.all': 'Todos los autores',
+  'library.themes.all': 'Todos los temas',
+  'library.sort': 'Ordenar por',
+  'library.sort.title': 'Título',
+  'library.sort.recent': 'Conversados recientemente',
+  'library.sort.saved': 'Más guardados',
+  'library.empty': 'Ningún libro coincide con tu búsqueda.',
+  'library.more': 'Cargar más',
+  'bookDetail.missing': 'No encontramos ese libro.',
+  'bookDetail.back': 'Volver a la biblioteca',
+  'bookDetail.suggested': 'Preguntas sugeridas',
+  'bookDetail.suggest.core': '¿Cuál es la idea central de {title}?',
+  'bookDetail.suggest.apply': '¿Cómo aplico {title} en 10 minutos al día?',
+  'bookDetail.suggest.mistake': '¿Qué error comete la gente con los consejos de este libro?',
+  'bookDetail.summarize': 'Resume el capítulo «{title}»',
+  'bookDetail.noChapters': 'Este libro aún no tiene lista de capítulos.',
+
+  // Journal entries
+  'journal.question': 'Pregunta',
+  'journal.answer': 'Respuesta',
+  'journal.note': 'Tu nota',
+  'journal.note.placeholder': '¿Qué significa esto para ti?',
+  'journal.tags': 'Etiquetas (separadas por comas)',
+  'journal.tags.placeholder': 'hábitos, concentración',
+  'journal.edited': 'editado',
+  'journal.q': 'P: {q}',
+
+  // Journal drawer
+  'journal.export': 'Exportar',
+  'journal.export.copy': 'Copiar como Markdown',
+  'journal.export.md': 'Markdown (.md)',
+  'journal.export.pdf': 'Imprimir / PDF',
+  'journal.export.anki': 'Tarjetas de Anki (.csv)',
+  'journal.export.json': 'Copia de seguridad completa (.json)',
+  'journal.export.failed': 'La exportación falló.',
+  'journal.copied': 'Copiado como Markdown.',
+  'journal.import': 'Importar',
+  'journal.import.added.one': 'Se importó {count} entrada nueva',
+  'journal.import.added.other': 'Se importaron {count} entradas nuevas',
+  'journal.import.updated': '{count} actualizadas',
+  'journal.import.skipped': '{count} ya estaban aquí',
+  'journal.import.invalid': '{count} ilegibles',
+  'journal.import.separator': ', ',
+  'journal.import.end': '.',
+  'journal.import.failed': 'La importación falló.',
+  'journal.search': 'Busca preguntas, respuestas, notas…',
+  'journal.search.label': 'Buscar en el diario',
+  'journal.filter.book': 'Libro',
+  'journal.filter.books.all': 'Todos los libros',
+  'journal.filter.tag': 'Etiqueta',
+  'journal.filter.tags.all': 'Todas las etiquetas',
+  'journal.filter.from': 'Desde',
+  'journal.filter.to': 'Hasta',
+  'journal.filter.to.between': 'a',
+  'journal.empty': 'Aún no hay ideas guardadas. Marca con ⭐ las respuestas que te gusten para añadirlas aquí.',
+  'journal.empty.filtered': 'Ninguna entrada coincide con estos filtros.',
+  'plans.heading': 'Planes',
+
+  // Journal export
+  'journal.exported': 'Exportado el {date}',
+  'journal.entries.one': '{count} entrada',
+  'journal.entries.other': '{count} entradas',
+  'journal.anki.note': 'Nota: {note}',
+  'journal.import.json': 'Este archivo no es JSON válido.',
+  'journal.import.kind': 'Este archivo no es una copia de seguridad del diario.',
+
+  // Plans
+  'plan.dayOf': 'Día {day} de {days}',
+  'plan.day': 'Día {day}',
+  'plan.today': 'Hoy',
+  'plan.missing': 'Este plan se eliminó o nunca se guardó en este dispositivo.',
+  'plan.openJournal': 'Abrir el diario',
+  'plan.started': 'empezado el {date}',
+  'plan.complete': 'Plan completado 🎉',
+  'plan.progress': '{done} de {total} tareas hechas',
+  'plan.reminder.on': 'Recordatorio diario activado',
+  'plan.reminder.off': 'Recuérdamelo cada día',
+  'plan.reminder.time': 'Hora del recordatorio',
+  'plan.reminder.blocked': 'Las notificaciones están bloqueadas para este sitio. Permítelas en los ajustes del navegador para recibir recordatorios.',
+  'plan.reminder.unsupported': 'Este navegador no puede mostrar recordatorios.',
+  'plan.reminder.body': 'Echa un vistazo al plan de hoy.',
+  'plan.delete.confirm': '¿Eliminar este plan?',
+
+  // Voice
+  'voice.mic': 'Preguntar por voz',
+  'voice.mic.stop': 'Detener la entrada de voz',
+  'voice.mic.listening': 'Escuchando… toca para detener',
+  'voice.listen': 'Escuchar',
+  'voice.stop': 'Dejar de leer',
+  'voice.settings': 'Ajustes de voz',
+  'voice.rate': 'Velocidad de lectura',
+  'voice.voice': 'Voz',
+  'voice.default': 'Voz predeterminada',
+  'voice.error.blocked': 'El acceso al micrófono está bloqueado.',
+  'voice.error.stopped': 'La entrada de voz dejó de funcionar.',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.focus': 'Ir al cuadro de preguntas',
+  'shortcuts.send': 'Enviar la pregunta',
+  'shortcuts.stop': 'Detener la respuesta en curso o cerrar un diálogo',
+  'shortcuts.journal': 'Abrir el diario',
+  'shortcuts.help': 'Mostrar esta lista',
+  'shortcuts.tab': 'Moverse entre controles (Mayús+Tab vuelve atrás)',
+
+  // Reading and language settings
+  'reading.title': 'Ajustes de lectura',
+  'reading.theme': 'Tema',
+  'reading.theme.system': 'Sistema',
+  'reading.theme.light': 'Claro',
+  'reading.theme.dark': 'Oscuro',
+  'reading.size': 'Tamaño del texto',
+  'reading.size.px': '{px} píxeles',
+  'reading.spacing': 'Interlineado',
+  'reading.spacing.compact': 'Compacto',
+  'reading.spacing.normal': 'Normal',
+  'reading.spacing.relaxed': 'Amplio',
+  'reading.dyslexic': 'Fuente adaptada a la dislexia',
+  'reading.dyslexic.hint': 'Usa OpenDyslexic o Atkinson Hyperlegible si están instaladas, con más espacio entre letras y palabras.',
+  'reading.preview': 'Vista previa',
+  'reading.preview.text': 'La atención es la forma más rara y pura de generosidad. Elige una idea de la lectura de hoy y pruébala antes de que acabe el día; los pequeños experimentos enseñan más que las notas largas.',
+  'reading.saved': 'Se guarda en este dispositivo y se sincroniza cuando inicias sesión.',
+  'reading.reset': 'Restablecer',
+  'language.interface': 'Idioma de la interfaz',
+  'language.answers': 'Los libros responden en',
+  'language.answers.auto': 'El mismo que la interfaz',
+
+  // Focused reading view
+  'reading.focus': 'Enfoque',
+  'reading.focus.answer': 'Leer esta respuesta en la vista de enfoque',
+  'reading.focus.entry': 'Leer esta entrada en la vista de enfoque',
+  'reading.smaller': 'Texto más pequeño',
+  'reading.larger': 'Texto más grande',
+  'reading.close': 'Cerrar la vista de lectura',
+
+  // Quizzes
+  'quiz.title': 'Cuestionario',
+  'quiz.title.book': 'Cuestionario: {title}',
+  'quiz.failed': 'Ahora mismo no pudimos crear un cuestionario para este libro.',
+  'quiz.offline': 'Los cuestionarios necesitan conexión. Inténtalo de nuevo cuando vuelvas a estar en línea.',
+  'quiz.retry': 'Reintentar',
+  'quiz.loading': 'Preparando tu cuestionario…',
+  'quiz.score': '{score} / {total}',
+  'quiz.perfect': '¡Puntuación perfecta!',
+  'quiz.missed': 'Los temas fallados aparecerán como preguntas sugeridas en la página de inicio.',
+  'quiz.new': 'Nuevo cuestionario',
+  'quiz.answer.label': 'Respuesta a la pregunta {n}',
+  'quiz.answer.placeholder': 'Tu respuesta…',
+  'quiz.model': 'Respuesta modelo:',
+  'quiz.override.wrong': 'En realidad, la fallé',
+  'quiz.override.right': 'La acerté',
+  'quiz.ask': 'Preguntar al libro sobre esto',
+  'quiz.check': 'Comprobar respuestas',
+  'quiz.answered': '{answered} de {total} respondidas',
+  'quiz.recent': 'Resultados recientes',
+  'quiz.weak.question': 'Ayúdame a entender «{topic}»: lo fallé en un cuestionario',
+
+  // Flashcard review
+  'review.title': 'Repaso',
+  'review.again': 'Otra vez',
+  'review.hard': 'Difícil',
+  'review.good': 'Bien',
+  'review.easy': 'Fácil',
+  'review.complete.one': 'Sesión completada: {count} tarjeta repasada',
+  'review.complete.other': 'Sesión completada: {count} tarjetas repasadas',
+  'review.goal': 'Cuenta para el objetivo de hoy.',
+  'review.none': 'Nada pendiente hoy. ¡Vuelve mañana!',
+  'review.empty': 'Guarda respuestas en tu diario (⭐) y aquí se convertirán en tarjetas.',
+  'review.back': 'Volver a la conversación',
+  'review.cloze': 'Completa el hueco',
+  'review.show': 'Mostrar respuesta',
+
+  // Activity
+  'activity.title': 'Actividad',
+  'activity.goal.done': 'Objetivo diario cumplido ✓',
+  'activity.goal.today.one': 'Hoy: {questions}/{goalQuestions} preguntas o {reviews}/{count} repaso',
+  'activity.goal.today.other': 'Hoy: {questions}/{goalQuestions} preguntas o {reviews}/{count} repasos',
+  'activity.current': 'Racha actual',
+  'activity.longest': 'Racha más larga',
+  'activity.freezes': 'Congelaciones de racha (máx. {max})',
+  'activity.stat': '{icon} {n}',
+  'activity.goal': 'Objetivo diario',
+  'activity.goal.questions.label': 'Preguntas al día',
+  'activity.goal.questions.one': '{count} pregunta',
+  'activity.goal.questions.other': '{count} preguntas',
+  'activity.goal.or': 'o',
+  'activity.goal.reviews.label': 'Repasos al día',
+  'activity.goal.reviews.one': '{count} repaso',
+  'activity.goal.reviews.other': '{count} repasos',
+  'activity.goal.perDay': 'al día',
+  'activity.freeze.hint': 'Cada racha de 7 días te da una congelación. Una congelación cubre automáticamente un día perdido, así la racha sobrevive.',
+  'activity.weeks.one': 'Última {count} semana',
+  'activity.weeks.other': 'Últimas {count} semanas',
+  'activity.day.frozen': 'racha congelada',
+  'activity.day.one': '{count} actividad',
+  'activity.day.other': '{count} actividades',
+  'activity.day.met.one': '{count} actividad, objetivo cumplido',
+  'activity.day.met.other': '{count} actividades, objetivo cumplido',
+  'activity.legend.active': 'Activo',
+  'activity.legend.met': 'Objetivo cumplido',
+  'activity.legend.freeze': 'Congelación',
+
+  // Account
+  'account.title': 'Cuenta',
+  'account.signedInAs': 'Sesión iniciada como',
+  'account.syncing': 'Sincronizando…',
+  'account.synced': 'Sincronizado el {date}',
+  'account.notSynced': 'Aún sin sincronizar',
+  'sync.failed': 'La sincronización falló',
+  'account.sync.hint': 'Tu diario, tus conversaciones y tu racha se sincronizan entre los dispositivos con esta cuenta.',
+  'account.syncNow': 'Sincronizar ahora',
+  'account.signOut': 'Cerrar sesión',
+  'account.signOut.hint': 'Al cerrar sesión todo se queda en este dispositivo.',
+  'account.signIn.hint': 'Inicia sesión para mantener tu diario, tus conversaciones y tu racha sincronizados entre tus dispositivos.',
+  'account.signIn.failed': 'No se pudo iniciar sesión. Vuelve a intentarlo.',
+  'account.email': 'Correo electrónico',
+  'account.password': 'Contraseña',
+  'account.signingIn': 'Iniciando sesión…',
+
+  // Share cards
+  'share.title': 'Talk to the Book',
+  'share.text': 'De {title} — Talk to the Book',
+  'share.saved': 'PNG guardado en tus descargas.',
+  'share.failed': 'No se pudo crear la imagen. Prueba con otra plantilla.',
+  'share.select': 'Selecciona un pasaje para destacarlo en la tarjeta',
+  'share.highlight': 'Pasaje destacado',
+  'share.noHighlight': 'No hay ningún pasaje seleccionado, así que la tarjeta usa el comienzo de la respuesta.',
+  'share.share': 'Compartir imagen',
+  'share.download': 'Descargar PNG',
+  'share.template.quote': 'Cita',
+  'share.template.bullets': 'Lista de puntos',
+  'share.template.story': 'Historia 9:16',
+  'share.template.square': 'Cuadrada',
+};
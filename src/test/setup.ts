@@ -0,0 +1,22 @@
+import { afterEach, expect, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import * as axeMatchers from 'vitest-axe/matchers';
+import type { AxeMatchers } from 'vitest-axe/matchers';
+
+// --- Shared test setup (vite.config.ts → test.setupFiles)
+// Analytics are stubbed out everywhere; each test starts with an empty DOM and localStorage.
+// `expect(await axe(container)).toHaveNoViolations()` runs axe-core over rendered markup.
+
+vi.mock('posthog-js', () => ({ default: { capture: vi.fn(), init: vi.fn() } }));
+
+expect.extend(axeMatchers);
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends AxeMatchers {}
+  interface AsymmetricMatchersContaining extends AxeMatchers {}
+}
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
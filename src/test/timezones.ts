@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, vi } from 'vitest';
+
+// --- Time zones for date tests. Each zone lists its 2024 DST changes as local [y, m, d]:
+// `short` is the 23-hour day (clocks go forward), `long` the 25-hour one (clocks go back).
+// Sydney is in the list because its DST runs the other way round the year.
+
+/** A local calendar day; months are 1-based */
+export type Day = [number, number, number];
+
+export type Zone = { tz: string; short: Day; long: Day };
+
+export const ZONES: Zone[] = [
+  { tz: 'America/New_York', short: [2024, 3, 10], long: [2024, 11, 3] },
+  { tz: 'Europe/Berlin', short: [2024, 3, 31], long: [2024, 10, 27] },
+  { tz: 'Australia/Sydney', short: [2024, 10, 6], long: [2024, 4, 7] },
+];
+
+/** Run the enclosing describe block with `TZ` set; Node re-reads it on assignment */
+export function withTimeZone(tz: string) {
+  beforeAll(() => { vi.stubEnv('TZ', tz); });
+  afterAll(() => { vi.unstubAllEnvs(); });
+}
+
+/** Local time on `day` in the current zone */
+export const local = ([y, m, d]: Day, h = 12, min = 0) => new Date(y, m - 1, d, h, min).getTime();
+
+/** Hours between local midnight of a day and the next one: 23, 24 or 25 */
+export const dayLength = ([y, m, d]: Day) => {
+  return (new Date(y, m - 1, d + 1).getTime() - new Date(y, m - 1, d).getTime()) / 3600000;
+};
+
+/** The day `n` calendar days after `day` */
+export const addDays = ([y, m, d]: Day, n: number): Day => {
+  const t = new Date(y, m - 1, d + n);
+  return [t.getFullYear(), t.getMonth() + 1, t.getDate()];
+};
+
+/** YYYY-MM-DD of a day, as dayKey writes it */
+export const ymd = ([y, m, d]: Day) => `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+
+export const toDay = (key: string): Day => {
+  const [y, m, d] = key.split('-').map(Number);
+  return [y, m, d];
+};
@@ -0,0 +1,22 @@
+// --- Book type; responses are checked against it at runtime (`bookSchema` in src/lib/api.ts)
+export type Book = { id: string; title: string; author: string } & { theme?: string; color?: string; cover?: string; tagline?: string; chapters?: Chapter[]; suggestedQuestions?: string[] };
+
+// --- Table-of-contents entry (served by GET /books/:id); `number` is the printed chapter number when there is one
+export type Chapter = { id: string; title: string; number?: number };
+
+// --- Chat message type
+export type ChatMsg = { id: string; role: "user" | "book"; content: string; ts: number; chapterIds?: string[]; status?: MsgStatus; error?: string; meta?: Record<string, unknown>; citations?: Citation[] };
+
+// `chapterIds` (questions only) is the chapter scope the question was asked with.
+// Book answers only: "queued" when asked offline (sent on reconnect), "streaming" while tokens arrive,
+// "stopped" when the user aborted, "error" when the stream failed
+export type MsgStatus = "queued" | "streaming" | "done" | "stopped" | "error";
+
+// --- Persisted conversation thread (one book, many messages)
+export type Thread = { id: string; bookId: string; title: string; createdAt: number; updatedAt: number; messages: ChatMsg[] };
+
+// --- Source passage backing part of an answer; `n` matches the inline [n] marker
+export type Citation = { n: number; chapter?: string; location?: string; quote: string };
+
+// --- Compare mode: one question asked of several books, answered side by side
+export type Comparison = { id: string; question: string; ts: number; columns: { bookId: string; msg: ChatMsg }[]; synthesis?: ChatMsg };
@@ -1,4 +1,25 @@
 import type { Config } from 'tailwindcss';
+import colors from 'tailwindcss/colors';
+import plugin from 'tailwindcss/plugin';
+
+// --- Themes: the UI is written for the dark theme (white overlays on slate). Its palettes are
+// CSS variables, and the light theme (`<html data-theme="light">`) mirrors every shade
+// (50 ↔ 950, 100 ↔ 900, …) and swaps white for slate-900, so the same classes work on both.
+const PALETTES = ['slate', 'sky', 'rose', 'emerald', 'orange', 'amber', 'violet', 'indigo', 'teal', 'fuchsia', 'lime'] as const;
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'] as const;
+
+const rgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+const mirror = (shade: string) => SHADES[SHADES.length - 1 - SHADES.indexOf(shade as typeof SHADES[number])];
+
+const themeVars = (light: boolean) => {
+  const vars: Record<string, string> = { '--white': rgb(light ? colors.slate[900] : colors.white) };
+  for (const p of PALETTES) {
+    for (const s of SHADES) vars[`--${p}-${s}`] = rgb(colors[p][light ? mirror(s) : s]);
+  }
+  return vars;
+};
+
+const themed = (name: string) => Object.fromEntries(SHADES.map((s) => [s, `rgb(var(--${name}-${s}) / <alpha-value>)`]));
 
 export default {
   content: [
@@ -6,7 +27,14 @@ export default {
     './src/**/*.{ts,tsx}',
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        white: 'rgb(var(--white) / <alpha-value>)',
+        ...Object.fromEntries(PALETTES.map((p) => [p, themed(p)])),
+      },
+    },
   },
-  plugins: [],
+  plugins: [
+    plugin(({ addBase }) => addBase({ ':root': themeVars(false), '[data-theme="light"]': themeVars(true) })),
+  ],
 } satisfies Config;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
@@ -9,11 +10,42 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       injectRegister: 'auto',
-      includeAssets: ['logo.svg'],
+      includeAssets: ['logo.svg', 'sw-notifications.js'],
+      // Client-side routes (/books/:id, /chat/:threadId, /journal) resolve to the app shell offline and after install
+      workbox: {
+        navigateFallback: 'index.html',
+        // Notification clicks for plan reminders
+        importScripts: ['sw-notifications.js'],
+        runtimeCaching: [
+          {
+            // Library API (GET /books, /books/:id on VITE_API_BASE): fresh when online, last copy offline.
+            // Navigations are excluded so the /books page itself still gets the app shell.
+            urlPattern: ({ url, request }) => request.mode !== 'navigate' && /^\/books(\/|$)/.test(url.pathname),
+            handler: 'NetworkFirst',
+            options: {
+              cacheName: 'books-api',
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 200, maxAgeSeconds: 60 * 60 * 24 * 30 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+          {
+            // Book covers, usually from another origin (opaque responses)
+            urlPattern: ({ request }) => request.destination === 'image',
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'covers',
+              expiration: { maxEntries: 300, maxAgeSeconds: 60 * 60 * 24 * 60 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
       manifest: {
         name: 'Talk to the Book',
         short_name: 'BookTalk',
         start_url: '/',
+        scope: '/',
         display: 'standalone',
         background_color: '#0f172a',
         theme_color: '#0ea5e9',
@@ -26,4 +58,9 @@ export default defineConfig({
       }
     })
   ],
+  // `npm test`: Vitest with jsdom; test files sit next to the code they cover
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['src/test/setup.ts'],
+  },
 });